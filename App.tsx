@@ -4,7 +4,7 @@ import React, { useEffect } from 'react';
 import 'react-native-reanimated';
 import { PostHogProvider } from 'posthog-react-native'
 
-import { NetworkStatusModal } from './components/NetworkStatusModal';
+import { OfflineBanner } from './components/OfflineBanner';
 import { BiometricProtectionOverlay } from './components/BiometricProtectionOverlay';
 import { useNetworkConnectivity } from './hooks/useNetworkConnectivity';
 import { useAnalytics } from './hooks/useAnalytics';
@@ -13,6 +13,7 @@ import { StatusBar, useColorScheme, AppState } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { ClerkProvider, useAuth } from '@clerk/clerk-expo';
 import { tokenCache } from '@clerk/clerk-expo/token-cache';
+import { registerCoachingModels } from './lib/coaching/models';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -25,6 +26,9 @@ if (!publishableKey) {
   );
 }
 
+// Register coaching models at startup so an incomplete prompt asset fails here, not mid-request
+registerCoachingModels();
+
 function AppContent() {
   const colorScheme = useColorScheme();
   const { isLoaded } = useAuth();
@@ -61,7 +65,7 @@ function AppContent() {
     return () => subscription?.remove();
   }, [trackAppOpened]);
 
-  // Show offline modal if there's no internet connection
+  // Show the offline banner if there's no internet connection
   const isOffline = networkState.isConnected === false || networkState.isInternetReachable === false;
 
   return (
@@ -78,7 +82,7 @@ function AppContent() {
       >
         <Navigation />
       </PostHogProvider>
-      <NetworkStatusModal
+      <OfflineBanner
         visible={isOffline}
       />
       <BiometricProtectionOverlay />
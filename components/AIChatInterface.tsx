@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { View, Text, ScrollView, TextInput, TouchableOpacity, StyleSheet, useColorScheme, Alert } from 'react-native';
 import { ChatMessage, AIMode, CoachingInteractionRequest } from '@/types/coaching';
 import aiCoachingService from '@/services/aiCoachingService';
+import * as Crypto from 'expo-crypto';
 
 interface AIChatInterfaceProps {
   isVisible: boolean;
@@ -30,6 +31,8 @@ export default function AIChatInterface({ isVisible, mode, context, entryId, onC
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
+  // One coaching session per chat, so its history isn't shared with other chats about the same entry
+  const sessionIdRef = useRef(Crypto.randomUUID());
   const isDark = colorScheme === 'dark';
   const styles = createStyles(isDark);
 
@@ -73,7 +76,8 @@ export default function AIChatInterface({ isVisible, mode, context, entryId, onC
       // Generate AI response
       const request: CoachingInteractionRequest = {
         entryId,
-        entryContent: context
+        entryContent: context,
+        sessionId: sessionIdRef.current
       };
 
       const response = await aiCoachingService.generateCoachingResponse(request);
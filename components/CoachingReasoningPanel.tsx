@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform } from 'react-native';
+import { ChevronDown, ChevronUp } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+
+interface CoachingReasoningPanelProps {
+  thinking?: string;
+  model?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Expandable "Why Sage asked this" panel showing the model and reasoning behind a reply
+ * Renders nothing when the reply came without any reasoning data
+ */
+export default function CoachingReasoningPanel({ thinking, model, metadata }: CoachingReasoningPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const modelId = model || (typeof metadata?.modelId === 'string' ? metadata.modelId : undefined);
+  const metadataEntries = Object.entries(metadata || {})
+    .filter(([key, value]) => key !== 'modelId' && value !== null && value !== undefined);
+
+  if (!thinking?.trim() && !modelId && metadataEntries.length === 0) {
+    return null;
+  }
+
+  const toggleExpanded = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setExpanded(!expanded);
+  };
+
+  const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={toggleExpanded} activeOpacity={0.7}>
+        <Text style={[styles.headerText, { color: `${colors.text}80` }]}>Why Sage asked this</Text>
+        {expanded
+          ? <ChevronUp size={14} color={`${colors.text}80`} />
+          : <ChevronDown size={14} color={`${colors.text}80`} />}
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={[styles.body, {
+          backgroundColor: colorScheme === 'dark' ? '#2A2A2A' : '#F5F5F5',
+          borderColor: colorScheme === 'dark' ? '#333' : '#0000001A'
+        }]}>
+          {!!thinking?.trim() && (
+            <Text style={[styles.thinkingText, { color: `${colors.text}CC` }]}>{thinking.trim()}</Text>
+          )}
+
+          {!!modelId && (
+            <Text style={[styles.detailText, { color: `${colors.text}80` }]}>Model: {modelId}</Text>
+          )}
+
+          {metadataEntries.map(([key, value]) => (
+            <Text key={key} style={[styles.detailText, { color: `${colors.text}80` }]}>
+              {key}: {formatValue(value)}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  body: {
+    marginTop: 4,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 6,
+  },
+  thinkingText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  detailText: {
+    fontSize: 11,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+  },
+});
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useColorScheme } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { Button } from '@/components/ui/Button';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { JournalRevisionLog } from '@/lib/journalRevisionLog';
+import { JournalDiff } from '@/lib/journalDiff';
+import { htmlToPlainText } from '@/lib/plainText';
+import { JournalEntryRevision } from '@/types/journal';
+
+interface EntryHistoryModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onRestore: (content: string) => Promise<void>;
+  revisions: JournalEntryRevision[];
+  currentContent: string;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Revision log of a journal entry, newest first
+ * Opening a revision shows what restoring it would bring back and remove compared to the current text
+ */
+export default function EntryHistoryModal({
+  isVisible,
+  onClose,
+  onRestore,
+  revisions,
+  currentContent,
+  isLoading = false,
+  error = null
+}: EntryHistoryModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const timeline = useMemo(() => JournalRevisionLog.timeline(revisions, currentContent), [revisions, currentContent]);
+
+  // Start collapsed each time the modal opens
+  useEffect(() => {
+    if (isVisible) {
+      setSelectedId(null);
+    }
+  }, [isVisible]);
+
+  if (!isVisible) return null;
+
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+  const restoreChanges = selected ? JournalDiff.diff(currentContent, selected.content) : [];
+
+  const handleRestore = async () => {
+    if (!selected || isRestoring) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestore(selected.content);
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to restore entry revision:', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const formatSummary = (added: number, removed: number) => {
+    const parts = [
+      added > 0 && `${added} ${added === 1 ? 'paragraph' : 'paragraphs'} added`,
+      removed > 0 && `${removed} removed`
+    ].filter(Boolean);
+    return parts.length > 0 ? `Then: ${parts.join(', ')}` : 'No changes since';
+  };
+
+  return (
+    <View style={styles.overlay}>
+      {/* Background Blur */}
+      <View style={styles.blurContainer}>
+        <BlurView
+          intensity={40}
+          tint={colorScheme === 'dark' ? 'dark' : 'light'}
+          style={styles.blurView}
+        />
+      </View>
+
+      <SafeAreaView style={styles.contentContainer}>
+        <Text style={[styles.title, { color: colors.text }]}>
+          Entry history
+        </Text>
+
+        <ScrollView
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {isLoading ? (
+            <View style={styles.emptyState}>
+              <ActivityIndicator size="small" color={colors.text} style={{ opacity: 0.5 }} />
+            </View>
+          ) : error ? (
+            <View style={styles.emptyState}>
+              <Text style={[styles.emptyText, { color: `${colors.text}60` }]}>{error}</Text>
+            </View>
+          ) : timeline.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={[styles.emptyText, { color: `${colors.text}60` }]}>
+                No earlier versions yet.
+              </Text>
+              <Text style={[styles.emptySubtext, { color: `${colors.text}40` }]}>
+                Each time you come back to edit this entry, the version before your edits is kept here.
+              </Text>
+            </View>
+          ) : (
+            timeline.map(({ revision, added, removed }) => {
+              const isSelected = revision.id === selectedId;
+
+              return (
+                <TouchableOpacity
+                  key={revision.id}
+                  style={[styles.revisionItem, { borderColor: `${colors.text}15`, backgroundColor: isSelected ? `${colors.text}08` : 'transparent' }]}
+                  onPress={() => setSelectedId(isSelected ? null : revision.id)}
+                >
+                  <Text style={[styles.date, { color: colors.text }]}>
+                    {formatDate(revision.savedAt)}
+                  </Text>
+                  <Text style={[styles.summary, { color: `${colors.text}60` }]}>
+                    {formatSummary(added, removed)}
+                  </Text>
+
+                  {isSelected && (
+                    <View style={styles.diff}>
+                      {!JournalDiff.hasChanges(restoreChanges) ? (
+                        <Text style={[styles.summary, { color: `${colors.text}60` }]}>
+                          Same as the current text.
+                        </Text>
+                      ) : restoreChanges.map((change, index) => change.kind === 'same' ? null : (
+                        <Text
+                          key={index}
+                          style={[
+                            styles.diffText,
+                            { color: colors.text },
+                            change.kind === 'removed' ? styles.diffRemoved : styles.diffAdded
+                          ]}
+                        >
+                          {change.kind === 'removed' ? '− ' : '+ '}{htmlToPlainText(change.html)}
+                        </Text>
+                      ))}
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+
+        <View style={styles.buttonContainer}>
+          {selected && (
+            <Button
+              variant="primary"
+              size="lg"
+              onPress={handleRestore}
+              disabled={isRestoring}
+              style={styles.button}
+            >
+              {isRestoring ? 'Restoring...' : 'Restore this version'}
+            </Button>
+          )}
+          <Button
+            variant="secondary"
+            size="lg"
+            onPress={onClose}
+            style={styles.button}
+          >
+            Close
+          </Button>
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 1000,
+  },
+  blurContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  blurView: {
+    flex: 1,
+  },
+  contentContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 20,
+    gap: 24,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    lineHeight: 24,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    flexGrow: 1,
+    gap: 10,
+    paddingBottom: 20,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+  },
+  revisionItem: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 4,
+  },
+  date: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  summary: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  diff: {
+    marginTop: 8,
+    gap: 6,
+  },
+  diffText: {
+    fontSize: 14,
+    lineHeight: 20,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  diffRemoved: {
+    backgroundColor: 'rgba(251, 44, 54, 0.12)',
+  },
+  diffAdded: {
+    backgroundColor: 'rgba(34, 197, 94, 0.12)',
+  },
+  buttonContainer: {
+    gap: 12,
+  },
+  button: {
+    width: '100%',
+    borderRadius: 24,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ScrollView,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useColorScheme } from 'react-native';
+import { Check, Square } from 'lucide-react-native';
+import { Colors } from '@/constants/Colors';
+import { Button } from '@/components/ui/Button';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { JournalDiff } from '@/lib/journalDiff';
+import { htmlToPlainText } from '@/lib/plainText';
+
+interface EntryMergeModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onResolve: (content: string) => Promise<void>;
+  localContent: string;
+  remoteContent: string;
+  remoteUpdatedAt: string;
+}
+
+/**
+ * Shows both versions of an entry that was edited on this device and elsewhere
+ * Paragraphs found in only one version are listed with their origin and all kept by default,
+ * so merging never drops text unless the user unticks it.
+ */
+export default function EntryMergeModal({
+  isVisible,
+  onClose,
+  onResolve,
+  localContent,
+  remoteContent,
+  remoteUpdatedAt
+}: EntryMergeModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const changes = useMemo(() => JournalDiff.diff(localContent, remoteContent), [localContent, remoteContent]);
+  const [dropped, setDropped] = useState<Set<number>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Keep every paragraph each time the modal opens
+  useEffect(() => {
+    if (isVisible) {
+      setDropped(new Set());
+    }
+  }, [isVisible, changes]);
+
+  if (!isVisible) return null;
+
+  const toggle = (index: number) => {
+    setDropped(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const resolve = async (content: string) => {
+    if (isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onResolve(content);
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to resolve entry conflict:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const editedAt = new Date(remoteUpdatedAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+  return (
+    <View style={styles.overlay}>
+      {/* Background Blur */}
+      <View style={styles.blurContainer}>
+        <BlurView
+          intensity={40}
+          tint={colorScheme === 'dark' ? 'dark' : 'light'}
+          style={styles.blurView}
+        />
+      </View>
+
+      <SafeAreaView style={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            This entry has two versions
+          </Text>
+          <Text style={[styles.subtitle, { color: `${colors.text}60` }]}>
+            It was also edited on another device ({editedAt}). Untick any paragraph you don't want to keep.
+          </Text>
+        </View>
+
+        <ScrollView
+          style={styles.blockList}
+          contentContainerStyle={styles.blockContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {changes.map((change, index) => {
+            const text = htmlToPlainText(change.html) || ' ';
+
+            if (change.kind === 'same') {
+              return (
+                <Text key={index} style={[styles.sameText, { color: `${colors.text}50` }]} numberOfLines={3}>
+                  {text}
+                </Text>
+              );
+            }
+
+            const isKept = !dropped.has(index);
+            return (
+              <TouchableOpacity
+                key={index}
+                style={[styles.changedBlock, { borderColor: `${colors.text}15`, backgroundColor: isKept ? `${colors.text}08` : 'transparent' }]}
+                onPress={() => toggle(index)}
+              >
+                <View style={styles.blockHeader}>
+                  {isKept
+                    ? <Check size={16} color={colors.tint} />
+                    : <Square size={16} color={`${colors.text}40`} />}
+                  <Text style={[styles.origin, { color: `${colors.text}60` }]}>
+                    {change.kind === 'removed' ? 'Only on this device' : 'Only in the other version'}
+                  </Text>
+                </View>
+                <Text style={[styles.changedText, { color: colors.text, opacity: isKept ? 1 : 0.4 }]}>
+                  {text}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.buttonContainer}>
+          <Button
+            variant="primary"
+            size="lg"
+            onPress={() => resolve(JournalDiff.merge(changes, (_change, index) => !dropped.has(index)))}
+            disabled={isSaving}
+            style={styles.button}
+          >
+            {isSaving ? 'Saving...' : 'Save merged version'}
+          </Button>
+          <View style={styles.buttonRow}>
+            <Button
+              variant="secondary"
+              size="sm"
+              onPress={() => resolve(localContent)}
+              disabled={isSaving}
+              style={styles.rowButton}
+            >
+              Keep this device's
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onPress={() => resolve(remoteContent)}
+              disabled={isSaving}
+              style={styles.rowButton}
+            >
+              Keep the other
+            </Button>
+          </View>
+          <Button
+            variant="outline"
+            size="sm"
+            onPress={onClose}
+            style={styles.button}
+          >
+            Decide later
+          </Button>
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 1000,
+  },
+  blurContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  blurView: {
+    flex: 1,
+  },
+  contentContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 20,
+    gap: 20,
+  },
+  header: {
+    gap: 6,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    lineHeight: 24,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+  },
+  blockList: {
+    flex: 1,
+  },
+  blockContent: {
+    gap: 10,
+    paddingBottom: 20,
+  },
+  sameText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  changedBlock: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 6,
+  },
+  blockHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  origin: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  changedText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  buttonContainer: {
+    gap: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  rowButton: {
+    flex: 1,
+    borderRadius: 24,
+  },
+  button: {
+    width: '100%',
+    borderRadius: 24,
+  },
+});
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Animated,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useColorScheme } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { Button } from '@/components/ui/Button';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+interface InsightEditModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onSave: (text: { headline: string; description: string }) => Promise<void>;
+  title: string;
+  headline: string;
+  description: string;
+  overlayOpacity?: Animated.Value;
+}
+
+/**
+ * Lets the user rewrite an insight section in their own words
+ */
+export default function InsightEditModal({
+  isVisible,
+  onClose,
+  onSave,
+  title,
+  headline: initialHeadline,
+  description: initialDescription,
+  overlayOpacity
+}: InsightEditModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [headline, setHeadline] = useState(initialHeadline);
+  const [description, setDescription] = useState(initialDescription);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the current text each time the modal opens
+  useEffect(() => {
+    if (isVisible) {
+      setHeadline(initialHeadline);
+      setDescription(initialDescription);
+    }
+  }, [isVisible, initialHeadline, initialDescription]);
+
+  if (!isVisible) return null;
+
+  const handleSave = async () => {
+    if (!headline.trim() || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({ headline, description });
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save insight edit:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.overlay}>
+      {/* Background Blur */}
+      <Animated.View
+        style={[
+          styles.blurContainer,
+          overlayOpacity && { opacity: overlayOpacity }
+        ]}
+      >
+        <BlurView
+          intensity={40}
+          tint={colorScheme === 'dark' ? 'dark' : 'light'}
+          style={styles.blurView}
+        />
+      </Animated.View>
+
+      <Animated.View
+        style={[
+          styles.animatedContentContainer,
+          overlayOpacity && { opacity: overlayOpacity }
+        ]}
+      >
+        <SafeAreaView style={styles.contentContainer}>
+          <KeyboardAvoidingView
+            style={styles.form}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <Text style={[styles.title, { color: colors.text }]}>
+              Edit {title}
+            </Text>
+
+            <View style={styles.field}>
+              <Text style={[styles.label, { color: `${colors.text}60` }]}>Headline</Text>
+              <TextInput
+                style={[styles.input, { color: colors.text, backgroundColor: `${colors.text}08`, borderColor: `${colors.text}15` }]}
+                value={headline}
+                onChangeText={setHeadline}
+                placeholder="In your own words"
+                placeholderTextColor={`${colors.text}40`}
+                multiline
+                autoFocus
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={[styles.label, { color: `${colors.text}60` }]}>Description</Text>
+              <TextInput
+                style={[styles.input, styles.descriptionInput, { color: colors.text, backgroundColor: `${colors.text}08`, borderColor: `${colors.text}15` }]}
+                value={description}
+                onChangeText={setDescription}
+                placeholder="Optional"
+                placeholderTextColor={`${colors.text}40`}
+                multiline
+              />
+            </View>
+
+            <Text style={[styles.hint, { color: `${colors.text}50` }]}>
+              Future sessions will build on your wording. Pin this section to keep it exactly as it is.
+            </Text>
+          </KeyboardAvoidingView>
+
+          <View style={styles.buttonContainer}>
+            <Button
+              variant="primary"
+              size="lg"
+              onPress={handleSave}
+              disabled={!headline.trim() || isSaving}
+              style={styles.button}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="lg"
+              onPress={onClose}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+          </View>
+        </SafeAreaView>
+      </Animated.View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 1000,
+  },
+  blurContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  blurView: {
+    flex: 1,
+  },
+  animatedContentContainer: {
+    flex: 1,
+  },
+  contentContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 20,
+    gap: 24,
+  },
+  form: {
+    flex: 1,
+    gap: 20,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    lineHeight: 24,
+    textAlign: 'center',
+  },
+  field: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  descriptionInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  buttonContainer: {
+    gap: 12,
+  },
+  button: {
+    width: '100%',
+    borderRadius: 24,
+  },
+});
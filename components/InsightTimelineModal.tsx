@@ -0,0 +1,261 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Animated,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useColorScheme } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { Button } from '@/components/ui/Button';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { InsightHistory } from '@/lib/insightHistory';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+import { insightSectionKey, insightVersion } from '@/types/insights';
+
+interface InsightTimelineModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  section: insightSectionKey;
+  versions: insightVersion[];
+  isLoading?: boolean;
+  overlayOpacity?: Animated.Value;
+}
+
+/**
+ * Timeline of one insight section, newest change first
+ * Each change shows when it happened, what it replaced and whether a coaching session caused it
+ */
+export default function InsightTimelineModal({
+  isVisible,
+  onClose,
+  section,
+  versions,
+  isLoading = false,
+  overlayOpacity
+}: InsightTimelineModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  if (!isVisible) return null;
+
+  const changes = InsightHistory.timeline(versions)
+    .map(({ version, diff }) => ({ version, change: diff.changedSections.find(changed => changed.section === section) }))
+    .filter(({ change }) => !!change);
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <View style={styles.overlay}>
+      {/* Background Blur */}
+      <Animated.View
+        style={[
+          styles.blurContainer,
+          overlayOpacity && { opacity: overlayOpacity }
+        ]}
+      >
+        <BlurView
+          intensity={40}
+          tint={colorScheme === 'dark' ? 'dark' : 'light'}
+          style={styles.blurView}
+        />
+      </Animated.View>
+
+      <Animated.View
+        style={[
+          styles.animatedContentContainer,
+          overlayOpacity && { opacity: overlayOpacity }
+        ]}
+      >
+        <SafeAreaView style={styles.contentContainer}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            How your {InsightCategoryRegistry.get(section).label.toLowerCase()} evolved
+          </Text>
+
+          <ScrollView
+            style={styles.timelineList}
+            contentContainerStyle={styles.timelineContent}
+            showsVerticalScrollIndicator={false}
+          >
+            {isLoading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="small" color={colors.text} style={{ opacity: 0.5 }} />
+              </View>
+            ) : changes.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={[styles.emptyText, { color: `${colors.text}60` }]}>
+                  No history yet.
+                </Text>
+                <Text style={[styles.emptySubtext, { color: `${colors.text}40` }]}>
+                  Each coaching session that changes your insights adds a step to this timeline.
+                </Text>
+              </View>
+            ) : (
+              changes.map(({ version, change }, index) => (
+                <View key={version.id} style={styles.timelineItem}>
+                  <View style={styles.timelineMarker}>
+                    <View style={[styles.timelineDot, { backgroundColor: index === 0 ? colors.tint : `${colors.text}40` }]} />
+                    {index < changes.length - 1 && (
+                      <View style={[styles.timelineLine, { backgroundColor: `${colors.text}15` }]} />
+                    )}
+                  </View>
+
+                  <View style={styles.timelineBody}>
+                    <Text style={[styles.date, { color: `${colors.text}60` }]}>
+                      {formatDate(version.updatedAt)}
+                      {version.sessionId ? ' · From a coaching session' : ''}
+                    </Text>
+                    <Text style={[styles.headline, { color: colors.text }]}>
+                      {change!.after.headline}
+                    </Text>
+                    {change!.headlineChanged && change!.before?.headline ? (
+                      <Text style={[styles.previous, { color: `${colors.text}60` }]}>
+                        Previously: {change!.before.headline}
+                      </Text>
+                    ) : change!.descriptionChanged ? (
+                      <Text style={[styles.previous, { color: `${colors.text}60` }]}>
+                        Description updated
+                      </Text>
+                    ) : null}
+                    {change!.addedSources.length > 0 && (
+                      <Text style={[styles.previous, { color: `${colors.text}60` }]}>
+                        {change!.addedSources.length} new {change!.addedSources.length === 1 ? 'source' : 'sources'}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <View style={styles.buttonContainer}>
+            <Button
+              variant="secondary"
+              size="lg"
+              onPress={onClose}
+              style={styles.closeButton}
+            >
+              Close
+            </Button>
+          </View>
+        </SafeAreaView>
+      </Animated.View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 1000,
+  },
+  blurContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  blurView: {
+    flex: 1,
+  },
+  animatedContentContainer: {
+    flex: 1,
+  },
+  contentContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 20,
+    gap: 24,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    lineHeight: 24,
+    textAlign: 'center',
+  },
+  timelineList: {
+    flex: 1,
+  },
+  timelineContent: {
+    flexGrow: 1,
+    paddingBottom: 20,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '500',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    marginTop: 4,
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: 24,
+    gap: 4,
+  },
+  date: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  headline: {
+    fontSize: 16,
+    fontWeight: '600',
+    lineHeight: 22,
+  },
+  previous: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  buttonContainer: {
+    paddingTop: 20,
+  },
+  closeButton: {
+    width: '100%',
+    borderRadius: 24,
+  },
+});
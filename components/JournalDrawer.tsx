@@ -1,12 +1,11 @@
 import { Colors } from '@/constants/Colors';
-import { db } from '@/lib/firebase';
 import { DrawerContentComponentProps, useDrawerStatus } from '@react-navigation/drawer';
-import { collection, getDocs, orderBy, query, where, deleteDoc, doc } from 'firebase/firestore';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActionSheetIOS,
   ActivityIndicator,
-  ScrollView,
+  FlatList,
+  SectionList,
   StyleSheet,
   Text,
   TouchableOpacity,
@@ -15,26 +14,42 @@ import {
   NativeScrollEvent,
   NativeSyntheticEvent,
   Platform,
-  Alert
+  Alert,
+  TextInput
 } from 'react-native';
 import { useAuth } from '@/hooks/useAuth';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { useCurrentEntry } from '@/navigation/HomeScreen';
-
-interface JournalEntry {
-  id: string;
-  title: string;
-  content?: string;
-  timestamp: any; // Firestore timestamp
-  userId: string;
-}
+import { CalendarRange, Search, X } from 'lucide-react-native';
+import { CoachingReviewService } from '@/services/coachingReviewService';
+import { JOURNAL_PAGE_SIZE, JournalEntryStore } from '@/services/journalEntryStore';
+import { JournalPage, JournalSyncService } from '@/services/journalSyncService';
+import { JournalSearchService } from '@/services/journalSearchService';
+import { JournalReviewPeriod, JournalSearchHighlight, JournalSearchRange, JournalSearchResult, StoredJournal, StoredJournalEntry } from '@/types/journal';
+
+type JournalEntry = StoredJournalEntry;
+
+const SEARCH_RANGES: Array<{ range: JournalSearchRange; label: string }> = [
+  { range: 'all', label: 'Any time' },
+  { range: 'week', label: 'Past week' },
+  { range: 'month', label: 'Past month' },
+  { range: 'year', label: 'Past year' },
+];
 
 interface GroupedEntries {
   [date: string]: JournalEntry[];
 }
 
+interface DateSection {
+  key: string;
+  data: JournalEntry[];
+}
+
+// Day an entry is listed under (e.g. "Mon Oct 28 2024")
+const dateKeyOf = (entry: JournalEntry) => new Date(entry.timestamp).toDateString();
+
 export default function JournalDrawer(props: DrawerContentComponentProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -44,77 +59,161 @@ export default function JournalDrawer(props: DrawerContentComponentProps) {
   const { firebaseUser, isFirebaseReady } = useAuth();
   const { trackEntryDeleted } = useAnalytics();
 
-  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
   const [groupedEntries, setGroupedEntries] = useState<GroupedEntries>({});
+  const shownEntries = useRef<StoredJournal['entries']>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [isCreatingReview, setIsCreatingReview] = useState(false);
   const [scrollY, setScrollY] = useState(0);
 
-  // Group entries by date
-  const groupEntriesByDate = useCallback((entries: JournalEntry[]) => {
-    const grouped: GroupedEntries = {};
+  // Older pages are read from Firestore only when the list is scrolled to the end
+  const [hasMoreRemote, setHasMoreRemote] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const remoteCursor = useRef<JournalPage['cursor']>(null);
+
+  // Full-text search over the entries stored on the device
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchRange, setSearchRange] = useState<JournalSearchRange>('all');
+  const [searchResults, setSearchResults] = useState<JournalSearchResult[]>([]);
+  const isSearchActive = searchQuery.trim().length > 0;
+
+  // One section per day, newest first
+  const sections = useMemo<DateSection[]>(() => Object.keys(groupedEntries)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
+    .map(dateKey => ({ key: dateKey, data: groupedEntries[dateKey] })), [groupedEntries]);
+  const journalEntries = useMemo(() => sections.flatMap(section => section.data), [sections]);
+
+  // Show the stored entries, regrouping only the days of entries that changed
+  // The store keeps unchanged entries as the same objects, so a reference check finds the changes.
+  const showEntries = useCallback((entries: StoredJournal['entries']) => {
+    const shown = shownEntries.current;
+    const changedIds = new Set([
+      ...Object.keys(entries).filter(id => entries[id] !== shown[id]),
+      ...Object.keys(shown).filter(id => !entries[id])
+    ]);
+    if (changedIds.size === 0) return;
+    shownEntries.current = entries;
+
+    const days = new Set<string>();
+    changedIds.forEach(id => {
+      [shown[id], entries[id]].forEach(entry => entry && days.add(dateKeyOf(entry)));
+    });
 
-    entries.forEach((entry) => {
-      const date = entry.timestamp?.toDate ? entry.timestamp.toDate() : new Date(entry.timestamp);
-      const dateKey = date.toDateString(); // This will group by full date (e.g., "Mon Oct 28 2024")
+    setGroupedEntries(previous => {
+      const grouped = { ...previous };
+      days.forEach(day => {
+        const dayEntries = [
+          ...(previous[day] || []).filter(entry => !changedIds.has(entry.id)),
+          ...[...changedIds].map(id => entries[id]).filter(entry => entry && !entry.deleted && dateKeyOf(entry) === day)
+        ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
 
-      if (!grouped[dateKey]) {
-        grouped[dateKey] = [];
-      }
-      grouped[dateKey].push(entry);
+        if (dayEntries.length > 0) {
+          grouped[day] = dayEntries;
+        } else {
+          delete grouped[day];
+        }
+      });
+      return grouped;
     });
-
-    return grouped;
   }, []);
 
-  // Fetch journal entries from Firestore
-  const fetchJournalEntries = useCallback(async () => {
+  // Show the newest stored page right away, then every stored entry
+  // A device without stored entries (e.g. a new install) reads the newest page from Firestore.
+  const loadJournalEntries = useCallback(async () => {
     if (!firebaseUser) {
       setIsLoading(false);
       return;
     }
 
     try {
-      const entriesQuery = query(
-        collection(db, 'journal_entries'),
-        where('uid', '==', firebaseUser.uid),
-        orderBy('timestamp', 'desc')
-      );
+      const firstPage = await JournalEntryStore.getFirstPage(firebaseUser.uid);
+      if (firstPage.length > 0 && Object.keys(shownEntries.current).length === 0) {
+        showEntries(Object.fromEntries(firstPage.map(entry => [entry.id, entry])));
+        setIsLoading(false);
+      }
 
-      const querySnapshot = await getDocs(entriesQuery);
-      const entriesList: JournalEntry[] = [];
+      const journal = await JournalEntryStore.load(firebaseUser.uid);
+      showEntries(journal.entries);
+      if (Object.keys(journal.entries).length === 0) {
+        const page = await JournalSyncService.pullPage(firebaseUser.uid);
+        remoteCursor.current = page.cursor;
+        setHasMoreRemote(page.hasMore);
+      }
+    } catch (error) {
+      console.error('Error loading journal entries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [firebaseUser, showEntries]);
 
-      querySnapshot.forEach((doc) => {
-        const entryData = doc.data() as Omit<JournalEntry, 'id'>;
-        entriesList.push({
-          id: doc.id,
-          ...entryData
-        });
-      });
+  // Read the page of entries before the oldest one shown
+  const loadOlderEntries = useCallback(async () => {
+    if (!firebaseUser || isLoadingMore || !hasMoreRemote || journalEntries.length === 0) return;
 
-      setJournalEntries(entriesList);
-      setGroupedEntries(groupEntriesByDate(entriesList));
+    setIsLoadingMore(true);
+    try {
+      // Start after the oldest stored entry - the end of the last page read, unless older entries were already stored
+      const oldestStored = journalEntries[journalEntries.length - 1];
+      const cursor = remoteCursor.current?.id === oldestStored.id
+        ? remoteCursor.current
+        : await JournalSyncService.cursorAt(oldestStored.id) ?? remoteCursor.current;
+
+      const page = await JournalSyncService.pullPage(firebaseUser.uid, cursor);
+      remoteCursor.current = page.cursor;
+      setHasMoreRemote(page.hasMore);
     } catch (error) {
-      console.error('Error fetching journal entries:', error);
+      console.error('Error loading older journal entries:', error);
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, [firebaseUser, groupEntriesByDate]);
+  }, [firebaseUser, isLoadingMore, hasMoreRemote, journalEntries]);
 
-  // Initial fetch when Firebase is ready
+  // Refresh the list after every change to the stored entries (saves, syncs, pulls)
   useEffect(() => {
-    if (isFirebaseReady) {
-      fetchJournalEntries();
+    if (!firebaseUser) return;
+    return JournalEntryStore.subscribe(firebaseUser.uid, journal => {
+      showEntries(journal.entries);
+    });
+  }, [firebaseUser, showEntries]);
+
+  // Search as the user types; results refresh when entries change
+  useEffect(() => {
+    if (!firebaseUser || !isSearchActive) {
+      setSearchResults([]);
+      return;
     }
-  }, [fetchJournalEntries, isFirebaseReady]);
 
-  // Refresh entries when drawer opens
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      JournalSearchService.search(firebaseUser.uid, searchQuery, searchRange)
+        .then(results => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch(error => console.error('Error searching journal entries:', error));
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [firebaseUser, searchQuery, searchRange, isSearchActive, journalEntries]);
+
+  // Initial load when Firebase is ready
   useEffect(() => {
-    if (drawerStatus === 'open' && isFirebaseReady && firebaseUser) {
-      // Add haptic feedback when drawer opens
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-      fetchJournalEntries();
+    if (isFirebaseReady) {
+      remoteCursor.current = null;
+      setHasMoreRemote(true);
+      loadJournalEntries();
     }
-  }, [drawerStatus, isFirebaseReady, firebaseUser, fetchJournalEntries]);
+  }, [loadJournalEntries, isFirebaseReady]);
+
+  // Keep the newest page live while the drawer is open
+  useEffect(() => {
+    if (drawerStatus !== 'open' || !isFirebaseReady || !firebaseUser) return;
+
+    // Add haptic feedback when drawer opens
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    return JournalSyncService.watchNewestPage(firebaseUser.uid);
+  }, [drawerStatus, isFirebaseReady, firebaseUser]);
 
 
 
@@ -136,7 +235,7 @@ export default function JournalDrawer(props: DrawerContentComponentProps) {
   const formatEntryTime = (timestamp: any) => {
     if (!timestamp) return '';
 
-    const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
+    const date = new Date(timestamp);
     return date.toLocaleTimeString('en-US', {
       hour: 'numeric',
       minute: '2-digit',
@@ -169,23 +268,20 @@ export default function JournalDrawer(props: DrawerContentComponentProps) {
       // Find the entry to get its details for tracking
       const entryToDelete = journalEntries.find(entry => entry.id === entryId);
       
-      // Delete from Firestore
-      await deleteDoc(doc(db, 'journal_entries', entryId));
+      // Delete on the device; the deletion is synced to Firestore in the background
+      await JournalEntryStore.deleteEntry(firebaseUser.uid, entryId);
+      JournalSyncService.requestSync(firebaseUser.uid);
       
       // Track journal entry deletion
       trackEntryDeleted({
         entry_id: entryId,
         content_length: entryToDelete?.content?.length || 0,
         entry_age_days: entryToDelete?.timestamp ? 
-          Math.floor((new Date().getTime() - new Date(entryToDelete.timestamp.toDate()).getTime()) / (1000 * 60 * 60 * 24)) : 0,
+          Math.floor((new Date().getTime() - new Date(entryToDelete.timestamp).getTime()) / (1000 * 60 * 60 * 24)) : 0,
       });
       
-      // Update local state
+      // The list itself updates through the store subscription
       const updatedEntries = journalEntries.filter(entry => entry.id !== entryId);
-      setJournalEntries(updatedEntries);
-      
-      // Update grouped entries
-      setGroupedEntries(groupEntriesByDate(updatedEntries));
       
       // If this was the current entry, handle navigation
       if (currentEntryId === entryId) {
@@ -206,7 +302,80 @@ export default function JournalDrawer(props: DrawerContentComponentProps) {
       console.error('Error deleting entry:', error);
       Alert.alert('Error', 'Failed to delete entry. Please try again.');
     }
-  }, [firebaseUser, journalEntries, groupEntriesByDate, currentEntryId, props.navigation, trackEntryDeleted]);
+  }, [firebaseUser, journalEntries, currentEntryId, props.navigation, trackEntryDeleted]);
+
+  // Build a review of the last week or month, save it as an entry and open it
+  const createReview = useCallback(async (period: JournalReviewPeriod) => {
+    if (!firebaseUser || isCreatingReview) return;
+
+    setIsCreatingReview(true);
+    try {
+      const review = await CoachingReviewService.createReview(firebaseUser.uid, period);
+      if (review.entryCount === 0) {
+        Alert.alert('Nothing to review yet', `You haven't written any entries in the last ${period}.`);
+        return;
+      }
+
+      const reviewEntry = await CoachingReviewService.saveReviewEntry(firebaseUser.uid, review);
+      JournalSyncService.pull(firebaseUser.uid);
+
+      props.navigation.closeDrawer();
+      (props.navigation as any).navigate('HomeContent', { selectedEntry: reviewEntry });
+    } catch (error) {
+      console.error('Error creating review:', error);
+      Alert.alert('Error', 'Failed to create the review. Please try again.');
+    } finally {
+      setIsCreatingReview(false);
+    }
+  }, [firebaseUser, isCreatingReview, props.navigation]);
+
+  // Choose the review period
+  const handleReviewPress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          options: ['Cancel', 'Weekly review', 'Monthly review'],
+          cancelButtonIndex: 0,
+          title: 'Look back on your journal',
+        },
+        (buttonIndex) => {
+          if (buttonIndex === 1) createReview('week');
+          if (buttonIndex === 2) createReview('month');
+        }
+      );
+    } else {
+      Alert.alert(
+        'Look back on your journal',
+        undefined,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Weekly review', onPress: () => createReview('week') },
+          { text: 'Monthly review', onPress: () => createReview('month') }
+        ]
+      );
+    }
+  }, [createReview]);
+
+  // Snippet text with the matched words marked
+  const renderHighlighted = (snippet: string, highlights: JournalSearchHighlight[]) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    highlights.forEach((highlight, index) => {
+      if (highlight.start > cursor) parts.push(snippet.slice(cursor, highlight.start));
+      parts.push(
+        <Text key={index} style={[styles.searchMatch, { color: colors.text }]}>
+          {snippet.slice(highlight.start, highlight.end)}
+        </Text>
+      );
+      cursor = highlight.end;
+    });
+    if (cursor < snippet.length) parts.push(snippet.slice(cursor));
+
+    return parts;
+  };
 
   // Handle long press on entry
   const handleLongPress = useCallback((entry: JournalEntry) => {
@@ -259,11 +428,6 @@ export default function JournalDrawer(props: DrawerContentComponentProps) {
     );
   }
 
-  // Get sorted date keys (newest first)
-  const sortedDateKeys = Object.keys(groupedEntries).sort((a, b) => {
-    return new Date(b).getTime() - new Date(a).getTime();
-  });
-
   // Calculate border opacity based on scroll position for smooth transition
   const borderOpacity = Math.min((scrollY - 20) / 30, 1); // Gradually fade in over 30 pixels
 
@@ -274,85 +438,185 @@ export default function JournalDrawer(props: DrawerContentComponentProps) {
         <Text style={[styles.headerTitle, { color: colors.text }]}>
           Journal Entries
         </Text>
+        <TouchableOpacity
+          style={styles.reviewButton}
+          onPress={handleReviewPress}
+          disabled={isCreatingReview || !firebaseUser}
+        >
+          {isCreatingReview
+            ? <ActivityIndicator size="small" color={colors.text} style={{ opacity: 0.5 }} />
+            : <CalendarRange size={20} color={colors.text} />}
+          <Text style={[styles.reviewButtonText, { color: colors.text }]}>Review</Text>
+        </TouchableOpacity>
       </View>
 
-      {/* Journal Entries List */}
-      <ScrollView
-        style={[
-          styles.content,
-          {
-            borderTopWidth: 1,
-            borderTopColor: `rgba(150, 150, 150, ${0.1 * borderOpacity})`,
-          }
-        ]}
-        showsVerticalScrollIndicator={false}
-        onScroll={handleScroll}
-        scrollEventThrottle={16}
-      >
-        {/* Loading State */}
-        {isLoading && (
-          <View style={styles.loadingContainer}>
-            <ActivityIndicator size="small" color={colors.text} style={{ opacity: 0.5 }} />
-            <Text style={[styles.loadingText, { color: colors.text }]}>Loading entries...</Text>
-          </View>
-        )}
+      {/* Search */}
+      <View style={styles.searchContainer}>
+        <View style={[styles.searchBar, { backgroundColor: `${colors.text}08` }]}>
+          <Search size={16} color={colors.text} style={{ opacity: 0.4 }} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder='Search entries or "a phrase"'
+            placeholderTextColor={`${colors.text}40`}
+            autoCorrect={false}
+            autoCapitalize="none"
+            returnKeyType="search"
+          />
+          {isSearchActive && (
+            <TouchableOpacity onPress={() => setSearchQuery('')} hitSlop={8}>
+              <X size={16} color={colors.text} style={{ opacity: 0.4 }} />
+            </TouchableOpacity>
+          )}
+        </View>
 
-        {/* No Entries State */}
-        {!isLoading && journalEntries.length === 0 && (
-          <View style={styles.emptyContainer}>
-            <Text style={[styles.emptyText, { color: colors.text }]}>
-              No journal entries yet.
-            </Text>
-            <Text style={[styles.emptyText, { color: colors.text }]}>
-              Start writing your first entry!
-            </Text>
+        {isSearchActive && (
+          <View style={styles.rangeRow}>
+            {SEARCH_RANGES.map(({ range, label }) => (
+              <TouchableOpacity
+                key={range}
+                style={[styles.rangeChip, { borderColor: `${colors.text}20` }, searchRange === range && { backgroundColor: colors.text }]}
+                onPress={() => setSearchRange(range)}
+              >
+                <Text style={[styles.rangeChipText, { color: searchRange === range ? colors.background : colors.text }]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
         )}
+      </View>
 
-        {/* Grouped Journal Entries */}
-        {!isLoading && sortedDateKeys.map((dateKey) => (
-          <View key={dateKey} style={styles.dateGroup}>
-            {/* Date Header */}
+      {/* Search Results */}
+      {isSearchActive && (
+        <FlatList
+          style={[
+            styles.content,
+            {
+              borderTopWidth: 1,
+              borderTopColor: `rgba(150, 150, 150, ${0.1 * borderOpacity})`,
+            }
+          ]}
+          data={searchResults}
+          keyExtractor={(result) => result.entryId}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          onScroll={handleScroll}
+          scrollEventThrottle={16}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: colors.text }]}>
+                No entries match.
+              </Text>
+            </View>
+          }
+          renderItem={({ item: result }) => {
+            const entry = journalEntries.find(candidate => candidate.id === result.entryId);
+            if (!entry) return null;
+
+            return (
+              <TouchableOpacity
+                style={styles.searchResult}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  props.navigation.closeDrawer();
+                  (props.navigation as any).navigate('HomeContent', { selectedEntry: entry });
+                }}
+              >
+                <Text style={[styles.searchResultDate, { color: colors.text }]}>
+                  {formatDateHeader(entry.timestamp)} · {formatEntryTime(entry.timestamp)}
+                </Text>
+                <Text style={[styles.searchSnippet, { color: colors.text }]} numberOfLines={3}>
+                  {renderHighlighted(result.snippet, result.highlights)}
+                </Text>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+
+      {/* Journal Entries List, grouped by date */}
+      {!isSearchActive && (
+        <SectionList
+          style={[
+            styles.content,
+            {
+              borderTopWidth: 1,
+              borderTopColor: `rgba(150, 150, 150, ${0.1 * borderOpacity})`,
+            }
+          ]}
+          sections={isLoading ? [] : sections}
+          keyExtractor={(entry) => entry.id}
+          stickySectionHeadersEnabled={false}
+          showsVerticalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={16}
+          initialNumToRender={JOURNAL_PAGE_SIZE}
+          onEndReached={loadOlderEntries}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="small" color={colors.text} style={{ opacity: 0.5 }} />
+              <Text style={[styles.loadingText, { color: colors.text }]}>Loading entries...</Text>
+            </View>
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: colors.text }]}>
+                No journal entries yet.
+              </Text>
+              <Text style={[styles.emptyText, { color: colors.text }]}>
+                Start writing your first entry!
+              </Text>
+            </View>
+          )}
+          ListFooterComponent={isLoadingMore ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="small" color={colors.text} style={{ opacity: 0.5 }} />
+            </View>
+          ) : null}
+          renderSectionHeader={({ section }) => (
             <View style={styles.dateHeader}>
               <View style={styles.dateHeaderLine} />
               <Text style={[styles.dateHeaderText, { color: colors.text }]}>
-                {formatDateHeader(dateKey)}
+                {formatDateHeader(section.key)}
               </Text>
             </View>
-
-            {/* Entries for this date */}
-            {groupedEntries[dateKey].map((entry) => {
-              const isCurrentEntry = currentEntryId === entry.id;
-
-              return (
-                <TouchableOpacity
-                  key={entry.id}
-                  style={[styles.entryItem]}
-                  onPress={() => {
-                    // Haptic feedback for entry selection
-                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-
-                    // Close the drawer first
-                    props.navigation.closeDrawer();
-
-                    // Navigate to HomeContent with the selected entry data
-                    (props.navigation as any).navigate('HomeContent', { selectedEntry: entry });
-                  }}
-                  onLongPress={() => handleLongPress(entry)}
+          )}
+          renderSectionFooter={() => <View style={styles.dateGroupSpacer} />}
+          renderItem={({ item: entry }) => {
+            const isCurrentEntry = currentEntryId === entry.id;
+
+            return (
+              <TouchableOpacity
+                style={[styles.entryItem]}
+                onPress={() => {
+                  // Haptic feedback for entry selection
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+                  // Close the drawer first
+                  props.navigation.closeDrawer();
+
+                  // Navigate to HomeContent with the selected entry data
+                  (props.navigation as any).navigate('HomeContent', { selectedEntry: entry });
+                }}
+                onLongPress={() => handleLongPress(entry)}
+              >
+                <View style={[styles.entryLine, { backgroundColor: isCurrentEntry ? colors.tint : '#525252' }]} />
+                {entry.reviewRange && (
+                  <CalendarRange size={14} color={colors.text} style={{ opacity: 0.7 }} />
+                )}
+                <Text
+                  style={[styles.entryPreview, { color: colors.text, opacity: isCurrentEntry ? 1 : 0.7 }]}
+                  numberOfLines={1}
                 >
-                  <View style={[styles.entryLine, { backgroundColor: isCurrentEntry ? colors.tint : '#525252' }]} />
-                  <Text
-                    style={[styles.entryPreview, { color: colors.text, opacity: isCurrentEntry ? 1 : 0.7 }]}
-                    numberOfLines={1}
-                  >
-                    {extractPreview(entry.content || '')}
-                  </Text>
-                </TouchableOpacity>
-              )
-            })}
-          </View>
-        ))}
-      </ScrollView>
+                  {entry.reviewRange ? getEntryTitle(entry) : extractPreview(entry.content || '')}
+                </Text>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
     </View>
   );
 }
@@ -376,14 +640,76 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  reviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 4,
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    gap: 10,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: Platform.OS === 'ios' ? 10 : 4,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  rangeChip: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  rangeChipText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  searchResult: {
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    gap: 4,
+  },
+  searchResultDate: {
+    fontSize: 12,
+    fontWeight: '500',
+    opacity: 0.5,
+  },
+  searchSnippet: {
+    fontSize: 15,
+    lineHeight: 21,
+    opacity: 0.8,
+  },
+  searchMatch: {
+    fontWeight: '700',
+    backgroundColor: 'rgba(251, 44, 54, 0.15)',
+  },
+  reviewButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    opacity: 0.7,
+  },
   content: {
     borderRadius: 20,
     flex: 1,
     paddingTop: 30,
     paddingHorizontal: 20,
   },
-  dateGroup: {
-    marginBottom: 20,
+  dateGroupSpacer: {
+    height: 20,
   },
   dateHeader: {
     flexDirection: 'row',
@@ -0,0 +1,70 @@
+import { Colors } from '@/constants/Colors';
+import { WifiOff } from 'lucide-react-native';
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  useColorScheme,
+  View
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+interface OfflineBannerProps {
+  visible: boolean;
+}
+
+/**
+ * Small notice shown while the device is offline
+ * The app stays usable: entries are saved on the device and synced once back online.
+ */
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({
+  visible,
+}) => {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+
+  if (!visible) return null;
+
+  return (
+    <View style={[styles.container, { top: insets.top + 8 }]} pointerEvents="none">
+      <View style={[styles.banner, { backgroundColor: colors.text }]}>
+        <WifiOff size={14} color={colors.background} strokeWidth={2} />
+        <Text style={[styles.text, { color: colors.background }]}>
+          Offline - your entries are saved on this device
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    opacity: 0.9,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
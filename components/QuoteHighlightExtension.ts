@@ -0,0 +1,103 @@
+import { Extension } from '@tiptap/core';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { SourceReferences } from '@/lib/coaching/sourceReferences';
+import { insightSourceSpan } from '@/types/insights';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    quoteHighlight: {
+      highlightQuote: (quote: string, span?: insightSourceSpan) => ReturnType;
+      clearQuoteHighlight: () => ReturnType;
+    };
+  }
+}
+
+const quoteHighlightKey = new PluginKey<DecorationSet>('quoteHighlight');
+
+/**
+ * Plain text of a document (blocks separated by line breaks, like htmlToPlainText)
+ * and the document position of each character
+ */
+const indexText = (doc: ProseMirrorNode) => {
+  let text = '';
+  const positions: number[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.isText && node.text) {
+      for (let i = 0; i < node.text.length; i++) {
+        text += node.text[i];
+        positions.push(pos + i);
+      }
+    } else if (node.isBlock && text.length > 0 && !text.endsWith('\n')) {
+      text += '\n';
+      positions.push(pos);
+    }
+    return true;
+  });
+
+  return { text, positions };
+};
+
+/**
+ * Marks an insight source quote in the entry without changing its content
+ * The highlight is a decoration, so it isn't saved and disappears on the next edit
+ */
+export const QuoteHighlightExtension = Extension.create({
+  name: 'quoteHighlight',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: quoteHighlightKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, decorations) => {
+            const meta = tr.getMeta(quoteHighlightKey);
+            if (meta !== undefined) return meta;
+            // Typing clears the highlight
+            return tr.docChanged ? DecorationSet.empty : decorations.map(tr.mapping, tr.doc);
+          },
+        },
+        props: {
+          decorations: state => quoteHighlightKey.getState(state),
+        },
+      }),
+    ];
+  },
+
+  addCommands() {
+    return {
+      highlightQuote: (quote, span) => ({ tr, dispatch, view }) => {
+        const { text, positions } = indexText(tr.doc);
+        const found = SourceReferences.locate(text, quote, span);
+        if (!found) return false;
+
+        const from = positions[found.start];
+        const to = positions[found.end - 1] + 1;
+
+        if (dispatch) {
+          tr.setMeta(quoteHighlightKey, DecorationSet.create(tr.doc, [
+            Decoration.inline(from, to, { class: 'quote-highlight' }),
+          ]));
+
+          // Scroll once the decoration is rendered
+          setTimeout(() => {
+            const { node } = view.domAtPos(from);
+            const element = node instanceof HTMLElement ? node : node.parentElement;
+            element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          }, 50);
+        }
+        return true;
+      },
+
+      clearQuoteHighlight: () => ({ tr, dispatch }) => {
+        if (dispatch) {
+          tr.setMeta(quoteHighlightKey, DecorationSet.empty);
+        }
+        return true;
+      },
+    };
+  },
+});
@@ -6,6 +6,7 @@ import {
   Animated,
   Dimensions,
   ScrollView,
+  TouchableOpacity,
 } from 'react-native';
 import { BlurView } from 'expo-blur';
 import { useColorScheme } from 'react-native';
@@ -66,6 +67,7 @@ interface SourcesModalProps {
   sources: InsightSource[];
   overlayOpacity?: Animated.Value;
   isProcessing?: boolean;
+  onSourcePress?: (source: InsightSource) => void; // open the entry or session a quote came from
 }
 
 export default function SourcesModal({
@@ -74,7 +76,8 @@ export default function SourcesModal({
   title,
   sources,
   overlayOpacity,
-  isProcessing = false
+  isProcessing = false,
+  onSourcePress
 }: SourcesModalProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -158,8 +161,11 @@ export default function SourcesModal({
             </View>
           ) : (
             sources.map((source, index) => (
-              <View
+              <TouchableOpacity
                 key={index}
+                activeOpacity={0.7}
+                disabled={!onSourcePress || !source.reference}
+                onPress={() => onSourcePress?.(source)}
                 style={[
                   styles.sourceItem,
                   {
@@ -175,7 +181,12 @@ export default function SourcesModal({
                 <Text style={[styles.date, { color: `${colors.text}60` }]}>
                   Extracted on {formatDate(source.extractedAt)}
                 </Text>
-              </View>
+                {onSourcePress && source.reference && (
+                  <Text style={[styles.openLink, { color: `${colors.text}80` }]}>
+                    {source.reference.kind === 'journalEntry' ? 'Open journal entry ›' : 'Open coaching session ›'}
+                  </Text>
+                )}
+              </TouchableOpacity>
             ))
           )}
         </ScrollView>
@@ -273,6 +284,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  openLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
   footer: {
     paddingTop: 20,
     paddingBottom: 10,
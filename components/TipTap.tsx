@@ -11,8 +11,11 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { Linking, useColorScheme, Modal, View, StyleSheet, Alert } from "react-native";
 import Highlight from "@tiptap/extension-highlight";
 import { CoachingBlockExtension } from "./CoachingBlockExtension";
+import { QuoteHighlightExtension } from "./QuoteHighlightExtension";
 import AIChatInterface from "./AIChatInterface";
 import { AIMode, CoachingInteractionRequest } from "@/types/coaching";
+import { CoachingStreamClient } from "@/lib/coaching/streamingClient";
+import { insightSourceSpan } from "@/types/insights";
 
 interface EditorProps {
   content: string;
@@ -20,9 +23,10 @@ interface EditorProps {
   isLoaded: (content: boolean) => void;
   getAuthToken?: () => Promise<string | null>;
   apiBaseUrl?: string;
+  highlight?: { quote: string; span?: insightSourceSpan } | null; // insight source to scroll to and mark
 }
 
-export default function Editor({ content, onUpdate, isLoaded, getAuthToken, apiBaseUrl }: EditorProps) {
+export default function Editor({ content, onUpdate, isLoaded, getAuthToken, apiBaseUrl, highlight }: EditorProps) {
   const colorScheme = useColorScheme();
   const editorRef = useRef<HTMLDivElement>(null);
   const [showAIChat, setShowAIChat] = useState(false);
@@ -46,6 +50,7 @@ export default function Editor({ content, onUpdate, isLoaded, getAuthToken, apiB
           class: 'coaching-block',
         },
       }),
+      QuoteHighlightExtension,
     ],
     content: content,
     editorProps: {
@@ -138,21 +143,15 @@ export default function Editor({ content, onUpdate, isLoaded, getAuthToken, apiB
         throw new Error('Authentication not available - AI coaching is disabled');
       }
       
-      const token = await getAuthToken();
-      if (!token) {
-        throw new Error('Authentication token not available');
-      }
-
       // Call the real API endpoint
       if (!apiBaseUrl) {
         throw new Error('API base URL not available - coaching is disabled');
       }
-      
+
       const apiUrl = `${apiBaseUrl}api/coaching/chat`;
       console.log('🔗 Calling API:', { 
         apiUrl,
         apiBaseUrl,
-        hasToken: !!token,
         contentLength: currentContent.length 
       });
 
@@ -165,88 +164,43 @@ export default function Editor({ content, onUpdate, isLoaded, getAuthToken, apiB
 
       console.log('📤 Request body:', requestBody);
 
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(requestBody),
-      });
+      // Stream the reply - temporary sessions are not saved, so there is nothing to resume
+      const streamClient = new CoachingStreamClient({ apiUrl: apiBaseUrl, getToken: getAuthToken });
+      const { content: streamedContent } = await streamClient.chat(requestBody, { resumeAttempts: 0 });
 
-      console.log('📥 Response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        throw new Error(`API Error: ${response.status} - ${errorText}`);
-      }
-
-      if (!response.body) {
-        throw new Error('No response body');
-      }
+      // Parse the XML response to extract coaching block data
+      const coachingData = parseCoachingResponse(streamedContent);
+      
+      // Find and replace the loading coaching block
+      const { state } = editor;
+      const { doc } = state;
+      
+      let coachingBlockPos = -1;
+      doc.descendants((node, pos) => {
+        if (node.type.name === 'coachingBlock' && 
+            node.attrs.data?.content === "Generating coaching prompt...") {
+          coachingBlockPos = pos;
+          return false; // Stop iteration
+        }
+      });
 
-      // Handle streaming response
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let streamedContent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.substring(6));
-              if (data.type === 'content' && data.content) {
-                streamedContent += data.content;
-              } else if (data.type === 'done') {
-                // Parse the XML response to extract coaching block data
-                const coachingData = parseCoachingResponse(streamedContent);
-                
-                // Find and replace the loading coaching block
-                const { state } = editor;
-                const { doc } = state;
-                
-                let coachingBlockPos = -1;
-                doc.descendants((node, pos) => {
-                  if (node.type.name === 'coachingBlock' && 
-                      node.attrs.data?.content === "Generating coaching prompt...") {
-                    coachingBlockPos = pos;
-                    return false; // Stop iteration
-                  }
-                });
-
-                if (coachingBlockPos !== -1) {
-                  const newCoachingBlock = state.schema.nodes.coachingBlock.create({ 
-                    data: { 
-                      content: coachingData.content,
-                      variant: coachingData.variant,
-                      options: coachingData.options,
-                      thinking: coachingData.thinking
-                    }
-                  });
-                  
-                  const tr = state.tr.replaceWith(
-                    coachingBlockPos, 
-                    coachingBlockPos + 1, 
-                    newCoachingBlock
-                  );
-                  
-                  editor.view.dispatch(tr);
-                }
-                return; // Exit the function
-              } else if (data.type === 'error') {
-                throw new Error(data.error || 'Stream error');
-              }
-            } catch (parseError) {
-              // Ignore invalid JSON lines
-            }
+      if (coachingBlockPos !== -1) {
+        const newCoachingBlock = state.schema.nodes.coachingBlock.create({ 
+          data: { 
+            content: coachingData.content,
+            variant: coachingData.variant,
+            options: coachingData.options,
+            thinking: coachingData.thinking
           }
-        }
+        });
+        
+        const tr = state.tr.replaceWith(
+          coachingBlockPos, 
+          coachingBlockPos + 1, 
+          newCoachingBlock
+        );
+        
+        editor.view.dispatch(tr);
       }
 
     } catch (error) {
@@ -378,6 +332,29 @@ export default function Editor({ content, onUpdate, isLoaded, getAuthToken, apiB
     }
   }, [editor, content]);
 
+  // Mark the insight source quote once its entry is loaded - once per highlight, not on every edit
+  // Props cross the DOM boundary as copies, so the highlight is compared by value
+  const appliedHighlightRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!editor) return;
+
+    if (!highlight?.quote) {
+      if (appliedHighlightRef.current) {
+        appliedHighlightRef.current = null;
+        editor.commands.clearQuoteHighlight();
+      }
+      return;
+    }
+
+    const highlightKey = JSON.stringify([highlight.quote, highlight.span?.start, highlight.span?.end]);
+    if (!content || appliedHighlightRef.current === highlightKey) return;
+
+    appliedHighlightRef.current = highlightKey;
+    if (!editor.commands.highlightQuote(highlight.quote, highlight.span)) {
+      console.log('🔍 Quote not found in entry:', highlight.quote);
+    }
+  }, [editor, content, highlight?.quote, highlight?.span?.start, highlight?.span?.end]);
+
   // Signal that editor is loaded
   useEffect(() => {
     if (editor) {
@@ -1,6 +1,22 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useAnalytics } from '@/hooks/useAnalytics';
+import { CoachingCardProtocol } from '@/lib/coaching/cardProtocol';
+import { CoachingStreamClient, CoachingStreamError } from '@/lib/coaching/streamingClient';
+import { useNetworkConnectivity } from '@/hooks/useNetworkConnectivity';
+import { CoachingSessionStore } from '@/services/coachingSessionStore';
+import { CoachingBranchGroup, CoachingProgressEstimate, CoachingSessionType, StoredCoachingMessage, StoredCoachingSession } from '@/types/coaching';
+import { CoachingProgressEstimator } from '@/lib/coaching/progressEstimator';
+import { SessionProgramRegistry } from '@/lib/coaching/sessionPrograms';
+import { SessionTimeBox } from '@/lib/coaching/sessionTimeBox';
+
+// Messages are written to the device at most this often while a reply streams in
+const PERSIST_DEBOUNCE_MS = 500;
+// Branches are stored with the server session once the conversation has settled
+const SERVER_BRANCHES_DEBOUNCE_MS = 2000;
+
+// Branch key for edits of the very first message of a session
+export const COACHING_ROOT_BRANCH = 'root';
 
 // Match the interface from the web app
 export interface CoachingMessage {
@@ -9,28 +25,111 @@ export interface CoachingMessage {
   content: string;
   timestamp: Date;
   isError?: boolean;
+  isQueued?: boolean; // typed while offline, sent once connectivity returns
   originalUserMessage?: string;
+  // Reasoning behind an assistant reply, from the streamed thinking/metadata events
+  thinking?: string;
+  model?: string;
+  metadata?: Record<string, unknown>;
 }
 
+type SendMessageOptions = {
+  sessionType?: CoachingSessionType;
+  sessionDuration?: number; // minutes
+  // Time box state, so the coach can pace the conversation and wrap up in time
+  timeRemainingMinutes?: number;
+  wrapUp?: boolean;
+};
+
+// Position of a message among the alternate branches it starts
+export type CoachingBranchInfo = {
+  branchKey: string;
+  index: number;
+  count: number;
+};
+
 interface UseAICoachingReturn {
   messages: CoachingMessage[];
   isLoading: boolean;
   error: string | null;
   progress: number; // 0-100
-  sendMessage: (content: string, sessionId: string, options?: { sessionType?: string; sessionDuration?: number }) => Promise<void>;
-  resendMessage: (messageId: string, sessionId: string, options?: { sessionType?: string; sessionDuration?: number }) => Promise<void>;
+  progressSource: 'server' | 'local';
+  // Latest local estimate, also computed when the server answered so both can be compared
+  progressEstimate: CoachingProgressEstimate | null;
+  isOffline: boolean;
+  sendMessage: (content: string, sessionId: string, options?: SendMessageOptions) => Promise<void>;
+  resendMessage: (messageId: string, sessionId: string, options?: SendMessageOptions) => Promise<void>;
+  editMessage: (messageId: string, content: string, sessionId: string, options?: SendMessageOptions) => Promise<void>;
+  getBranchInfo: (messageId: string) => CoachingBranchInfo | null;
+  switchBranch: (branchKey: string, index: number) => void;
+  restoreSession: (sessionId: string) => Promise<StoredCoachingSession | null>;
+  // Show the server copy of a session together with its branches
+  applyServerSession: (messages: CoachingMessage[], branches?: Record<string, CoachingBranchGroup>) => void;
   clearMessages: () => void;
   setMessages: (messages: CoachingMessage[]) => void;
 }
 
+const toStoredMessage = ({ timestamp, ...message }: CoachingMessage): StoredCoachingMessage => ({
+  ...message,
+  timestamp: timestamp.toISOString()
+});
+
+const fromStoredMessage = ({ timestamp, ...message }: StoredCoachingMessage): CoachingMessage => ({
+  ...message,
+  timestamp: new Date(timestamp)
+});
+
+const toStoredBranches = (branches: Record<string, CoachingBranchGroup<CoachingMessage>>): Record<string, CoachingBranchGroup> =>
+  Object.fromEntries(Object.entries(branches).map(([branchKey, group]) => [branchKey, {
+    activeIndex: group.activeIndex,
+    variants: group.variants.map(variant => variant.map(toStoredMessage))
+  }]));
+
+const fromStoredBranches = (branches: Record<string, CoachingBranchGroup>): Record<string, CoachingBranchGroup<CoachingMessage>> =>
+  Object.fromEntries(Object.entries(branches).map(([branchKey, group]) => [branchKey, {
+    activeIndex: group.activeIndex,
+    variants: group.variants.map(variant => variant.map(fromStoredMessage))
+  }]));
+
+// Index where the branches following `branchKey` start in the active path, or -1 if it's not on it
+const branchStart = (messages: CoachingMessage[], branchKey: string): number => {
+  if (branchKey === COACHING_ROOT_BRANCH) return 0;
+  const index = messages.findIndex(msg => msg.id === branchKey);
+  return index === -1 ? -1 : index + 1;
+};
+
+// Insert a message right after another one (or at the end if it's gone)
+const insertAfter = (messages: CoachingMessage[], afterId: string, message: CoachingMessage): CoachingMessage[] => {
+  const index = messages.findIndex(msg => msg.id === afterId);
+  if (index === -1) return [...messages, message];
+  return [...messages.slice(0, index + 1), message, ...messages.slice(index + 1)];
+};
+
 export function useAICoaching(): UseAICoachingReturn {
   const [messages, setMessages] = useState<CoachingMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(7);
+  const [progressSource, setProgressSource] = useState<'server' | 'local'>('server');
+  const [progressEstimate, setProgressEstimate] = useState<CoachingProgressEstimate | null>(null);
   const { getToken } = useAuth();
   const { trackCoachingCompletion } = useAnalytics();
   const abortControllerRef = useRef<AbortController | null>(null);
+  const streamClient = useMemo(() => new CoachingStreamClient({ getToken }), [getToken]);
+  const networkState = useNetworkConnectivity();
+  const isOffline = networkState.isConnected === false || networkState.isInternetReachable === false;
+  const isOfflineRef = useRef(isOffline);
+  isOfflineRef.current = isOffline;
+  const messagesRef = useRef<CoachingMessage[]>(messages);
+  messagesRef.current = messages;
+  // Session whose messages are persisted on the device
+  const activeSessionIdRef = useRef<string | null>(null);
+  const replayingRef = useRef(false);
+  const [branches, setBranches] = useState<Record<string, CoachingBranchGroup<CoachingMessage>>>({});
+  const branchesRef = useRef(branches);
+  branchesRef.current = branches;
+  // Last messages and branches the server session is known to have, to skip unchanged saves
+  const serverBranchesRef = useRef<string | null>(null);
 
   // Typewriter effect function for React Native
   const simulateTypewriter = async (content: string, messageId: string) => {
@@ -54,9 +153,26 @@ export function useAICoaching(): UseAICoachingReturn {
 
   // Progress evaluation function
   const evaluateProgress = async (sessionId: string, conversationHistory: CoachingMessage[]) => {
+    const estimate = CoachingProgressEstimator.estimate(conversationHistory, progress);
+    setProgressEstimate(estimate);
+
+    const applyLocalEstimate = (reason: string) => {
+      console.log(`📊 Using local progress estimate (${reason}): ${estimate.progress}%`, estimate.breakdown);
+      setProgress(estimate.progress);
+      setProgressSource('local');
+    };
+
+    if (isOfflineRef.current) {
+      applyLocalEstimate('offline');
+      return;
+    }
+
     try {
       const token = await getToken();
-      if (!token) return;
+      if (!token) {
+        applyLocalEstimate('no auth token');
+        return;
+      }
 
       const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}api/coaching/progress`, {
         method: 'POST',
@@ -71,25 +187,28 @@ export function useAICoaching(): UseAICoachingReturn {
         }),
       });
 
-      if (response.ok) {
-        const result = await response.json();
-        if (result.success && typeof result.progress === 'number') {
-          setProgress(result.progress);
-        }
+      if (!response.ok) {
+        applyLocalEstimate(`HTTP ${response.status}`);
+        return;
+      }
+
+      const result = await response.json();
+      if (result.success && typeof result.progress === 'number') {
+        console.log(`📊 Progress - server: ${result.progress}%, local estimate: ${estimate.progress}%`);
+        setProgress(result.progress);
+        setProgressSource('server');
+      } else {
+        applyLocalEstimate('invalid response');
       }
     } catch (error) {
       console.error('Error evaluating progress:', error);
-      // Fallback: increment progress slightly
-      setProgress(prev => Math.min(prev + 5, 95));
+      applyLocalEstimate('request failed');
     }
   };
 
-  const sendMessage = useCallback(async (content: string, sessionId: string, options?: { sessionType?: string; sessionDuration?: number }) => {
-    if (!content.trim()) return;
-    if (!sessionId || !sessionId.trim()) {
-      throw new Error('Session ID is required for coaching messages');
-    }
-
+  // Request the reply to a user message that is already in the chat
+  // Resolves to whether the reply arrived in full (false when it failed or was aborted)
+  const requestReply = useCallback(async (userMessage: CoachingMessage, history: CoachingMessage[], sessionId: string, options?: SendMessageOptions): Promise<boolean> => {
     // Cancel any ongoing request
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -98,167 +217,115 @@ export function useAICoaching(): UseAICoachingReturn {
     // Create new abort controller for this request
     abortControllerRef.current = new AbortController();
 
-    const userMessage: CoachingMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: content.trim(),
+    setIsLoading(true);
+    setError(null);
+
+    // Create AI message placeholder for streaming
+    const aiMessageId = (Date.now() + 1).toString();
+    const aiMessage: CoachingMessage = {
+      id: aiMessageId,
+      role: 'assistant',
+      content: '',
       timestamp: new Date()
     };
+    let placeholderAdded = false;
 
-    // Add user message immediately
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
-    setError(null);
+    // The session program decides the model, the default length and the cards expected at the end
+    const program = SessionProgramRegistry.resolve(options?.sessionType);
 
     try {
-      // Get Clerk token for authentication
-      const token = await getToken();
-      if (!token) {
-        throw new Error('Authentication token not available');
-      }
 
-      // Call the web app API endpoint
-      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}api/coaching/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          message: content.trim(),
-          sessionId: sessionId,
-          sessionType: options?.sessionType || 'default-session',
-          sessionDuration: options?.sessionDuration,
-          conversationHistory: messages // Include conversation history for context
-        }),
+      const result = await streamClient.chat({
+        message: userMessage.content,
+        sessionId: sessionId,
+        sessionType: program.id,
+        sessionDuration: options?.sessionDuration ?? program.durationMinutes,
+        modelId: program.modelId,
+        goalCards: program.goalCards,
+        sessionTime: SessionTimeBox.toRequest({ timeRemainingMinutes: options?.timeRemainingMinutes, wrapUp: options?.wrapUp }),
+        conversationHistory: history // Include conversation history for context
+      }, {
         signal: abortControllerRef.current.signal,
+        onEvent: (event, streaming) => {
+          if (!placeholderAdded) {
+            // Add AI message placeholder once the reply starts
+            placeholderAdded = true;
+            setMessages(prev => insertAfter(prev, userMessage.id, aiMessage));
+            setIsLoading(false);
+          }
+
+          // Update the AI message content incrementally (UI will clean for display)
+          if (streaming && event.type === 'content') {
+            setMessages(prev => prev.map(msg => 
+              msg.id === aiMessageId 
+                ? { ...msg, content: msg.content + event.content }
+                : msg
+            ));
+          }
+
+          // Keep the reasoning trace, model and metadata with the message
+          if (event.type === 'thinking' || event.type === 'metadata' || event.model) {
+            setMessages(prev => prev.map(msg => 
+              msg.id === aiMessageId 
+                ? {
+                    ...msg,
+                    ...(event.thinking && { thinking: (msg.thinking || '') + event.thinking }),
+                    ...(event.metadata && { metadata: { ...msg.metadata, ...event.metadata } }),
+                    ...(event.model && { model: event.model })
+                  }
+                : msg
+            ));
+          }
+        }
       });
 
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        console.error('❌ API Error Response:', errorText);
-        throw new Error(`API Error: ${response.status} - ${errorText}`);
+      if (!placeholderAdded) {
+        setMessages(prev => insertAfter(prev, userMessage.id, aiMessage));
+        setIsLoading(false);
       }
 
-      // Create AI message placeholder for streaming
-      const aiMessageId = (Date.now() + 1).toString();
-      const aiMessage: CoachingMessage = {
-        id: aiMessageId,
-        role: 'assistant',
-        content: '',
-        timestamp: new Date()
-      };
+      const fullContent = result.content;
 
-      // Add AI message placeholder
-      setMessages(prev => [...prev, aiMessage]);
-      setIsLoading(false);
+      // Check for finish tokens
+      const hasFinishToken = CoachingCardProtocol.hasFinishToken(fullContent);
+      
+      if (hasFinishToken) {
+        console.log('🎯 Finish token detected! Setting progress to 100%');
+        setProgress(100);
+      }
 
-      // React Native streaming implementation
-      if (!response.body) {
-        const fullResponse = await response.text();
-        
-        // Parse the server-sent events format manually
-        const lines = fullResponse.split('\n');
-        let fullContent = '';
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              if (data.type === 'content') {
-                fullContent += data.content;
-              }
-            } catch (parseError) {
-              console.error('Error parsing line:', line, parseError);
-            }
-          }
-        }
-        
-        // Check for finish tokens
-        const hasFinishToken = fullContent.includes('[finish-start]') || fullContent.includes('[finish-end]');
-        
-        if (hasFinishToken) {
-          console.log('🎯 Finish token detected! Setting progress to 100%');
-          setProgress(100);
-        }
-        
-        // Show only clean content during typewriter effect (remove finish tokens)
-        const finishStartIndex = fullContent.indexOf('[finish-start]');
-        const displayContent = finishStartIndex === -1 ? fullContent : fullContent.slice(0, finishStartIndex).trim();
+      // React Native delivers the reply at once - reveal it with a typewriter effect
+      if (!result.streamed || result.resumed) {
+        // Show only clean content during typewriter effect (remove finish block and cards)
+        const displayContent = CoachingCardProtocol.getDisplayContent(fullContent);
         await simulateTypewriter(displayContent, aiMessageId);
-        
-        // After typewriter is done, update with full content for parsing
-        setMessages(prev => prev.map(msg => 
-          msg.id === aiMessageId 
-            ? { ...msg, content: fullContent }
-            : msg
-        ));
-        
-        // Evaluate progress after response is complete (unless finish token detected)
-        if (!hasFinishToken) {
-          const updatedMessages = [...messages, userMessage, { ...aiMessage, content: fullContent }];
-          await evaluateProgress(sessionId, updatedMessages);
-        }
-        
-        return;
       }
-
-      // Browser streaming (if ReadableStream is available)
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.type === 'content') {
-                fullContent += data.content;
-                // Update the AI message content incrementally (UI will clean for display)
-                setMessages(prev => prev.map(msg => 
-                  msg.id === aiMessageId 
-                    ? { ...msg, content: fullContent }
-                    : msg
-                ));
-              } else if (data.type === 'done') {
-                // Check for finish tokens
-                const hasFinishToken = fullContent.includes('[finish-start]') || fullContent.includes('[finish-end]');
-                
-                if (hasFinishToken) {
-                  console.log('🎯 Finish token detected! Setting progress to 100%');
-                  setProgress(100);
-                } else {
-                  // Evaluate progress after response is complete
-                  const updatedMessages = [...messages, userMessage, { ...aiMessage, content: fullContent }];
-                  await evaluateProgress(sessionId, updatedMessages);
-                }
-                break;
-              } else if (data.type === 'error') {
-                console.error('Streaming error:', data.error);
-                throw new Error(data.error || 'Streaming error occurred');
-              }
-            } catch (parseError) {
-              console.error('Error parsing streaming data:', parseError);
-              // Continue processing other lines
+      
+      // Update with full content for parsing
+      setMessages(prev => prev.map(msg => 
+        msg.id === aiMessageId 
+          ? {
+              ...msg,
+              content: fullContent,
+              ...(result.thinking && { thinking: result.thinking }),
+              ...(result.model && { model: result.model }),
+              ...(Object.keys(result.metadata).length > 0 && { metadata: result.metadata })
             }
-          }
-        }
+          : msg
+      ));
+      
+      // Evaluate progress after response is complete (unless finish token detected)
+      if (!hasFinishToken) {
+        const updatedMessages = [...history, userMessage, { ...aiMessage, content: fullContent }];
+        await evaluateProgress(sessionId, updatedMessages);
       }
+      return true;
     } catch (err) {
       console.error('AI coaching error:', err);
       
       // Don't show error if request was aborted
-      if (err instanceof Error && err.name === 'AbortError') {
-        return;
+      if (err instanceof CoachingStreamError && err.code === 'aborted') {
+        return false;
       }
 
       const errorMessage = err instanceof Error ? err.message : 'Failed to get AI response';
@@ -271,17 +338,180 @@ export function useAICoaching(): UseAICoachingReturn {
         content: `Sorry, I encountered an error: ${errorMessage}.\nPlease try again.`,
         timestamp: new Date(),
         isError: true,
-        originalUserMessage: content.trim()
+        originalUserMessage: userMessage.content
       };
 
-      setMessages(prev => [...prev, errorChatMessage]);
+      setMessages(prev => insertAfter(prev, placeholderAdded ? aiMessageId : userMessage.id, errorChatMessage));
+      return false;
     } finally {
       setIsLoading(false);
       abortControllerRef.current = null;
     }
-  }, [messages, getToken, progress]);
+  }, [getToken, progress, streamClient]);
 
-  const resendMessage = useCallback(async (messageId: string, sessionId: string, options?: { sessionType?: string; sessionDuration?: number }) => {
+  // Send the messages queued while offline, oldest first
+  // A message leaves the outbox only once its reply has arrived; messages queued during the replay are sent too.
+  const replayQueuedMessages = useCallback(async (sessionId: string) => {
+    if (replayingRef.current) return;
+    replayingRef.current = true;
+
+    try {
+      const outbox = await CoachingSessionStore.getOutbox(sessionId);
+      if (outbox.length > 0) {
+        console.log(`📶 Back online - replaying ${outbox.length} queued coaching messages`);
+      }
+
+      while (!isOfflineRef.current && activeSessionIdRef.current === sessionId) {
+        const [queued] = await CoachingSessionStore.getOutbox(sessionId);
+        if (!queued) break;
+
+        const current = messagesRef.current;
+        const index = current.findIndex(msg => msg.id === queued.messageId);
+        const userMessage: CoachingMessage = index === -1
+          ? { id: queued.messageId, role: 'user', content: queued.content, timestamp: new Date(queued.queuedAt) }
+          : { ...current[index], isQueued: false };
+
+        setMessages(prev => index === -1
+          ? [...prev, userMessage]
+          : prev.map(msg => msg.id === queued.messageId ? userMessage : msg));
+
+        const replied = await requestReply(userMessage, index === -1 ? current : current.slice(0, index), sessionId, {
+          sessionType: queued.sessionType,
+          sessionDuration: queued.sessionDuration
+        });
+
+        if (!replied) {
+          // Keep it queued for the next replay (e.g. when connectivity returns again)
+          setMessages(prev => prev.map(msg => msg.id === queued.messageId ? { ...msg, isQueued: true } : msg));
+          break;
+        }
+        await CoachingSessionStore.dequeue(sessionId, queued.messageId);
+      }
+    } catch (error) {
+      console.error('Error replaying queued coaching messages:', error);
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [requestReply]);
+
+  const sendMessage = useCallback(async (content: string, sessionId: string, options?: SendMessageOptions) => {
+    if (!content.trim()) return;
+    if (!sessionId || !sessionId.trim()) {
+      throw new Error('Session ID is required for coaching messages');
+    }
+
+    activeSessionIdRef.current = sessionId;
+
+    const userMessage: CoachingMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: content.trim(),
+      timestamp: new Date()
+    };
+
+    // Offline - keep the message and send it once connectivity returns
+    // While queued messages are being replayed, a new message waits behind them so it doesn't abort their reply
+    if (isOfflineRef.current || replayingRef.current) {
+      setMessages(prev => [...prev, { ...userMessage, isQueued: true }]);
+      try {
+        await CoachingSessionStore.enqueue(sessionId, {
+          messageId: userMessage.id,
+          content: userMessage.content,
+          sessionType: options?.sessionType,
+          sessionDuration: options?.sessionDuration,
+          queuedAt: userMessage.timestamp.toISOString()
+        });
+      } catch (err) {
+        // Not stored, so it would never be sent - show it as failed instead of queued
+        console.error('Error queueing coaching message:', err);
+        setMessages(prev => prev.map(msg => msg.id === userMessage.id ? { ...msg, isQueued: false, isError: true } : msg));
+        setError('Your message could not be saved for sending later. Please try again.');
+        return;
+      }
+      console.log(`📴 ${isOfflineRef.current ? 'Offline' : 'Replaying'} - queued coaching message:`, userMessage.id);
+
+      // The replay may have ended while the message was being queued
+      if (!isOfflineRef.current && !replayingRef.current) {
+        replayQueuedMessages(sessionId);
+      }
+      return;
+    }
+
+    // Add user message immediately
+    const history = messagesRef.current;
+    setMessages(prev => [...prev, userMessage]);
+    await requestReply(userMessage, history, sessionId, options);
+  }, [requestReply, replayQueuedMessages]);
+
+  // Load a session stored on the device; returns null if there is none
+  const restoreSession = useCallback(async (sessionId: string) => {
+    activeSessionIdRef.current = sessionId;
+
+    const stored = await CoachingSessionStore.load(sessionId);
+    if (!stored || stored.messages.length === 0) {
+      return null;
+    }
+
+    setMessages(stored.messages.map(fromStoredMessage));
+    setBranches(fromStoredBranches(stored.branches));
+    console.log(`💾 Restored coaching session ${sessionId} from device (${stored.messages.length} messages, ${stored.outbox.length} queued)`);
+
+    if (!isOfflineRef.current && stored.outbox.length > 0) {
+      replayQueuedMessages(sessionId);
+    }
+    return stored;
+  }, [replayQueuedMessages]);
+
+  // Replay the outbox when connectivity returns
+  useEffect(() => {
+    if (!isOffline && activeSessionIdRef.current) {
+      replayQueuedMessages(activeSessionIdRef.current);
+    }
+  }, [isOffline, replayQueuedMessages]);
+
+  // Persist every message and branch of the active session
+  useEffect(() => {
+    const sessionId = activeSessionIdRef.current;
+    if (!sessionId) return;
+
+    const timer = setTimeout(() => {
+      CoachingSessionStore.saveMessages(sessionId, messages.map(toStoredMessage), toStoredBranches(branches))
+        .catch(error => console.error('Error storing coaching session:', error));
+    }, PERSIST_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [messages, branches]);
+
+  // Store the branches with the server session, so they aren't only on this device
+  // Runs again when connectivity returns after an edit made offline
+  useEffect(() => {
+    const sessionId = activeSessionIdRef.current;
+    if (!sessionId || isLoading || isOffline || Object.keys(branches).length === 0) return;
+
+    const storedMessages = messages.map(toStoredMessage);
+    const storedBranches = toStoredBranches(branches);
+    const snapshot = JSON.stringify({ sessionId, storedMessages, storedBranches });
+    if (snapshot === serverBranchesRef.current) return;
+
+    const timer = setTimeout(async () => {
+      const saved = await streamClient.saveBranches(sessionId, storedMessages, storedBranches);
+      if (saved) {
+        serverBranchesRef.current = snapshot;
+        console.log(`🌿 Saved ${Object.keys(branches).length} branch points with session ${sessionId}`);
+      }
+    }, SERVER_BRANCHES_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [messages, branches, isLoading, isOffline, streamClient]);
+
+  const applyServerSession = useCallback((serverMessages: CoachingMessage[], serverBranches?: Record<string, CoachingBranchGroup>) => {
+    const sessionId = activeSessionIdRef.current;
+    setMessages(serverMessages);
+    setBranches(serverBranches ? fromStoredBranches(serverBranches) : {});
+    serverBranchesRef.current = JSON.stringify({ sessionId, storedMessages: serverMessages.map(toStoredMessage), storedBranches: serverBranches || {} });
+  }, []);
+
+  const resendMessage = useCallback(async (messageId: string, sessionId: string, options?: SendMessageOptions) => {
     // Find the error message to resend
     const errorMessage = messages.find(msg => msg.id === messageId && msg.isError);
     if (!errorMessage || !errorMessage.originalUserMessage) {
@@ -296,6 +526,66 @@ export function useAICoaching(): UseAICoachingReturn {
     await sendMessage(errorMessage.originalUserMessage, sessionId, options);
   }, [messages, sendMessage]);
 
+  // Replace an earlier user message and regenerate from there
+  // The previous continuation is kept as an alternate branch
+  const editMessage = useCallback(async (messageId: string, content: string, sessionId: string, options?: SendMessageOptions) => {
+    if (!content.trim()) return;
+
+    const current = messagesRef.current;
+    const index = current.findIndex(msg => msg.id === messageId && msg.role === 'user');
+    if (index === -1) {
+      console.error('Message to edit not found:', messageId);
+      return;
+    }
+
+    activeSessionIdRef.current = sessionId;
+    const branchKey = index === 0 ? COACHING_ROOT_BRANCH : current[index - 1].id;
+    const history = current.slice(0, index);
+    const editedMessage: CoachingMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: content.trim(),
+      timestamp: new Date()
+    };
+
+    setBranches(prev => {
+      const group = prev[branchKey] || { activeIndex: 0, variants: [current.slice(index)] };
+      const variants = group.variants.map((variant, i) => i === group.activeIndex ? current.slice(index) : variant);
+      return { ...prev, [branchKey]: { activeIndex: variants.length, variants: [...variants, [editedMessage]] } };
+    });
+    setMessages([...history, editedMessage]);
+
+    console.log(`🌿 Edited message ${messageId} - new branch after ${branchKey}`);
+    await requestReply(editedMessage, history, sessionId, options);
+  }, [requestReply]);
+
+  // Show another branch after `branchKey`, saving the current one first
+  const switchBranch = useCallback((branchKey: string, index: number) => {
+    const group = branchesRef.current[branchKey];
+    const current = messagesRef.current;
+    const start = branchStart(current, branchKey);
+
+    if (!group || !group.variants[index] || index === group.activeIndex || start === -1) {
+      return;
+    }
+
+    const variants = group.variants.map((variant, i) => i === group.activeIndex ? current.slice(start) : variant);
+    setBranches(prev => ({ ...prev, [branchKey]: { activeIndex: index, variants } }));
+    setMessages([...current.slice(0, start), ...variants[index]]);
+  }, []);
+
+  // Branch position of a message that starts one of several alternate branches
+  const getBranchInfo = useCallback((messageId: string): CoachingBranchInfo | null => {
+    const index = messages.findIndex(msg => msg.id === messageId);
+    if (index === -1) return null;
+
+    const branchKey = index === 0 ? COACHING_ROOT_BRANCH : messages[index - 1].id;
+    const group = branches[branchKey];
+    if (!group || group.variants.length < 2) return null;
+
+    return { branchKey, index: group.activeIndex, count: group.variants.length };
+  }, [messages, branches]);
+
   const clearMessages = useCallback(() => {
     // Track coaching completion
     if (messages.length > 0) {
@@ -311,9 +601,13 @@ export function useAICoaching(): UseAICoachingReturn {
       });
     }
     
+    // Stop persisting - the finished session stays on the device
+    activeSessionIdRef.current = null;
     setMessages([]);
+    setBranches({});
     setError(null);
     setProgress(0);
+    setProgressEstimate(null);
   }, [messages, trackCoachingCompletion]);
 
   const setMessagesCallback = useCallback((newMessages: CoachingMessage[]) => {
@@ -325,8 +619,16 @@ export function useAICoaching(): UseAICoachingReturn {
     isLoading,
     error,
     progress,
+    progressSource,
+    progressEstimate,
+    isOffline,
     sendMessage,
     resendMessage,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
+    restoreSession,
+    applyServerSession,
     clearMessages,
     setMessages: setMessagesCallback
   };
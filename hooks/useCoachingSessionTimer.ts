@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { CoachingSessionStore } from '@/services/coachingSessionStore';
+import { CoachingSessionTimer } from '@/types/coaching';
+
+// Time left at which the coach is asked to start wrapping up
+const WRAP_UP_MINUTES = 2;
+
+export interface CoachingSessionTimerState {
+  isRunning: boolean;
+  isCompleted: boolean;
+  remainingMs: number;
+  isWrapUp: boolean; // less than WRAP_UP_MINUTES left
+  isExpired: boolean;
+  start: (sessionId: string) => void;
+  complete: () => void;
+  getRemainingMinutes: () => number | undefined;
+}
+
+/**
+ * Countdown for a time-boxed coaching session
+ * The start time is stored with the session on the device, so the countdown
+ * is recomputed from the wall clock after backgrounding or an app restart.
+ */
+export const useCoachingSessionTimer = (sessionId: string | null, durationMinutes: number): CoachingSessionTimerState => {
+  const [timer, setTimer] = useState<CoachingSessionTimer | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const timerRef = useRef<CoachingSessionTimer | null>(null);
+  const timerSessionIdRef = useRef<string | null>(null);
+
+  const updateTimer = useCallback((targetSessionId: string, next: CoachingSessionTimer) => {
+    timerRef.current = next;
+    timerSessionIdRef.current = targetSessionId;
+    setTimer(next);
+    setNow(Date.now());
+    CoachingSessionStore.saveTimer(targetSessionId, next)
+      .catch(error => console.error('Error storing coaching session timer:', error));
+  }, []);
+
+  // Pick up the timer of a restored session
+  useEffect(() => {
+    if (!sessionId || timerSessionIdRef.current === sessionId) return;
+
+    let cancelled = false;
+    CoachingSessionStore.load(sessionId).then(session => {
+      if (cancelled || !session?.timer || timerSessionIdRef.current === sessionId) return;
+      timerRef.current = session.timer;
+      timerSessionIdRef.current = sessionId;
+      setTimer(session.timer);
+      setNow(Date.now());
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const endsAt = timer ? new Date(timer.startedAt).getTime() + timer.durationMinutes * 60000 : null;
+  const remainingMs = endsAt === null ? durationMinutes * 60000 : Math.max(0, endsAt - now);
+  const isRunning = !!timer && !timer.completedAt && remainingMs > 0;
+
+  // Tick once a second while running
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  // Timers are paused in the background - catch up when the app is active again
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        setNow(Date.now());
+      }
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  const start = useCallback((targetSessionId: string) => {
+    if (timerRef.current && timerSessionIdRef.current === targetSessionId) return;
+
+    console.log(`⏱️ Starting ${durationMinutes} minute session timer: ${targetSessionId}`);
+    updateTimer(targetSessionId, { startedAt: new Date().toISOString(), durationMinutes });
+  }, [durationMinutes, updateTimer]);
+
+  const complete = useCallback(() => {
+    const current = timerRef.current;
+    const targetSessionId = timerSessionIdRef.current;
+    if (!current || current.completedAt || !targetSessionId) return;
+
+    updateTimer(targetSessionId, { ...current, completedAt: new Date().toISOString() });
+  }, [updateTimer]);
+
+  // Whole minutes left (rounded up), or undefined when no timer is running
+  const getRemainingMinutes = useCallback(() => {
+    const current = timerRef.current;
+    if (!current || current.completedAt) return undefined;
+
+    const left = new Date(current.startedAt).getTime() + current.durationMinutes * 60000 - Date.now();
+    return Math.max(0, Math.ceil(left / 60000));
+  }, []);
+
+  return {
+    isRunning,
+    isCompleted: !!timer?.completedAt,
+    remainingMs,
+    isWrapUp: isRunning && remainingMs <= WRAP_UP_MINUTES * 60000,
+    isExpired: !!timer && !timer.completedAt && remainingMs === 0,
+    start,
+    complete,
+    getRemainingMinutes
+  };
+};
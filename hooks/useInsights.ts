@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { FirestoreService } from '@/lib/firestore';
 import { useAuth } from '@/hooks/useAuth';
-import { userInsight } from '@/types/insights';
+import { InsightConstraints } from '@/lib/coaching/insightConstraints';
+import { userInsight, insightVersion, insightSectionKey } from '@/types/insights';
 
 export const useInsights = () => {
   const { firebaseUser } = useAuth();
@@ -62,11 +63,59 @@ export const useInsights = () => {
     }
   };
 
+  // User changes to a section - the listener picks up the saved result
+  const saveUpdates = async (updates: Partial<userInsight> | null) => {
+    if (!firebaseUser?.uid || !updates) return;
+    await FirestoreService.updateUserInsights(firebaseUser.uid, updates);
+  };
+
+  const editSection = (section: insightSectionKey, text: { headline: string; description: string }) =>
+    saveUpdates(insights && InsightConstraints.edit(insights, section, text));
+
+  const setSectionPinned = (section: insightSectionKey, pinned: boolean) =>
+    saveUpdates(insights && InsightConstraints.setPinned(insights, section, pinned));
+
+  const rejectSection = (section: insightSectionKey) =>
+    saveUpdates(insights && InsightConstraints.reject(insights, section));
+
   return {
     insights,
     loading,
     error,
     refetch,
+    editSection,
+    setSectionPinned,
+    rejectSection,
     hasInsights: insights !== null
   };
-};
\ No newline at end of file
+};
+
+export const useInsightHistory = () => {
+  const { firebaseUser } = useAuth();
+  const [versions, setVersions] = useState<insightVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load on demand - the history is only needed when the timeline is opened
+  const load = useCallback(async () => {
+    if (!firebaseUser?.uid) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setVersions(await FirestoreService.getInsightVersions(firebaseUser.uid));
+    } catch (err) {
+      console.error('Error fetching insight history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch insight history');
+    } finally {
+      setLoading(false);
+    }
+  }, [firebaseUser?.uid]);
+
+  return {
+    versions,
+    loading,
+    error,
+    load
+  };
+};
@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useAuth } from '@/hooks/useAuth';
+import { useNetworkConnectivity } from '@/hooks/useNetworkConnectivity';
+import { JournalSyncService } from '@/services/journalSyncService';
+
+/**
+ * Background sync of the journal entries stored on the device
+ * Pushes and reads the newest page of entries when the user is signed in and online, again whenever
+ * the app comes to the foreground or the device comes back online, and pauses retries while offline.
+ */
+export const useJournalSync = () => {
+  const { firebaseUser, isFirebaseReady } = useAuth();
+  const networkState = useNetworkConnectivity();
+  const isOffline = networkState.isConnected === false || networkState.isInternetReachable === false;
+  const uid = isFirebaseReady ? firebaseUser?.uid : undefined;
+
+  useEffect(() => {
+    if (!uid) return;
+
+    if (isOffline) {
+      JournalSyncService.cancel(uid);
+      return;
+    }
+
+    console.log('📶 Syncing journal entries');
+    JournalSyncService.requestSync(uid, { ignoreBackoff: true });
+    JournalSyncService.pull(uid);
+
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        JournalSyncService.requestSync(uid, { ignoreBackoff: true });
+        JournalSyncService.pull(uid);
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      JournalSyncService.cancel(uid);
+    };
+  }, [uid, isOffline]);
+
+  return { isOffline };
+};
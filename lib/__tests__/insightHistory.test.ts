@@ -0,0 +1,86 @@
+import { InsightHistory } from '@/lib/insightHistory';
+import { insightSection, insightVersion, userInsight } from '@/types/insights';
+
+const section = (headline: string, quotes: string[] = [], description = ''): insightSection => ({
+  headline,
+  description,
+  sources: quotes.map(quote => ({ quote, extractedAt: 1 })),
+  updatedAt: 1
+});
+
+const version = (updatedAt: number, snapshot: insightVersion['snapshot']): insightVersion => ({
+  id: InsightHistory.versionId('user-1', updatedAt),
+  userId: 'user-1',
+  snapshot,
+  updatedAt,
+  recordedAt: updatedAt
+});
+
+describe('InsightHistory', () => {
+  it('snapshots every stored section under a stable id', () => {
+    const insight: userInsight = {
+      mainFocus: section('Launch'),
+      keyBlockers: section('Time'),
+      plan: section('Daily hour'),
+      categories: { wins: section('Shipped beta') },
+      userId: 'user-1',
+      createdAt: 1,
+      updatedAt: 500
+    };
+
+    const created = InsightHistory.createVersion(insight, 'session-1', 900);
+    expect(created.id).toBe('user-1_500');
+    expect(Object.keys(created.snapshot)).toEqual(['mainFocus', 'keyBlockers', 'plan', 'wins']);
+    expect(created.sessionId).toBe('session-1');
+    expect(created.recordedAt).toBe(900);
+    expect(InsightHistory.createVersion(insight).sessionId).toBeUndefined();
+  });
+
+  it('reports every section of the first version as changed', () => {
+    const diff = InsightHistory.diff(null, version(1, { plan: section('Daily hour', ['an hour a day']), mainFocus: section('Launch') }));
+    expect(diff.fromVersionId).toBeNull();
+    expect(diff.changedSections.map(changed => changed.section)).toEqual(['mainFocus', 'plan']);
+    expect(diff.changedSections[0].before).toBeUndefined();
+    expect(diff.changedSections[1].addedSources.map(source => source.quote)).toEqual(['an hour a day']);
+  });
+
+  it('diffs headlines, descriptions and sources of changed sections only', () => {
+    const older = version(1, { mainFocus: section('Launch', ['ship it']), plan: section('Daily hour', [], 'Mornings') });
+    const newer = version(2, {
+      mainFocus: section('Launch', ['ship it']),
+      plan: section('Weekly review', ['every friday'], 'Mornings'),
+      wins: section('Shipped beta')
+    });
+
+    const diff = InsightHistory.diff(older, newer);
+    expect(diff).toMatchObject({ fromVersionId: 'user-1_1', toVersionId: 'user-1_2' });
+    expect(diff.changedSections).toEqual([
+      {
+        section: 'plan',
+        headlineChanged: true,
+        descriptionChanged: false,
+        before: { headline: 'Daily hour', description: 'Mornings' },
+        after: { headline: 'Weekly review', description: 'Mornings' },
+        addedSources: [{ quote: 'every friday', extractedAt: 1 }],
+        removedSources: []
+      },
+      expect.objectContaining({ section: 'wins', headlineChanged: true })
+    ]);
+  });
+
+  it('ignores sections removed in the newer version', () => {
+    const diff = InsightHistory.diff(version(1, { wins: section('Shipped beta') }), version(2, {}));
+    expect(diff.changedSections).toEqual([]);
+  });
+
+  it('lists versions newest first and skips the ones without changes', () => {
+    const first = version(1, { mainFocus: section('Launch') });
+    const unchanged = version(2, { mainFocus: section('Launch') });
+    const changed = version(3, { mainFocus: section('Hire') });
+
+    const timeline = InsightHistory.timeline([changed, first, unchanged]);
+    expect(timeline.map(({ version }) => version.id)).toEqual(['user-1_3', 'user-1_1']);
+    expect(timeline[0].diff.fromVersionId).toBe('user-1_2');
+    expect(timeline[1].diff.fromVersionId).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { JournalDiff } from '@/lib/journalDiff';
+
+const coachingBlock = '<div data-type="coaching-block" data-coaching-block="{&quot;content&quot;:&quot;What matters most?&quot;,&quot;variant&quot;:&quot;text&quot;}"></div>';
+
+describe('JournalDiff', () => {
+  describe('splitBlocks', () => {
+    it('keeps nested lists in one block', () => {
+      const list = '<ul><li><p>One</p><ul><li><p>One a</p></li></ul></li><li><p>Two</p></li></ul>';
+
+      expect(JournalDiff.splitBlocks(`<p>Intro</p>${list}<p>Outro</p>`)).toEqual(['<p>Intro</p>', list, '<p>Outro</p>']);
+    });
+
+    it('keeps a coaching block as one block', () => {
+      expect(JournalDiff.splitBlocks(`<p>Before</p>${coachingBlock}<p>After</p>`))
+        .toEqual(['<p>Before</p>', coachingBlock, '<p>After</p>']);
+    });
+
+    it('treats top-level void tags as blocks and keeps nested ones inside their block', () => {
+      expect(JournalDiff.splitBlocks('<p>Line<br>break</p><hr><img src="a.png"/><p>End</p>'))
+        .toEqual(['<p>Line<br>break</p>', '<hr>', '<img src="a.png"/>', '<p>End</p>']);
+    });
+
+    it('turns loose text between blocks into blocks of its own', () => {
+      expect(JournalDiff.splitBlocks('Loose start<p>Para</p>  middle  <h2>Title</h2>tail'))
+        .toEqual(['Loose start', '<p>Para</p>', 'middle', '<h2>Title</h2>', 'tail']);
+    });
+
+    it('returns no blocks for empty content', () => {
+      expect(JournalDiff.splitBlocks('')).toEqual([]);
+    });
+  });
+
+  describe('diff', () => {
+    it('marks changed paragraphs as removed and added around the kept ones', () => {
+      const changes = JournalDiff.diff('<p>A</p><p>B</p><p>C</p>', '<p>A</p><p>B2</p><p>C</p>');
+
+      expect(changes).toEqual([
+        { kind: 'same', html: '<p>A</p>' },
+        { kind: 'removed', html: '<p>B</p>' },
+        { kind: 'added', html: '<p>B2</p>' },
+        { kind: 'same', html: '<p>C</p>' }
+      ]);
+      expect(JournalDiff.hasChanges(changes)).toBe(true);
+    });
+
+    it('finds no changes between equal versions', () => {
+      expect(JournalDiff.hasChanges(JournalDiff.diff(`<p>A</p>${coachingBlock}`, `<p>A</p>${coachingBlock}`))).toBe(false);
+    });
+  });
+
+  describe('merge', () => {
+    it('keeps the blocks both sides added', () => {
+      const base = '<p>Shared</p>';
+      const local = `<p>Shared</p><p>Written on the phone</p>`;
+      const remote = `<p>Shared</p>${coachingBlock}<ul><li><p>Written on the web</p></li></ul>`;
+
+      const merged = JournalDiff.merge(JournalDiff.diff(remote, local), () => true);
+
+      JournalDiff.splitBlocks(local).concat(JournalDiff.splitBlocks(remote)).forEach(block => {
+        expect(merged).toContain(block);
+      });
+      expect(JournalDiff.splitBlocks(merged)).toHaveLength(4);
+      expect(merged.startsWith(base)).toBe(true);
+    });
+
+    it('drops only the changes that aren\'t kept', () => {
+      const changes = JournalDiff.diff('<p>A</p><p>Old</p>', '<p>A</p><p>New</p>');
+
+      expect(JournalDiff.merge(changes, change => change.kind === 'added')).toBe('<p>A</p><p>New</p>');
+      expect(JournalDiff.merge(changes, change => change.kind === 'removed')).toBe('<p>A</p><p>Old</p>');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { JournalRevision } from '@/lib/journalRevision';
+
+describe('JournalRevision', () => {
+  it('hashes content to a stable 8 character hex string', () => {
+    expect(JournalRevision.hash('<p>Hello</p>')).toMatch(/^[0-9a-f]{8}$/);
+    expect(JournalRevision.hash('<p>Hello</p>')).toBe(JournalRevision.hash('<p>Hello</p>'));
+    expect(JournalRevision.hash('<p>Hello</p>')).not.toBe(JournalRevision.hash('<p>Hello!</p>'));
+  });
+
+  it('bumps the revision of the server copy', () => {
+    expect(JournalRevision.next(null, 'a')).toEqual({ revision: 1, contentHash: JournalRevision.hash('a') });
+    expect(JournalRevision.next({ revision: 4 }, 'b').revision).toBe(5);
+  });
+
+  describe('isStale', () => {
+    const base = { revision: 3, contentHash: JournalRevision.hash('<p>Synced</p>') };
+
+    it('is current when revision and hash match', () => {
+      expect(JournalRevision.isStale(base, { revision: 3, content: '<p>Synced</p>' })).toBe(false);
+    });
+
+    it('is stale when the server revision moved on', () => {
+      expect(JournalRevision.isStale(base, { revision: 4, content: '<p>Synced</p>' })).toBe(true);
+    });
+
+    it('is stale when the content changed without a new revision', () => {
+      expect(JournalRevision.isStale(base, { revision: 3, content: '<p>Edited on the web</p>' })).toBe(true);
+    });
+
+    it('compares only revisions for entries synced before hashes were stored', () => {
+      expect(JournalRevision.isStale({}, { content: '<p>Anything</p>' })).toBe(false);
+      expect(JournalRevision.isStale({}, { revision: 1, content: '<p>Anything</p>' })).toBe(true);
+    });
+  });
+});
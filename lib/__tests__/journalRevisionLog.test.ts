@@ -0,0 +1,68 @@
+import { JournalRevisionLog } from '@/lib/journalRevisionLog';
+import { JournalEditSession, JournalEntryRevision } from '@/types/journal';
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 9, minutes));
+
+const session = (minutes: number): JournalEditSession => ({
+  startedAt: at(0).toISOString(),
+  lastEditAt: at(minutes).toISOString(),
+  snapshotPending: false
+});
+
+const revision = (number: number, content: string): JournalEntryRevision => ({
+  id: JournalRevisionLog.revisionId('entry-1', number),
+  entryId: 'entry-1',
+  uid: 'user-1',
+  content,
+  revision: number,
+  savedAt: at(number),
+  recordedAt: at(number)
+});
+
+describe('JournalRevisionLog', () => {
+  describe('nextSession', () => {
+    it('starts a session from the content before the first save', () => {
+      expect(JournalRevisionLog.nextSession(undefined, '<p>Before</p>', '<p>Before and after</p>', at(0))).toEqual({
+        startedAt: at(0).toISOString(),
+        lastEditAt: at(0).toISOString(),
+        snapshotPending: true,
+        startContent: '<p>Before</p>'
+      });
+    });
+
+    it('continues the session for saves within the gap', () => {
+      expect(JournalRevisionLog.nextSession(session(5), '<p>a</p>', '<p>ab</p>', at(15))).toEqual({
+        ...session(5),
+        lastEditAt: at(15).toISOString()
+      });
+    });
+
+    it('starts a new session after more than ten minutes without saves', () => {
+      const next = JournalRevisionLog.nextSession(session(5), '<p>a</p>', '<p>ab</p>', at(16));
+      expect(next).toMatchObject({ startedAt: at(16).toISOString(), snapshotPending: true, startContent: '<p>a</p>' });
+    });
+
+    it('starts a new session when a save deletes 200 characters or more', () => {
+      const long = `<p>${'x'.repeat(250)}</p>`;
+      expect(JournalRevisionLog.nextSession(session(5), long, '<p>x</p>', at(6)).startContent).toBe(long);
+      expect(JournalRevisionLog.nextSession(session(5), long, `<p>${'x'.repeat(51)}</p>`, at(6)).startedAt).toBe(at(0).toISOString());
+    });
+
+    it('starts a new session when forced', () => {
+      expect(JournalRevisionLog.nextSession(session(5), '<p>a</p>', '<p>ab</p>', at(6), true).snapshotPending).toBe(true);
+    });
+  });
+
+  it('compares each revision with the version that followed it, newest first', () => {
+    const timeline = JournalRevisionLog.timeline(
+      [revision(1, '<p>One</p>'), revision(2, '<p>One</p><p>Two</p>')],
+      '<p>Two</p>'
+    );
+
+    expect(timeline.map(item => item.revision.revision)).toEqual([2, 1]);
+    expect(timeline.map(({ added, removed }) => ({ added, removed }))).toEqual([
+      { added: 0, removed: 1 },
+      { added: 1, removed: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { JournalSearchIndex } from '@/lib/journalSearchIndex';
+
+const now = new Date('2026-03-31T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const buildIndex = () => {
+  const index = new JournalSearchIndex();
+  index.upsert({ id: 'walk', content: '<p>A long morning walk in the park</p>', timestamp: daysAgo(2), lastUpdated: daysAgo(2) });
+  index.upsert({ id: 'reversed', content: '<p>Walk first, then a slow morning</p>', timestamp: daysAgo(20), lastUpdated: daysAgo(20) });
+  index.upsert({ id: 'old', content: '<p>Morning walk by the sea</p>', timestamp: daysAgo(200), lastUpdated: daysAgo(200) });
+  return index;
+};
+
+describe('JournalSearchIndex', () => {
+  describe('parseQuery', () => {
+    it('splits quoted phrases from words', () => {
+      expect(JournalSearchIndex.parseQuery('Coffee "morning walk" ', 'all', now)).toEqual({
+        terms: ['coffee'],
+        phrases: [['morning', 'walk']],
+        prefix: null
+      });
+    });
+
+    it('treats a quoted single word as a term and the word being typed as a prefix', () => {
+      expect(JournalSearchIndex.parseQuery('"walk" mor', 'all', now)).toMatchObject({ terms: ['walk'], phrases: [], prefix: 'mor' });
+    });
+
+    it('keeps an unclosed quote as a phrase', () => {
+      expect(JournalSearchIndex.parseQuery('"morning wa', 'all', now)).toMatchObject({ phrases: [['morning', 'wa']], prefix: null });
+    });
+
+    it('turns a range into dates ending now', () => {
+      expect(JournalSearchIndex.parseQuery('walk ', 'week', now)).toMatchObject({ from: daysAgo(7), to: now });
+      expect(JournalSearchIndex.parseQuery('walk ', 'all', now).from).toBeUndefined();
+    });
+  });
+
+  describe('search', () => {
+    it('matches phrases only with their words in order', () => {
+      const results = buildIndex().search(JournalSearchIndex.parseQuery('"morning walk"', 'all', now));
+      expect(results.map(result => result.entryId).sort()).toEqual(['old', 'walk']);
+    });
+
+    it('highlights the whole phrase in the snippet', () => {
+      const [result] = buildIndex().search(JournalSearchIndex.parseQuery('"long morning"', 'all', now));
+      expect(result.entryId).toBe('walk');
+      expect(result.highlights.map(({ start, end }) => result.snippet.slice(start, end))).toEqual(['long morning']);
+    });
+
+    it('leaves out entries outside the date range', () => {
+      const index = buildIndex();
+      const query = (range: 'week' | 'month' | 'year') => index.search(JournalSearchIndex.parseQuery('morning ', range, now))
+        .map(result => result.entryId)
+        .sort();
+
+      expect(query('week')).toEqual(['walk']);
+      expect(query('month')).toEqual(['reversed', 'walk']);
+      expect(query('year')).toEqual(['old', 'reversed', 'walk']);
+    });
+
+    it('matches the word being typed as a prefix', () => {
+      const results = buildIndex().search(JournalSearchIndex.parseQuery('walk pa', 'all', now));
+      expect(results.map(result => result.entryId)).toEqual(['walk']);
+    });
+
+    it('forgets the old text of replaced and removed entries', () => {
+      const index = buildIndex();
+      index.upsert({ id: 'walk', content: '<p>Rainy afternoon</p>', timestamp: daysAgo(2), lastUpdated: daysAgo(1) });
+      index.remove('old');
+
+      expect(index.search(JournalSearchIndex.parseQuery('"morning walk"', 'all', now))).toEqual([]);
+      expect(index.search(JournalSearchIndex.parseQuery('rainy', 'all', now)).map(result => result.entryId)).toEqual(['walk']);
+      expect(index.has('walk', daysAgo(1).toISOString())).toBe(true);
+      expect(index.size).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { CoachingCardProtocol, CoachingCardStreamParser } from '@/lib/coaching/cardProtocol';
+
+describe('CoachingCardProtocol', () => {
+  describe('escapes', () => {
+    it('unescapes quotes, brackets and backslashes in values', () => {
+      const { markers, errors } = CoachingCardProtocol.scan('[focus:focus="Say \\"no\\" \\] more \\\\ often"]');
+
+      expect(errors).toEqual([]);
+      expect(markers[0].props.focus).toBe('Say "no" ] more \\ often');
+    });
+
+    it('accepts an unescaped ] inside a quoted value', () => {
+      const { markers } = CoachingCardProtocol.scan('[focus:focus="Finish [draft] today"]');
+
+      expect(markers[0].props.focus).toBe('Finish [draft] today');
+    });
+
+    it('reports unknown escapes and keeps them as written', () => {
+      const { markers, errors } = CoachingCardProtocol.scan('[focus:focus="tab\\tstop"]');
+
+      expect(markers[0].props.focus).toBe('tab\\tstop');
+      expect(errors.map(error => error.code)).toEqual(['invalid-escape']);
+    });
+
+    it('round-trips values through formatMarker', () => {
+      const marker = { type: 'focus', props: { focus: 'a "quote", a ] and a \\ backslash' } };
+      const { markers } = CoachingCardProtocol.scan(CoachingCardProtocol.formatMarker(marker));
+
+      expect(markers[0].props).toEqual(marker.props);
+    });
+  });
+
+  describe('lists', () => {
+    it('splits list values on unescaped | and drops empty items', () => {
+      expect(CoachingCardProtocol.splitList('Sleep | Deep work || Gym ')).toEqual(['Sleep', 'Deep work', 'Gym']);
+    });
+
+    it('keeps escaped | inside an item', () => {
+      const { markers } = CoachingCardProtocol.scan('[actions:items="Pick A \\| B|Call mom"]');
+      const { card } = CoachingCardProtocol.toCard(markers[0]);
+
+      expect(card).toEqual({ type: 'actions', items: ['Pick A | B', 'Call mom'] });
+    });
+
+    it('unescapes | in text props', () => {
+      const { card } = CoachingCardProtocol.toCard({ type: 'focus', props: { focus: 'Work \\| life' } });
+
+      expect(card).toEqual({ type: 'focus', focus: 'Work | life' });
+    });
+  });
+
+  describe('malformed markers', () => {
+    it('treats bracketed text that is not a marker as plain text', () => {
+      expect(CoachingCardProtocol.scan('As I said [see above], it works').errors).toEqual([]);
+      expect(CoachingCardProtocol.getDisplayContent('Keep [sic] as is')).toBe('Keep [sic] as is');
+    });
+
+    it('reports unquoted values and skips the marker', () => {
+      const { markers, errors } = CoachingCardProtocol.scan('[focus:focus=Ship it] [checkin]');
+
+      expect(markers.map(marker => marker.type)).toEqual(['checkin']);
+      expect(errors[0]).toMatchObject({ code: 'invalid-prop', offset: 0, marker: '[focus:focus=Ship it]' });
+    });
+
+    it('reports a colon without props', () => {
+      expect(CoachingCardProtocol.scan('[focus:]').errors.map(error => error.code)).toEqual(['invalid-prop']);
+    });
+
+    it('reports duplicate props and keeps the last value', () => {
+      const { markers, errors } = CoachingCardProtocol.scan('[focus:focus="a",focus="b"]');
+
+      expect(markers[0].props.focus).toBe('b');
+      expect(errors.map(error => error.code)).toEqual(['duplicate-prop']);
+    });
+
+    it('reports a marker cut off by the end of the text', () => {
+      const { markers, errors } = CoachingCardProtocol.scan('Done [focus:focus="unfinished');
+
+      expect(markers).toEqual([]);
+      expect(errors.map(error => error.code)).toEqual(['unterminated-marker']);
+    });
+
+    it('validates card schemas', () => {
+      expect(CoachingCardProtocol.toCard({ type: 'blockers', props: { title: 'x' } }).errors.map(error => error.code)).toEqual(['missing-prop']);
+      expect(CoachingCardProtocol.toCard({ type: 'meditation', props: { title: 'Breathe', duration: 'long' } }).errors.map(error => error.code)).toEqual(['invalid-value']);
+      expect(CoachingCardProtocol.toCard({ type: 'unicorn', props: {} }).errors.map(error => error.code)).toEqual(['unknown-card']);
+    });
+
+    it('reports unknown cards and an unclosed finish block in completions', () => {
+      expect(CoachingCardProtocol.parseCompletion('[finish-start][unicorn:a="b"][finish-end]').errors.map(error => error.code)).toEqual(['unknown-card']);
+      expect(CoachingCardProtocol.parseCompletion('Bye [finish-start][checkin]').errors.map(error => error.code)).toEqual(['unterminated-finish-block']);
+    });
+  });
+
+  it('parses the cards of a completed session', () => {
+    const content = 'Great session.\n[finish-start]\n[focus:focus="Launch beta"]\n[blockers:items="Fear|Time"]\n[finish-end]';
+    const completion = CoachingCardProtocol.parseCompletion(content);
+
+    expect(completion.errors).toEqual([]);
+    expect(completion.components).toEqual([
+      { type: 'focus', props: { focus: 'Launch beta' } },
+      { type: 'blockers', props: { items: 'Fear|Time' } }
+    ]);
+    expect(CoachingCardProtocol.getDisplayContent(content)).toBe('Great session.');
+  });
+});
+
+describe('CoachingCardStreamParser', () => {
+  const reply = 'Here is your plan. [actions:items="Write \\"intro\\"|Send \\] deck"] Talk soon.\n[finish-start][focus:focus="Ship"][finish-end]';
+
+  const streamInChunks = (text: string, size: number) => {
+    const parser = new CoachingCardStreamParser();
+    const completed = [];
+    for (let i = 0; i < text.length; i += size) {
+      completed.push(...parser.push(text.slice(i, i + size)));
+    }
+    return { parser, completed };
+  };
+
+  it.each([1, 2, 3, 7, 500])('gives the same result for chunks of %i characters', size => {
+    const { parser, completed } = streamInChunks(reply, size);
+    const result = parser.end();
+
+    expect(completed).toEqual([
+      { type: 'actions', props: { items: 'Write "intro"|Send ] deck' } },
+      { type: 'focus', props: { focus: 'Ship' } }
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.components).toEqual([{ type: 'focus', props: { focus: 'Ship' } }]);
+    expect(parser.displayText).toBe('Here is your plan.  Talk soon.');
+  });
+
+  it('holds back a marker until it closes', () => {
+    const parser = new CoachingCardStreamParser();
+
+    expect(parser.push('Try this [checkin:what="Walk')).toEqual([]);
+    expect(parser.displayText).toBe('Try this');
+    expect(parser.parseErrors).toEqual([]);
+
+    expect(parser.push(' daily"] ok')).toEqual([{ type: 'checkin', props: { what: 'Walk daily' } }]);
+    expect(parser.displayText).toBe('Try this  ok');
+  });
+
+  it('holds back an escape split across chunks', () => {
+    const parser = new CoachingCardStreamParser();
+
+    parser.push('[focus:focus="a \\');
+    const completed = parser.push('"b\\"" ]');
+
+    expect(completed).toEqual([{ type: 'focus', props: { focus: 'a "b"' } }]);
+  });
+
+  it('holds back a partial finish token', () => {
+    const parser = new CoachingCardStreamParser();
+
+    parser.push('All done. [fini');
+    expect(parser.displayText).toBe('All done.');
+    expect(parser.finished).toBe(false);
+
+    parser.push('sh-start][focus:focus="x"]');
+    expect(parser.finished).toBe(true);
+    expect(parser.displayText).toBe('All done.');
+  });
+
+  it('reports a marker left open at the end of the stream', () => {
+    const parser = new CoachingCardStreamParser();
+    parser.push('Bye [focus:focus="never closed');
+
+    expect(parser.end().errors.map(error => error.code)).toEqual(['unterminated-marker']);
+  });
+});
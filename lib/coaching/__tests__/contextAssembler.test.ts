@@ -0,0 +1,115 @@
+import { CoachingContextAssembler } from '@/lib/coaching/contextAssembler';
+import { CoachingSessionTranscript } from '@/types/coaching';
+import { JournalEntry } from '@/types/journal';
+import { userInsight } from '@/types/insights';
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const entry = (id: string, content: string, days: number = 1): JournalEntry => ({
+  id,
+  uid: 'user-1',
+  content: `<p>${content}</p>`,
+  timestamp: daysAgo(days),
+  lastUpdated: daysAgo(days)
+});
+
+const section = (headline: string) => ({ headline, description: `${headline} in more detail`, sources: [], updatedAt: 0 });
+
+const insights: userInsight = {
+  mainFocus: section('Ship the launch'),
+  keyBlockers: section('Saying yes too often'),
+  plan: section('Block mornings'),
+  userId: 'user-1',
+  createdAt: 0,
+  updatedAt: 0
+};
+
+const session = (messageCount: number): CoachingSessionTranscript => ({
+  id: 'session-1',
+  sessionType: 'default-session',
+  updatedAt: daysAgo(0),
+  messages: Array.from({ length: messageCount }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${index} ${'about the launch plan '.repeat(5)}`
+  }))
+});
+
+describe('CoachingContextAssembler', () => {
+  it('keeps everything when it fits the budget', () => {
+    const assembled = CoachingContextAssembler.assemble({
+      entryId: 'current',
+      entryContent: '<p>Today I worked on the launch.</p>',
+      entries: [entry('a', 'Yesterday was calm.'), entry('b', 'Launch prep started.', 2)],
+      coachingSessions: [session(2)],
+      insights
+    });
+
+    expect(assembled.report.dropped).toEqual([]);
+    expect(assembled.report.items.every(item => item.status === 'full')).toBe(true);
+    expect(assembled.entryContent).toBe('Today I worked on the launch.');
+    expect(assembled.formattedInsights).toContain('Ship the launch - Ship the launch in more detail');
+    expect(assembled.formattedRecentEntries).toContain('<entry-1>');
+  });
+
+  it('cuts the current entry to half the budget', () => {
+    const long = 'This sentence repeats. '.repeat(200);
+    const assembled = CoachingContextAssembler.assemble({ entryId: 'current', entryContent: long, entries: [] }, 400);
+
+    const [current] = assembled.report.items;
+    expect(current).toMatchObject({ kind: 'current-entry', status: 'truncated' });
+    expect(current.usedTokens).toBeLessThanOrEqual(200);
+    expect(assembled.entryContent.endsWith('…')).toBe(true);
+  });
+
+  it('summarizes a long session to its latest messages', () => {
+    const assembled = CoachingContextAssembler.assemble({
+      entryId: 'current',
+      entryContent: 'Short entry',
+      entries: [],
+      coachingSessions: [session(20)]
+    }, 1000);
+
+    expect(assembled.report.items.find(item => item.kind === 'coaching-session')?.status).toBe('truncated');
+    expect(assembled.formattedCoachingSessions).toMatch(/\(\d+ earlier messages omitted\)/);
+    expect(assembled.formattedCoachingSessions).toContain('Message 19');
+  });
+
+  it('shortens insights to headlines before dropping them', () => {
+    const detailed = { ...insights, mainFocus: { ...section('Ship the launch'), description: 'Details. '.repeat(200) } };
+    const assembled = CoachingContextAssembler.assemble({
+      entryId: 'current',
+      entryContent: 'Short entry',
+      entries: [],
+      insights: detailed
+    }, 300);
+
+    expect(assembled.report.items.find(item => item.kind === 'insights')?.status).toBe('truncated');
+    expect(assembled.formattedInsights).toContain('Main focus: Ship the launch\n');
+    expect(assembled.formattedInsights).not.toContain('Details.');
+  });
+
+  it('never goes over the budget and reports what it dropped', () => {
+    const entries = Array.from({ length: 30 }, (_, index) => entry(`e${index}`, 'A long day of writing. '.repeat(30), index + 1));
+    const assembled = CoachingContextAssembler.assemble({ entryId: 'current', entryContent: 'Short entry', entries }, 1000);
+
+    expect(assembled.report.usedTokens).toBeLessThanOrEqual(1000);
+    expect(assembled.report.dropped.length).toBeGreaterThan(0);
+    expect(assembled.report.items.length + assembled.report.dropped.length).toBe(31);
+    assembled.report.dropped.forEach(item => expect(item).toMatchObject({ kind: 'entry', status: 'dropped', usedTokens: 0 }));
+  });
+
+  it('places the entries most relevant to the current one first', () => {
+    const assembled = CoachingContextAssembler.assemble({
+      entryId: 'current',
+      entryContent: 'Marathon training and running shoes',
+      entries: [
+        entry('cooking', 'Cooked pasta with friends and talked for hours about holidays. '.repeat(3)),
+        entry('running', 'Marathon training went well, new running shoes helped. '.repeat(3))
+      ]
+    }, 120);
+
+    const [first, second] = assembled.report.items.filter(item => item.kind === 'entry');
+    expect(first).toMatchObject({ id: 'running', status: 'full' });
+    expect(second).toMatchObject({ id: 'cooking', status: 'truncated' });
+  });
+});
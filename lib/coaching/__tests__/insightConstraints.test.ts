@@ -0,0 +1,78 @@
+import { InsightConstraints } from '@/lib/coaching/insightConstraints';
+import { insightSection, userInsight } from '@/types/insights';
+
+const section = (headline: string, description = ''): insightSection => ({
+  headline,
+  description,
+  sources: [],
+  updatedAt: 1
+});
+
+const insight = (overrides: Partial<userInsight> = {}): userInsight => ({
+  mainFocus: section('Launch the beta'),
+  keyBlockers: section('Not enough time'),
+  plan: section('One hour every morning'),
+  userId: 'user-1',
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides
+});
+
+const extraction = insight({
+  mainFocus: section('Hire a designer'),
+  keyBlockers: section('Budget'),
+  plan: section('Post the job ad'),
+  updatedAt: 2
+});
+
+describe('InsightConstraints', () => {
+  it('uses the extraction as is without current insights', () => {
+    expect(InsightConstraints.apply(null, extraction)).toBe(extraction);
+  });
+
+  it('keeps pinned sections over the extraction', () => {
+    const current = { ...insight(), ...InsightConstraints.setPinned(insight(), 'mainFocus', true, 5) };
+    const merged = InsightConstraints.apply(current, extraction);
+    expect(merged.mainFocus.headline).toBe('Launch the beta');
+    expect(merged.plan.headline).toBe('Post the job ad');
+  });
+
+  it('does not bring back a rejected headline, whatever its case', () => {
+    const current = { ...insight(), ...InsightConstraints.reject(insight({ keyBlockers: section('budget ') }), 'keyBlockers', 5) };
+    expect(current.userEdits?.keyBlockers?.rejectedHeadlines).toEqual(['budget']);
+
+    const merged = InsightConstraints.apply(current, extraction);
+    expect(merged.keyBlockers.headline).toBe('');
+  });
+
+  it('keeps the user edit while the extraction agrees with it', () => {
+    const current = { ...insight(), ...InsightConstraints.edit(insight(), 'plan', { headline: ' Post the job ad ', description: 'Today' }, 5) };
+    const merged = InsightConstraints.apply(current, extraction);
+    expect(merged.userEdits?.plan?.editedByUser).toBe(true);
+  });
+
+  it('lets a new headline replace an unpinned user edit', () => {
+    const current = { ...insight(), ...InsightConstraints.edit(insight(), 'mainFocus', { headline: 'Launch v2', description: '' }, 5) };
+    const merged = InsightConstraints.apply(current, extraction);
+    expect(merged.mainFocus.headline).toBe('Hire a designer');
+    expect(merged.userEdits?.mainFocus?.editedByUser).toBe(false);
+  });
+
+  it('lets a pin take precedence over the user edit', () => {
+    const edited = { ...insight(), ...InsightConstraints.edit(insight(), 'mainFocus', { headline: 'Launch v2', description: '' }, 5) };
+    const current = { ...edited, ...InsightConstraints.setPinned(edited, 'mainFocus', true, 6) };
+
+    const merged = InsightConstraints.apply(current, extraction);
+    expect(merged.mainFocus.headline).toBe('Launch v2');
+    expect(merged.userEdits?.mainFocus).toMatchObject({ pinned: true, editedByUser: true });
+    expect(InsightConstraints.fromInsight(current)).toMatchObject({
+      pinned: [{ section: 'mainFocus', headline: 'Launch v2' }],
+      edited: []
+    });
+  });
+
+  it('keeps categories the extraction left out', () => {
+    const current = insight({ categories: { wins: section('Shipped beta') } });
+    expect(InsightConstraints.apply(current, extraction).categories?.wins?.headline).toBe('Shipped beta');
+  });
+});
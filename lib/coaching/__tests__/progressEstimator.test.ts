@@ -0,0 +1,57 @@
+import { CoachingProgressEstimator } from '@/lib/coaching/progressEstimator';
+
+const user = (content: string, isError?: boolean) => ({ role: 'user' as const, content, isError });
+const assistant = (content: string) => ({ role: 'assistant' as const, content });
+
+// Over 40 words mentioning a focus, a blocker and an action
+const deepAnswer = `My main goal is the launch but I feel stuck on pricing and my plan is to call two customers tomorrow ${'and then keep going '.repeat(5).trim()}`;
+
+describe('CoachingProgressEstimator', () => {
+  it('estimates nothing for an empty conversation', () => {
+    expect(CoachingProgressEstimator.estimate([])).toEqual({
+      progress: 0,
+      signals: { userTurns: 0, coveredTopics: [], cardTypes: [], averageAnswerWords: 0, hasFinishToken: false },
+      breakdown: { turns: 0, topics: 0, cards: 0, depth: 0 }
+    });
+  });
+
+  it('counts topics the client talked about, not the ones the coach asked about', () => {
+    const estimate = CoachingProgressEstimator.estimate([
+      assistant('What is your goal, and what is blocking you? What will your next step be?'),
+      user('I want to finish the draft')
+    ]);
+    expect(estimate.signals.coveredTopics).toEqual(['focus']);
+    expect(estimate.breakdown.topics).toBe(10);
+  });
+
+  it('gives card points once however many cards were shown', () => {
+    const estimate = CoachingProgressEstimator.estimate([
+      user('Hi'),
+      assistant('[focus:focus="Ship the beta"] and [blockers:items="Time|Fear"]')
+    ]);
+    expect(estimate.signals.cardTypes).toEqual(['focus', 'blockers']);
+    expect(estimate.breakdown.cards).toBe(15);
+  });
+
+  it('ignores error and empty messages', () => {
+    const estimate = CoachingProgressEstimator.estimate([user('My goal is to rest', true), user('   ')]);
+    expect(estimate.signals.userTurns).toBe(0);
+    expect(estimate.progress).toBe(0);
+  });
+
+  it('caps a long conversation below 100 until the finish token arrives', () => {
+    const conversation = Array.from({ length: 10 }, () => [user(deepAnswer), assistant('Tell me more. [checkin]')]).flat();
+    const estimate = CoachingProgressEstimator.estimate(conversation);
+    expect(estimate.breakdown).toEqual({ turns: 35, topics: 30, cards: 15, depth: 15 });
+    expect(estimate.progress).toBe(95);
+
+    const finished = CoachingProgressEstimator.estimate([...conversation, assistant('Well done.\n[finish-start][focus:focus="Launch"][finish-end]')]);
+    expect(finished.signals.hasFinishToken).toBe(true);
+    expect(finished.progress).toBe(100);
+  });
+
+  it('never goes below the previous progress, which is capped until finished', () => {
+    expect(CoachingProgressEstimator.estimate([user('Hi')], 60).progress).toBe(60);
+    expect(CoachingProgressEstimator.estimate([user('Hi')], 99).progress).toBe(95);
+  });
+});
@@ -0,0 +1,56 @@
+import { PromptAssetError, PromptLibrary } from '@/lib/coaching/prompts';
+import { BiggestStruggleModel, GeneralCoachingModel } from '@/lib/coaching/models';
+import { CoachingModel, PromptAsset } from '@/types/coaching';
+
+const asset = (overrides: Partial<PromptAsset> = {}): PromptAsset => ({
+  modelId: 'test-model',
+  version: '1.0.0',
+  hash: 'abc',
+  sections: { behavior: 'Behavior', output: 'Output', task: 'Task', role: 'Role' },
+  ...overrides
+});
+
+const model = (promptAsset: PromptAsset, version: string = '1.0.0'): CoachingModel => ({
+  getInfo: () => ({ id: 'test-model', name: 'Test', description: 'Test model', version }),
+  canHandle: () => true,
+  getRoutingProfile: () => ({ baseScore: 0, rules: [] }),
+  getPromptAsset: () => promptAsset,
+  generateSystemPrompt: () => '',
+  generateContextMessage: () => ''
+});
+
+describe('PromptLibrary', () => {
+  beforeEach(() => {
+    PromptLibrary.clearCache();
+  });
+
+  it('assembles the sections in system prompt order', () => {
+    expect(PromptLibrary.getSystemPrompt(asset())).toBe('Role\n\nTask\n\nOutput\n\nBehavior');
+  });
+
+  it('caches the prompt per asset version and hash', () => {
+    PromptLibrary.getSystemPrompt(asset());
+
+    expect(PromptLibrary.getSystemPrompt(asset({ sections: { role: 'Changed' } }))).toBe('Role\n\nTask\n\nOutput\n\nBehavior');
+    expect(() => PromptLibrary.getSystemPrompt(asset({ hash: 'def', sections: { role: 'Changed' } }))).toThrow(PromptAssetError);
+  });
+
+  it('names every missing or blank section', () => {
+    expect(() => PromptLibrary.validateAsset(asset({ sections: { role: 'Role', task: '  ' } })))
+      .toThrow('Prompt asset for test-model is missing sections: task, output, behavior');
+  });
+
+  it('rejects an asset attached to another model or version', () => {
+    expect(() => PromptLibrary.validateModel(model(asset({ modelId: 'other-model' }))))
+      .toThrow('Prompt asset other-model is attached to model test-model');
+    expect(() => PromptLibrary.validateModel(model(asset(), '2.0.0')))
+      .toThrow('Prompt asset version 1.0.0 does not match model test-model version 2.0.0');
+    expect(() => PromptLibrary.validateModel(model(asset()))).not.toThrow();
+  });
+
+  it('accepts the compiled prompts of the shipped models', () => {
+    [new GeneralCoachingModel(), new BiggestStruggleModel()].forEach(shipped => {
+      expect(() => PromptLibrary.validateModel(shipped)).not.toThrow();
+    });
+  });
+});
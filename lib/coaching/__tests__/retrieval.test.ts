@@ -0,0 +1,116 @@
+import { Bm25Index } from '@/lib/coaching/retrieval/bm25';
+import { EntryIndex } from '@/lib/coaching/retrieval/entryIndex';
+import { EmbeddingProvider } from '@/types/coaching';
+import { JournalEntry } from '@/types/journal';
+
+const entry = (id: string, content: string, lastUpdated: Date = new Date(2026, 0, 1)): JournalEntry => ({
+  id,
+  uid: 'user-1',
+  content: `<p>${content}</p>`,
+  timestamp: new Date(2026, 0, 1),
+  lastUpdated
+});
+
+// Embeds text as counts of a few fixed words, so similarity is predictable
+const wordCountProvider = (): EmbeddingProvider & { embed: jest.Mock } => ({
+  id: 'word-count',
+  embed: jest.fn(async (texts: string[]) => texts.map(text =>
+    ['running', 'cooking', 'work'].map(word => text.toLowerCase().split(word).length - 1)
+  ))
+});
+
+describe('Bm25Index', () => {
+  it('ranks documents with rarer and more frequent terms higher', () => {
+    const index = new Bm25Index();
+    index.add('a', ['running', 'shoes', 'running']);
+    index.add('b', ['running', 'weather']);
+    index.add('c', ['cooking', 'pasta']);
+
+    const results = index.search(['running', 'shoes']);
+    expect(results.map(result => result.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('breaks ties by id and leaves out documents without a match', () => {
+    const index = new Bm25Index();
+    index.add('b', ['garden']);
+    index.add('a', ['garden']);
+    index.add('c', ['kitchen']);
+
+    expect(index.search(['garden']).map(result => result.id)).toEqual(['a', 'b']);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    const index = new Bm25Index();
+    index.add('a', ['garden']);
+    index.add('b', ['garden']);
+    index.remove('a');
+    index.add('b', ['kitchen']);
+
+    expect(index.size).toBe(1);
+    expect(index.search(['garden'])).toEqual([]);
+    expect(index.search(['kitchen']).map(result => result.id)).toEqual(['b']);
+  });
+});
+
+describe('EntryIndex', () => {
+  it('falls back to BM25 and scores matches relative to the best one', async () => {
+    const index = new EntryIndex();
+    index.upsert([
+      entry('a', 'Running again after the injury, running feels good'),
+      entry('b', 'Went running in the rain'),
+      entry('c', 'Cooking dinner for friends')
+    ]);
+
+    const matches = await index.search('running plans', { minScore: 0 });
+    expect(matches.map(match => [match.entry.id, match.method])).toEqual([['a', 'bm25'], ['b', 'bm25']]);
+    expect(matches[0].score).toBe(1);
+  });
+
+  it('applies the limit, exclusions and minimum score', async () => {
+    const index = new EntryIndex();
+    index.upsert([entry('a', 'running running running'), entry('b', 'running'), entry('c', 'running')]);
+
+    expect((await index.search('running', { excludeIds: ['a'] })).map(match => match.entry.id)).toEqual(['b', 'c']);
+    expect(await index.search('running', { limit: 1 })).toHaveLength(1);
+    expect(await index.search('')).toEqual([]);
+  });
+
+  it('drops entries missing from the next upsert', async () => {
+    const index = new EntryIndex();
+    index.upsert([entry('a', 'running'), entry('b', 'running')]);
+    index.upsert([entry('b', 'running')]);
+
+    expect(index.size).toBe(1);
+    expect((await index.search('running')).map(match => match.entry.id)).toEqual(['b']);
+  });
+
+  it('ranks by embedding and embeds only new or changed entries', async () => {
+    const provider = wordCountProvider();
+    const index = new EntryIndex(provider);
+    index.upsert([entry('a', 'running running'), entry('b', 'cooking at work')]);
+
+    const matches = await index.search('running', { minScore: 0 });
+    expect(matches.map(match => [match.entry.id, match.method])).toEqual([['a', 'embedding']]);
+
+    index.upsert([entry('a', 'running running'), entry('b', 'running to work', new Date(2026, 0, 2))]);
+    await index.search('running');
+
+    const embedded = provider.embed.mock.calls.map(([texts]) => texts);
+    expect(embedded).toEqual([['running running', 'cooking at work'], ['running'], ['running to work'], ['running']]);
+  });
+
+  it('falls back to BM25 when embedding fails', async () => {
+    const index = new EntryIndex({ id: 'broken', embed: async () => { throw new Error('offline'); } });
+    index.upsert([entry('a', 'running')]);
+
+    expect((await index.search('running'))[0].method).toBe('bm25');
+  });
+
+  it('keeps one index per user and embedding provider', () => {
+    const first = EntryIndex.forUser('user-1');
+
+    expect(EntryIndex.forUser('user-1')).toBe(first);
+    expect(EntryIndex.forUser('user-1', wordCountProvider())).not.toBe(first);
+  });
+});
@@ -0,0 +1,22 @@
+import { CoachingReviewBuilder } from '@/lib/coaching/reviewBuilder';
+
+describe('CoachingReviewBuilder.getRange', () => {
+  it('covers the last 7 days, today included', () => {
+    const { from, to } = CoachingReviewBuilder.getRange('week', new Date(2026, 2, 10, 15, 30));
+
+    expect(from).toEqual(new Date(2026, 2, 4));
+    expect(to).toEqual(new Date(2026, 2, 10, 15, 30));
+  });
+
+  it('covers the last 30 days without overflowing at the end of a month', () => {
+    const { from } = CoachingReviewBuilder.getRange('month', new Date(2026, 2, 31, 9));
+
+    expect(from).toEqual(new Date(2026, 2, 2));
+  });
+
+  it('crosses into the previous month and year', () => {
+    const { from } = CoachingReviewBuilder.getRange('month', new Date(2026, 0, 15, 9));
+
+    expect(from).toEqual(new Date(2025, 11, 17));
+  });
+});
@@ -0,0 +1,72 @@
+import { buildRoutingSignals, detectTopics, getTimeOfDay, scoreRoutingProfile } from '@/lib/coaching/routing';
+import { CoachingContext, RoutingProfile, RoutingSignals } from '@/types/coaching';
+
+const signals = (overrides: Partial<RoutingSignals> = {}): RoutingSignals => ({
+  entryCount: 10,
+  daysSinceLastEntry: 1,
+  topics: [],
+  timeOfDay: 'morning',
+  ...overrides
+});
+
+describe('routing', () => {
+  it('detects every topic mentioned in an entry', () => {
+    expect(detectTopics("I'm STRESSED about a decision at work")).toEqual(['stress', 'decision', 'work']);
+    expect(detectTopics('A quiet day')).toEqual([]);
+  });
+
+  it('buckets hours into times of day', () => {
+    expect([4, 5, 11, 12, 16, 17, 21, 22].map(hour => getTimeOfDay(new Date(2026, 0, 1, hour))))
+      .toEqual(['night', 'morning', 'morning', 'afternoon', 'afternoon', 'evening', 'evening', 'night']);
+  });
+
+  it('counts the days since the last entry other than the current one', () => {
+    const now = new Date(2026, 0, 10, 9);
+    const context: CoachingContext = {
+      entryId: 'current',
+      entryContent: 'Feeling stuck',
+      userId: 'user-1',
+      entryCount: 3,
+      recentEntries: [
+        { id: 'current', uid: 'user-1', content: '', timestamp: now, lastUpdated: now },
+        { id: 'older', uid: 'user-1', content: '', timestamp: new Date(2026, 0, 2, 9), lastUpdated: now },
+        { id: 'latest', uid: 'user-1', content: '', timestamp: new Date(2026, 0, 7, 8), lastUpdated: now }
+      ]
+    };
+
+    expect(buildRoutingSignals(context, now)).toEqual({
+      entryCount: 3,
+      daysSinceLastEntry: 3,
+      topics: ['stuck'],
+      timeOfDay: 'morning',
+      coachingConfig: undefined
+    });
+    expect(buildRoutingSignals({ ...context, recentEntries: [] }, now).daysSinceLastEntry).toBeNull();
+  });
+
+  describe('scoreRoutingProfile', () => {
+    const profile: RoutingProfile = {
+      baseScore: 0.5,
+      rules: [
+        { id: 'stuck', description: 'Entry mentions being stuck', weight: 0.3, matches: s => s.topics.includes('stuck') },
+        { id: 'new', description: 'New user', weight: -0.4, matches: s => s.entryCount < 5 },
+        { id: 'night', description: 'Writing at night', weight: 0.1, matches: s => s.timeOfDay === 'night' }
+      ]
+    };
+
+    it('adds the weights of the matching rules and lists them', () => {
+      expect(scoreRoutingProfile(profile, signals({ topics: ['stuck'], timeOfDay: 'night' }))).toEqual({
+        confidence: 0.9,
+        reasons: ['Entry mentions being stuck (+0.3)', 'Writing at night (+0.1)']
+      });
+    });
+
+    it('clamps the confidence between 0 and 1', () => {
+      expect(scoreRoutingProfile({ ...profile, baseScore: 0.9 }, signals({ topics: ['stuck'], timeOfDay: 'night' })).confidence).toBe(1);
+      expect(scoreRoutingProfile({ ...profile, baseScore: 0.1 }, signals({ entryCount: 1 }))).toEqual({
+        confidence: 0,
+        reasons: ['New user (-0.4)']
+      });
+    });
+  });
+});
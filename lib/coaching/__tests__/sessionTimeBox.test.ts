@@ -0,0 +1,27 @@
+import { SessionTimeBox } from '@/lib/coaching/sessionTimeBox';
+
+describe('SessionTimeBox', () => {
+  it('sends nothing without a time box', () => {
+    expect(SessionTimeBox.toRequest({})).toBeUndefined();
+    expect(SessionTimeBox.toPrompt(undefined)).toBe('');
+  });
+
+  it('sends the minutes left, rounded', () => {
+    expect(SessionTimeBox.toRequest({ timeRemainingMinutes: 7.4 })).toEqual({ remainingMinutes: 7 });
+    expect(SessionTimeBox.toRequest({ timeRemainingMinutes: -1, wrapUp: true })).toEqual({ remainingMinutes: 0, wrapUp: true });
+  });
+
+  it('tells the model how much time is left', () => {
+    const prompt = SessionTimeBox.toPrompt({ remainingMinutes: 7 });
+
+    expect(prompt).toContain('About 7 minutes of this session are left');
+    expect(prompt).not.toContain('wrap up now');
+  });
+
+  it('adds the wrap-up instruction', () => {
+    const prompt = SessionTimeBox.toPrompt({ remainingMinutes: 1, wrapUp: true });
+
+    expect(prompt).toContain('About 1 minute of this session is left');
+    expect(prompt).toContain('wrap up now');
+  });
+});
@@ -0,0 +1,55 @@
+import { SourceReferences } from '@/lib/coaching/sourceReferences';
+import { insightSection, userInsight } from '@/types/insights';
+
+const section = (quotes: string[]): insightSection => ({
+  headline: 'Headline',
+  description: '',
+  sources: quotes.map(quote => ({ quote, extractedAt: 1 })),
+  updatedAt: 1
+});
+
+const insight = (overrides: Partial<userInsight> = {}): userInsight => ({
+  mainFocus: section(['I want to finish the  novel']),
+  keyBlockers: section([]),
+  plan: section(['nobody said this']),
+  userId: 'user',
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides
+});
+
+describe('SourceReferences.withSessionReferences', () => {
+  const messages = [
+    { id: 'a1', role: 'assistant', content: 'What do you want to finish the novel for?' },
+    { id: 'u1', role: 'user', content: 'Honestly, I want to finish the novel this year.' }
+  ];
+
+  it('references the user message a source quotes', () => {
+    const result = SourceReferences.withSessionReferences(insight(), 'session', messages);
+
+    expect(result.mainFocus.sources[0].reference).toEqual({
+      kind: 'coachingSession',
+      sessionId: 'session',
+      messageId: 'u1',
+      span: { start: 10, end: 36 }
+    });
+  });
+
+  it('leaves sources it cannot find or that already have a reference', () => {
+    const reference = { kind: 'journalEntry' as const, entryId: 'entry' };
+    const result = SourceReferences.withSessionReferences(insight({
+      keyBlockers: { ...section([]), sources: [{ quote: 'I want to finish the novel', extractedAt: 1, reference }] }
+    }), 'session', messages);
+
+    expect(result.plan.sources[0].reference).toBeUndefined();
+    expect(result.keyBlockers.sources[0].reference).toBe(reference);
+  });
+
+  it('covers sections stored under categories', () => {
+    const result = SourceReferences.withSessionReferences(insight({
+      categories: { wins: section(['finish the novel']) }
+    }), 'session', messages);
+
+    expect(result.categories?.wins?.sources[0].reference).toMatchObject({ messageId: 'u1' });
+  });
+});
@@ -0,0 +1,67 @@
+import { SseEventBuffer } from '@/lib/coaching/streamingClient';
+
+const content = (text: string) => `data: ${JSON.stringify({ type: 'content', content: text })}`;
+
+describe('SseEventBuffer', () => {
+  it('waits for the blank line before emitting an event', () => {
+    const buffer = new SseEventBuffer();
+
+    expect(buffer.push(`${content('Hello')}\n`)).toEqual([]);
+    expect(buffer.push('\n')).toEqual([{ type: 'content', content: 'Hello' }]);
+  });
+
+  it('joins an event split across chunks in the middle of a line', () => {
+    const buffer = new SseEventBuffer();
+    const event = `${content('Split reply')}\n\n`;
+
+    expect(buffer.push(event.slice(0, 12))).toEqual([]);
+    expect(buffer.push(event.slice(12, 20))).toEqual([]);
+    expect(buffer.push(event.slice(20))).toEqual([{ type: 'content', content: 'Split reply' }]);
+  });
+
+  it('handles \\r\\n split between two chunks', () => {
+    const buffer = new SseEventBuffer();
+
+    expect(buffer.push(`${content('A')}\r`)).toEqual([]);
+    expect(buffer.push('\n\r')).toEqual([]);
+    expect(buffer.push('\n')).toEqual([{ type: 'content', content: 'A' }]);
+  });
+
+  it('emits several events from one chunk and skips comments and other fields', () => {
+    const buffer = new SseEventBuffer();
+    const chunk = `: keep-alive\n\nevent: message\nid: 1\n${content('One')}\n\n${content('Two')}\n\ndata: [DONE]\n\n`;
+
+    expect(buffer.push(chunk)).toEqual([
+      { type: 'content', content: 'One' },
+      { type: 'content', content: 'Two' },
+      { type: 'done' }
+    ]);
+  });
+
+  it('reads one JSON object per data line when the blank lines are missing', () => {
+    const buffer = new SseEventBuffer();
+    buffer.push(`${content('One')}\n${content('Two')}\n`);
+
+    expect(buffer.flush()).toEqual([
+      { type: 'content', content: 'One' },
+      { type: 'content', content: 'Two' }
+    ]);
+  });
+
+  it('emits the last event on flush when the stream ends without a newline', () => {
+    const buffer = new SseEventBuffer();
+
+    expect(buffer.push('data: {"type":"done"}')).toEqual([]);
+    expect(buffer.flush()).toEqual([{ type: 'done' }]);
+    expect(buffer.flush()).toEqual([]);
+  });
+
+  it('skips data that is not a known event', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const buffer = new SseEventBuffer();
+
+    expect(buffer.push('data: {"type":"unknown"}\n\ndata: not json\n\n')).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
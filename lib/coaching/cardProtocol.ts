@@ -0,0 +1,566 @@
+import {
+  CardParseError,
+  CardParseErrorCode,
+  CoachingCard,
+  CoachingCardMarker,
+  CoachingCardType,
+  CoachingCompletionData
+} from '@/types/coaching';
+
+/**
+ * Coaching card token protocol
+ *
+ *   completion := text FINISH_START_TOKEN markers FINISH_END_TOKEN text
+ *   marker     := '[' type ']' | '[' type ':' prop ( ( ',' | ws ) prop )* ']'
+ *   type       := [A-Za-z0-9_-]+
+ *   prop       := key '=' '"' value '"'
+ *   key        := [A-Za-z0-9_]+
+ *   value      := ( any char except '\' and '"' | escape )*
+ *   escape     := '\"' | '\]' | '\\' | '\|'
+ *
+ * List values (e.g. `items`) are split on unescaped `|`. A `]` inside a quoted
+ * value doesn't need escaping, but `\]` is accepted.
+ * Text in brackets that doesn't start like a marker (e.g. "[see above]") is plain text.
+ */
+export const FINISH_START_TOKEN = '[finish-start]';
+export const FINISH_END_TOKEN = '[finish-end]';
+
+export const COACHING_CARD_TYPES: CoachingCardType[] = ['focus', 'blockers', 'actions', 'checkin', 'meditation'];
+
+type PropKind = 'text' | 'list' | 'seconds';
+
+type PropSchema = {
+  kind: PropKind;
+  required?: boolean;
+};
+
+/**
+ * Props of each card type - unknown props are ignored
+ */
+const CARD_SCHEMAS: Record<CoachingCardType, Record<string, PropSchema>> = {
+  focus: {
+    focus: { kind: 'text', required: true },
+    context: { kind: 'text' }
+  },
+  blockers: {
+    items: { kind: 'list', required: true },
+    title: { kind: 'text' }
+  },
+  actions: {
+    items: { kind: 'list', required: true },
+    title: { kind: 'text' }
+  },
+  checkin: {
+    frequency: { kind: 'text' },
+    what: { kind: 'text' },
+    notes: { kind: 'text' }
+  },
+  meditation: {
+    title: { kind: 'text', required: true },
+    duration: { kind: 'seconds', required: true },
+    description: { kind: 'text' }
+  }
+};
+
+const TYPE_CHAR = /[A-Za-z0-9_-]/;
+const KEY_CHAR = /\w/;
+const ESCAPABLE = ['"', ']', '\\', '|'];
+
+// Marker found in a text, with its position
+export type ScannedMarker = CoachingCardMarker & {
+  start: number;
+  end: number; // exclusive
+};
+
+type MarkerScan =
+  | { status: 'marker'; marker: ScannedMarker; errors: CardParseError[] }
+  | { status: 'malformed'; end: number; error: CardParseError }
+  | { status: 'incomplete' }
+  | { status: 'text' };
+
+/**
+ * Coaching Card Protocol
+ * Shared parser for the `[finish-start]…[finish-end]` block and the card markers in coaching replies
+ */
+export class CoachingCardProtocol {
+  /**
+   * Find every marker in the text, skipping malformed ones
+   * A marker cut off by the end of the text is reported as unterminated
+   */
+  static scan(text: string): { markers: ScannedMarker[]; errors: CardParseError[] } {
+    const markers: ScannedMarker[] = [];
+    const errors: CardParseError[] = [];
+    let index = text.indexOf('[');
+
+    while (index !== -1) {
+      const result = this.scanMarker(text, index);
+      let next = index + 1;
+
+      if (result.status === 'marker') {
+        markers.push(result.marker);
+        errors.push(...result.errors);
+        next = result.marker.end;
+      } else if (result.status === 'malformed') {
+        errors.push(result.error);
+        next = result.end;
+      } else if (result.status === 'incomplete') {
+        errors.push(this.error('unterminated-marker', 'Marker is not closed with "]"', index, text.slice(index)));
+        break;
+      }
+
+      index = text.indexOf('[', next);
+    }
+
+    return { markers, errors };
+  }
+
+  /**
+   * Cards in any content, e.g. a [checkin] card in the middle of a reply
+   * A bare marker (`[checkin]`) is superseded by a marker of the same type with props
+   */
+  static parseCards(content: string): CoachingCardMarker[] {
+    const { markers } = this.scan(this.isolateFinishTokens(content));
+    const cards: CoachingCardMarker[] = [];
+
+    for (const { type, props } of markers) {
+      if (!this.isCardType(type)) continue;
+
+      const existingIndex = cards.findIndex(card => card.type === type);
+      const hasProps = Object.keys(props).length > 0;
+
+      if (existingIndex === -1) {
+        cards.push({ type, props });
+      } else if (hasProps && Object.keys(cards[existingIndex].props).length === 0) {
+        cards[existingIndex] = { type, props };
+      }
+    }
+
+    return cards;
+  }
+
+  /**
+   * Cards of a completed session, found between the finish tokens
+   */
+  static parseCompletion(content: string): CoachingCompletionData & { errors: CardParseError[] } {
+    const startIndex = content.indexOf(FINISH_START_TOKEN);
+    const endIndex = startIndex === -1 ? -1 : content.indexOf(FINISH_END_TOKEN, startIndex);
+
+    if (startIndex === -1) {
+      return { components: [], rawData: '', errors: [] };
+    }
+
+    if (endIndex === -1) {
+      return {
+        components: [],
+        rawData: '',
+        errors: [this.error('unterminated-finish-block', `${FINISH_START_TOKEN} without ${FINISH_END_TOKEN}`, startIndex)]
+      };
+    }
+
+    const rawData = content.slice(startIndex + FINISH_START_TOKEN.length, endIndex).trim();
+    const { markers, errors } = this.scan(rawData);
+    const components: CoachingCardMarker[] = [];
+
+    for (const { type, props, start } of markers) {
+      if (!this.isCardType(type)) {
+        errors.push(this.error('unknown-card', `Unknown card type "${type}"`, start));
+        continue;
+      }
+
+      const { errors: cardErrors } = this.toCard({ type, props });
+      errors.push(...cardErrors.map(error => ({ ...error, offset: start })));
+      components.push({ type, props });
+    }
+
+    if (errors.length > 0) {
+      console.warn('⚠️ Malformed coaching completion markers:', errors);
+    }
+
+    return { components, rawData, errors };
+  }
+
+  /**
+   * Reply text to show the user: finish block and card markers removed
+   * An unclosed finish block hides everything after [finish-start]
+   */
+  static getDisplayContent(content: string): string {
+    let cleanContent = content;
+    const startIndex = cleanContent.indexOf(FINISH_START_TOKEN);
+    const endIndex = startIndex === -1 ? -1 : cleanContent.indexOf(FINISH_END_TOKEN, startIndex);
+
+    if (startIndex !== -1 && endIndex !== -1) {
+      const beforeFinish = cleanContent.slice(0, startIndex).trim();
+      const afterFinish = cleanContent.slice(endIndex + FINISH_END_TOKEN.length).trim();
+      cleanContent = beforeFinish + (afterFinish ? '\n\n' + afterFinish : '');
+    } else if (startIndex !== -1) {
+      cleanContent = cleanContent.slice(0, startIndex);
+    }
+
+    cleanContent = this.removeMarkers(cleanContent, false);
+
+    // Collapse the blank lines left behind by removed markers
+    return cleanContent.replace(/\n\s*\n\s*\n/g, '\n\n').trim();
+  }
+
+  /**
+   * Whether the content contains either finish token
+   */
+  static hasFinishToken(content: string): boolean {
+    return content.includes(FINISH_START_TOKEN) || content.includes(FINISH_END_TOKEN);
+  }
+
+  /**
+   * Validate a marker against its card schema and convert it to typed card data
+   */
+  static toCard(marker: CoachingCardMarker): { card: CoachingCard | null; errors: CardParseError[] } {
+    if (!this.isCardType(marker.type)) {
+      return { card: null, errors: [this.error('unknown-card', `Unknown card type "${marker.type}"`, 0)] };
+    }
+
+    const schema = CARD_SCHEMAS[marker.type];
+    const errors: CardParseError[] = [];
+    const card: Record<string, unknown> = { type: marker.type };
+
+    for (const [key, { kind, required }] of Object.entries(schema)) {
+      const value = marker.props[key];
+
+      if (value === undefined || value.trim() === '') {
+        if (required) {
+          errors.push(this.error('missing-prop', `${marker.type} card requires "${key}"`, 0));
+        }
+        continue;
+      }
+
+      if (kind === 'list') {
+        card[key] = this.splitList(value);
+      } else if (kind === 'seconds') {
+        const seconds = Number(value.trim());
+        if (!Number.isFinite(seconds) || seconds <= 0) {
+          errors.push(this.error('invalid-value', `${marker.type} card "${key}" must be a positive number of seconds`, 0));
+          continue;
+        }
+        card[key] = Math.round(seconds);
+      } else {
+        card[key] = this.unescapeListSeparators(value);
+      }
+    }
+
+    return { card: errors.length === 0 ? card as CoachingCard : null, errors };
+  }
+
+  /**
+   * Split a list value on unescaped `|`, dropping empty items
+   */
+  static splitList(value: string): string[] {
+    const items: string[] = [];
+    let current = '';
+
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === '\\' && value[i + 1] === '|') {
+        current += '|';
+        i++;
+      } else if (value[i] === '|') {
+        items.push(current);
+        current = '';
+      } else {
+        current += value[i];
+      }
+    }
+    items.push(current);
+
+    return items.map(item => item.trim()).filter(Boolean);
+  }
+
+  /**
+   * Serialize a marker, escaping values so they round-trip through the parser
+   */
+  static formatMarker(marker: CoachingCardMarker): string {
+    const props = Object.entries(marker.props)
+      .map(([key, value]) => `${key}="${value.replace(/\\(?!\|)/g, '\\\\').replace(/"/g, '\\"').replace(/]/g, '\\]')}"`);
+
+    return props.length > 0 ? `[${marker.type}:${props.join(',')}]` : `[${marker.type}]`;
+  }
+
+  /**
+   * Remove well-formed and malformed markers from text
+   * With `keepIncomplete`, a marker cut off at the end of the text is returned separately
+   */
+  static removeMarkers(text: string, keepIncomplete: true): { text: string; pending: string };
+  static removeMarkers(text: string, keepIncomplete: false): string;
+  static removeMarkers(text: string, keepIncomplete: boolean): string | { text: string; pending: string } {
+    let result = '';
+    let cursor = 0;
+    let pending = '';
+    let index = text.indexOf('[');
+
+    while (index !== -1) {
+      const scan = this.scanMarker(text, index);
+
+      if (scan.status === 'marker' || scan.status === 'malformed') {
+        const end = scan.status === 'marker' ? scan.marker.end : scan.end;
+        // Bare markers are only removed for known cards - "[sic]" stays readable
+        const isBareUnknown = scan.status === 'marker'
+          && Object.keys(scan.marker.props).length === 0
+          && !this.isCardType(scan.marker.type);
+
+        if (!isBareUnknown) {
+          result += text.slice(cursor, index);
+          cursor = end;
+        }
+        index = text.indexOf('[', end);
+        continue;
+      }
+
+      if (scan.status === 'incomplete') {
+        result += text.slice(cursor, index);
+        pending = text.slice(index);
+        cursor = text.length;
+        break;
+      }
+
+      index = text.indexOf('[', index + 1);
+    }
+
+    result += text.slice(cursor);
+
+    return keepIncomplete ? { text: result, pending } : result + pending;
+  }
+
+  static isCardType(type: string): type is CoachingCardType {
+    return (COACHING_CARD_TYPES as string[]).includes(type);
+  }
+
+  /**
+   * Scan a single marker starting at the `[` at `start`
+   */
+  private static scanMarker(text: string, start: number): MarkerScan {
+    let position = start + 1;
+
+    while (position < text.length && TYPE_CHAR.test(text[position])) {
+      position++;
+    }
+
+    const type = text.slice(start + 1, position);
+    if (position >= text.length) {
+      return { status: 'incomplete' };
+    }
+
+    if (type.length === 0 || (text[position] !== ']' && text[position] !== ':')) {
+      return { status: 'text' };
+    }
+
+    if (text[position] === ']') {
+      return { status: 'marker', marker: { type, props: {}, start, end: position + 1 }, errors: [] };
+    }
+
+    // Parameterized marker
+    const props: Record<string, string> = {};
+    const errors: CardParseError[] = [];
+    position++;
+
+    const malformed = (code: CardParseErrorCode, message: string): MarkerScan => {
+      const closing = this.findUnescapedClosingBracket(text, position);
+      if (closing === -1) {
+        return { status: 'incomplete' };
+      }
+      return {
+        status: 'malformed',
+        end: closing + 1,
+        error: this.error(code, message, start, text.slice(start, closing + 1))
+      };
+    };
+
+    while (true) {
+      while (position < text.length && /[\s,]/.test(text[position])) {
+        position++;
+      }
+      if (position >= text.length) return { status: 'incomplete' };
+
+      if (text[position] === ']') {
+        if (Object.keys(props).length === 0) {
+          return malformed('invalid-prop', `Marker "${type}" has a ":" but no props`);
+        }
+        return { status: 'marker', marker: { type, props, start, end: position + 1 }, errors };
+      }
+
+      const keyStart = position;
+      while (position < text.length && KEY_CHAR.test(text[position])) {
+        position++;
+      }
+      const key = text.slice(keyStart, position);
+      if (position >= text.length) return { status: 'incomplete' };
+
+      if (key.length === 0 || text[position] !== '=') {
+        return malformed('invalid-prop', `Expected key="value" in marker "${type}"`);
+      }
+      position++;
+      if (position >= text.length) return { status: 'incomplete' };
+
+      if (text[position] !== '"') {
+        return malformed('invalid-prop', `Value of "${key}" in marker "${type}" must be quoted`);
+      }
+      position++;
+
+      // Value up to the closing unescaped quote
+      let value = '';
+      let closed = false;
+      while (position < text.length) {
+        const char = text[position];
+
+        if (char === '\\') {
+          const escaped = text[position + 1];
+          if (escaped === undefined) break;
+
+          if (escaped === '|') {
+            value += '\\|'; // kept escaped for list splitting
+          } else if (ESCAPABLE.includes(escaped)) {
+            value += escaped;
+          } else {
+            errors.push(this.error('invalid-escape', `Unknown escape "\\${escaped}" in "${key}"`, start));
+            value += char + escaped;
+          }
+          position += 2;
+          continue;
+        }
+
+        if (char === '"') {
+          closed = true;
+          position++;
+          break;
+        }
+
+        value += char;
+        position++;
+      }
+
+      if (!closed) {
+        // The closing quote may still be streaming in
+        return { status: 'incomplete' };
+      }
+
+      if (key in props) {
+        errors.push(this.error('duplicate-prop', `Prop "${key}" appears more than once in marker "${type}"`, start));
+      }
+      props[key] = value;
+    }
+  }
+
+  /**
+   * Hide the finish tokens from the scanner so they are not read as cards
+   */
+  private static isolateFinishTokens(content: string): string {
+    return content.split(FINISH_START_TOKEN).join(' ').split(FINISH_END_TOKEN).join(' ');
+  }
+
+  private static findUnescapedClosingBracket(text: string, from: number): number {
+    for (let i = from; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+      } else if (text[i] === ']') {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private static unescapeListSeparators(value: string): string {
+    return value.replace(/\\\|/g, '|');
+  }
+
+  private static error(code: CardParseErrorCode, message: string, offset: number, marker?: string): CardParseError {
+    return { code, message, offset, ...(marker && { marker }) };
+  }
+}
+
+/**
+ * Incremental parser for streamed coaching replies
+ * Feed chunks as they arrive; markers are reported once they are complete and
+ * partial markers are held back from the display text until they close.
+ */
+export class CoachingCardStreamParser {
+  private buffer = '';
+  private emitted = 0;
+  private errors: CardParseError[] = [];
+
+  /**
+   * Append a chunk and return the markers completed by it
+   */
+  push(chunk: string): CoachingCardMarker[] {
+    this.buffer += chunk;
+    const completed: CoachingCardMarker[] = [];
+    const { markers, errors } = CoachingCardProtocol.scan(this.scannableText());
+
+    markers.slice(this.emitted).forEach(({ type, props }) => {
+      if (CoachingCardProtocol.isCardType(type)) {
+        completed.push({ type, props });
+      }
+    });
+    this.emitted = markers.length;
+    this.errors = errors.filter(error => error.code !== 'unterminated-marker');
+
+    return completed;
+  }
+
+  /**
+   * Whether the reply has reached its finish block
+   */
+  get finished(): boolean {
+    return this.buffer.includes(FINISH_START_TOKEN);
+  }
+
+  /**
+   * Everything received so far
+   */
+  get content(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Text that is safe to show while streaming
+   */
+  get displayText(): string {
+    const startIndex = this.buffer.indexOf(FINISH_START_TOKEN);
+    const visible = startIndex === -1 ? this.withoutPartialFinishToken(this.buffer) : this.buffer.slice(0, startIndex);
+    const { text } = CoachingCardProtocol.removeMarkers(visible, true);
+
+    return text.replace(/\n\s*\n\s*\n/g, '\n\n').trim();
+  }
+
+  /**
+   * Finish the stream and return the completion data plus all errors
+   */
+  end(): CoachingCompletionData & { cards: CoachingCardMarker[]; errors: CardParseError[] } {
+    const completion = CoachingCardProtocol.parseCompletion(this.buffer);
+    // Markers inside the finish block are already checked by parseCompletion
+    const startIndex = this.buffer.indexOf(FINISH_START_TOKEN);
+    const { errors } = CoachingCardProtocol.scan(startIndex === -1 ? this.buffer : this.buffer.slice(0, startIndex));
+
+    return {
+      components: completion.components,
+      rawData: completion.rawData,
+      cards: CoachingCardProtocol.parseCards(this.buffer),
+      errors: [...errors, ...completion.errors]
+    };
+  }
+
+  /**
+   * Parse errors of the markers completed so far
+   */
+  get parseErrors(): CardParseError[] {
+    return this.errors;
+  }
+
+  private scannableText(): string {
+    return this.buffer.split(FINISH_START_TOKEN).join(' ').split(FINISH_END_TOKEN).join(' ');
+  }
+
+  // Hold back a trailing "[fini" that may become [finish-start]
+  private withoutPartialFinishToken(text: string): string {
+    for (let length = FINISH_START_TOKEN.length - 1; length > 0; length--) {
+      if (text.endsWith(FINISH_START_TOKEN.slice(0, length))) {
+        return text.slice(0, text.length - length);
+      }
+    }
+    return text;
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  AssembledContext,
+  RelatedEntryMatch,
+  CoachingSessionTranscript,
+  ContextAssemblyInput,
+  ContextItemKind,
+  ContextItemReport
+} from '@/types/coaching';
+import { JournalEntry } from '@/types/journal';
+import { userInsight } from '@/types/insights';
+import { htmlToPlainText, extractTerms } from '@/lib/plainText';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+
+// The current entry and linked sessions may use at most these shares of the budget
+const CURRENT_ENTRY_MAX_SHARE = 0.5;
+const COACHING_SESSIONS_MAX_SHARE = 0.3;
+const RELATED_ENTRIES_MAX_SHARE = 0.25;
+// Items that would be cut below this size are dropped instead
+const MIN_ITEM_TOKENS = 40;
+// Recency half-life used when ranking older entries
+const RECENCY_HALF_LIFE_DAYS = 14;
+
+type ContextItem = {
+  kind: ContextItemKind;
+  id: string;
+  full: string;
+  overheadTokens?: number; // wrapper tokens added when the item is formatted
+  // Shorter version fitting in maxTokens, or null if the item cannot be shortened that far
+  shorten: (maxTokens: number) => string | null;
+};
+
+/**
+ * Coaching Context Assembler
+ * Fits the coaching context into a token budget, shared by the server
+ * (CoachingContextBuilder) and the app (AICoachingService).
+ *
+ * Priority: current entry, linked coaching sessions, insights, retrieved
+ * related entries, then recent entries ranked by relevance to the current entry. Items that don't fit are
+ * truncated or summarized, and everything dropped is listed in the report.
+ */
+export class CoachingContextAssembler {
+  /**
+   * Rough token estimate (~4 characters per token)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Assemble the context within the given token budget
+   */
+  static assemble(input: ContextAssemblyInput, tokenBudget: number = DEFAULT_CONTEXT_TOKEN_BUDGET): AssembledContext {
+    const items: ContextItemReport[] = [];
+    const dropped: ContextItemReport[] = [];
+    let remaining = tokenBudget;
+
+    const place = (item: ContextItem, maxTokens: number = remaining): string | null => {
+      const overhead = item.overheadTokens || 0;
+      const originalTokens = overhead + this.estimateTokens(item.full);
+      const limit = Math.min(maxTokens, remaining);
+      let text: string | null = item.full;
+      let status: ContextItemReport['status'] = 'full';
+
+      if (originalTokens > limit) {
+        text = limit >= MIN_ITEM_TOKENS ? item.shorten(limit - overhead) : null;
+        status = 'truncated';
+      }
+
+      if (text === null || overhead + this.estimateTokens(text) > limit) {
+        dropped.push({ kind: item.kind, id: item.id, status: 'dropped', originalTokens, usedTokens: 0 });
+        return null;
+      }
+
+      const usedTokens = overhead + this.estimateTokens(text);
+      remaining -= usedTokens;
+      items.push({ kind: item.kind, id: item.id, status, originalTokens, usedTokens });
+      return text;
+    };
+
+    // 1. Current entry - always kept, truncated to its share of the budget
+    const currentText = htmlToPlainText(input.entryContent);
+    const entryContent = place({
+      kind: 'current-entry',
+      id: input.entryId,
+      full: currentText,
+      shorten: maxTokens => this.truncate(currentText, maxTokens)
+    }, Math.max(MIN_ITEM_TOKENS, Math.floor(tokenBudget * CURRENT_ENTRY_MAX_SHARE))) ?? '';
+
+    // 2. Coaching sessions linked to the current entry
+    const sessionBlocks: string[] = [];
+    let sessionBudget = Math.floor(tokenBudget * COACHING_SESSIONS_MAX_SHARE);
+
+    for (const session of input.coachingSessions || []) {
+      const before = remaining;
+      const block = place(this.sessionItem(session), sessionBudget);
+      sessionBudget -= before - remaining;
+
+      if (block) {
+        sessionBlocks.push(block);
+      }
+    }
+
+    // 3. Latest insights
+    const insightsBlock = input.insights ? place(this.insightsItem(input.insights)) : null;
+
+    // 4. Related entries retrieved from the user's whole history
+    const relatedBlocks: string[] = [];
+    let relatedBudget = Math.floor(tokenBudget * RELATED_ENTRIES_MAX_SHARE);
+
+    for (const match of input.relatedEntries || []) {
+      const content = htmlToPlainText(match.entry.content);
+      const before = remaining;
+      const placed = place({
+        kind: 'related-entry',
+        id: match.entry.id,
+        full: content,
+        overheadTokens: this.estimateTokens(this.formatRelatedEntry(match, '')),
+        shorten: maxTokens => this.truncate(content, maxTokens)
+      }, relatedBudget);
+      relatedBudget -= before - remaining;
+
+      if (placed) {
+        relatedBlocks.push(this.formatRelatedEntry(match, placed));
+      }
+    }
+
+    // 5. Recent entries, most relevant first
+    const relatedIds = new Set((input.relatedEntries || []).map(match => match.entry.id));
+    const rankedEntries = this.rankEntries(
+      currentText,
+      input.entries.filter(entry => entry.id !== input.entryId && !relatedIds.has(entry.id))
+    );
+    const placedEntries: Array<{ entry: JournalEntry; content: string }> = [];
+
+    for (const entry of rankedEntries) {
+      const content = htmlToPlainText(entry.content);
+      const placed = place({
+        kind: 'entry',
+        id: entry.id,
+        full: content,
+        overheadTokens: this.estimateTokens(this.formatEntry(entry, '', 10)),
+        shorten: maxTokens => this.truncate(content, maxTokens)
+      });
+
+      if (placed) {
+        placedEntries.push({ entry, content: placed });
+      }
+    }
+
+    // Present included entries chronologically (newest first)
+    const formattedRecentEntries = placedEntries.length === 0
+      ? 'No recent entries available.'
+      : placedEntries
+        .sort((a, b) => b.entry.timestamp.getTime() - a.entry.timestamp.getTime())
+        .map(({ entry, content }, index) => this.formatEntry(entry, content, index + 1))
+        .join('\n\n');
+
+    if (dropped.length > 0) {
+      console.log(`✂️ Coaching context over budget - dropped ${dropped.length} items:`, dropped.map(item => `${item.kind}:${item.id}`).join(', '));
+    }
+
+    return {
+      entryContent,
+      formattedRecentEntries,
+      ...(insightsBlock && { formattedInsights: insightsBlock }),
+      ...(sessionBlocks.length > 0 && { formattedCoachingSessions: sessionBlocks.join('\n\n') }),
+      ...(relatedBlocks.length > 0 && { formattedRelatedEntries: ['<related-entries>', ...relatedBlocks, '</related-entries>'].join('\n') }),
+      report: {
+        tokenBudget,
+        usedTokens: tokenBudget - remaining,
+        items,
+        dropped
+      }
+    };
+  }
+
+  /**
+   * Rank entries by word overlap with the current entry, weighted by recency
+   */
+  private static rankEntries(currentText: string, entries: JournalEntry[]): JournalEntry[] {
+    const currentTerms = new Set(extractTerms(currentText));
+    const now = Date.now();
+
+    const scored = entries.map(entry => {
+      const terms = new Set(extractTerms(htmlToPlainText(entry.content)));
+      let overlap = 0;
+      terms.forEach(term => {
+        if (currentTerms.has(term)) overlap++;
+      });
+
+      const relevance = currentTerms.size > 0 && terms.size > 0
+        ? overlap / Math.sqrt(currentTerms.size * terms.size)
+        : 0;
+      const ageDays = Math.max(0, now - entry.timestamp.getTime()) / (1000 * 60 * 60 * 24);
+      const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+      return { entry, score: relevance * 0.7 + recency * 0.3 };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Cut text to roughly maxTokens, preferring a sentence boundary
+   */
+  private static truncate(text: string, maxTokens: number): string | null {
+    if (maxTokens <= 0) return null;
+
+    const maxChars = maxTokens * 4 - 1; // leave room for the ellipsis
+    if (text.length <= maxChars) return text;
+
+    const cut = text.slice(0, maxChars);
+    const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '));
+    const truncated = sentenceEnd > maxChars * 0.5 ? cut.slice(0, sentenceEnd + 1) : cut;
+
+    return `${truncated.trimEnd()}…`;
+  }
+
+  private static sessionItem(session: CoachingSessionTranscript): ContextItem {
+    const format = (messages: CoachingSessionTranscript['messages'], omitted: number) => [
+      `<coaching-session id="${session.id}" type="${session.sessionType}">`,
+      ...(omitted > 0 ? [`(${omitted} earlier messages omitted)`] : []),
+      ...messages.map(message => `${message.role === 'user' ? 'Client' : 'Coach'}: ${message.content}`),
+      '</coaching-session>'
+    ].join('\n');
+
+    return {
+      kind: 'coaching-session',
+      id: session.id,
+      full: format(session.messages, 0),
+      // Summarize by keeping only the most recent messages that fit
+      shorten: maxTokens => {
+        for (let keep = session.messages.length - 1; keep > 0; keep--) {
+          const text = format(session.messages.slice(-keep), session.messages.length - keep);
+          if (this.estimateTokens(text) <= maxTokens) return text;
+        }
+        return null;
+      }
+    };
+  }
+
+  private static insightsItem(insights: userInsight): ContextItem {
+    const sections = InsightCategoryRegistry.getSectionKeys(insights).flatMap(key => {
+      const insight = InsightCategoryRegistry.getSection(insights, key);
+      return insight?.headline ? [{ label: InsightCategoryRegistry.get(key).label, insight }] : [];
+    });
+
+    const format = (withDescriptions: boolean) => [
+      '<insights>',
+      ...sections.map(({ label, insight }) => withDescriptions && insight.description
+        ? `${label}: ${insight.headline} - ${insight.description}`
+        : `${label}: ${insight.headline}`),
+      '</insights>'
+    ].join('\n');
+
+    return {
+      kind: 'insights',
+      id: 'userInsights',
+      full: format(true),
+      // Summarize to headlines only
+      shorten: maxTokens => {
+        const headlines = format(false);
+        return this.estimateTokens(headlines) <= maxTokens ? headlines : null;
+      }
+    };
+  }
+
+  /**
+   * Format a single entry with date calculation
+   */
+  private static formatEntry(entry: JournalEntry, content: string, index: number): string {
+    const daysAgo = this.calculateDaysAgo(entry.timestamp);
+    const dateString = entry.timestamp.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+
+    return `<entry-${index}>
+written on: ${dateString} (${daysAgo})
+content: ${content}
+</entry-${index}>`;
+  }
+
+  /**
+   * Format an entry retrieved from the user's history
+   */
+  private static formatRelatedEntry(match: RelatedEntryMatch, content: string): string {
+    const dateString = match.entry.timestamp.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+
+    return `<related-entry written-on="${dateString} (${this.calculateDaysAgo(match.entry.timestamp)})" relevance="${match.score}">
+${content}
+</related-entry>`;
+  }
+
+  /**
+   * Calculate how many days ago a date was
+   */
+  private static calculateDaysAgo(date: Date): string {
+    const now = new Date();
+    const diffTime = Math.abs(now.getTime() - date.getTime());
+    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+
+    if (diffDays === 0) {
+      return 'today';
+    } else if (diffDays === 1) {
+      return '1 day ago';
+    } else {
+      return `${diffDays} days ago`;
+    }
+  }
+}
@@ -1,6 +1,13 @@
-import { CoachingInteractionRequest, CoachingContext } from '@/types/coaching';
+import { CoachingInteractionRequest, CoachingContext, CoachingSessionTranscript, EmbeddingProvider, RelatedEntryMatch } from '@/types/coaching';
 import { FirestoreAdminService } from '@/services/firestoreAdminService';
 import { JournalEntry } from '@/types/journal';
+import { CoachingContextAssembler, DEFAULT_CONTEXT_TOKEN_BUDGET } from './contextAssembler';
+import { EntryIndex } from './retrieval/entryIndex';
+
+// Candidate entries handed to the assembler, which picks the most relevant ones
+const CANDIDATE_ENTRY_LIMIT = 30;
+// Older entries retrieved from the whole history
+const RELATED_ENTRY_LIMIT = 5;
 
 /**
  * Coaching Context Builder
@@ -10,75 +17,94 @@ import { JournalEntry } from '@/types/journal';
  * with request data to create context for AI coaching prompts.
  */
 export class CoachingContextBuilder {
+  private static embeddingProvider: EmbeddingProvider | null = null;
+
+  /**
+   * Use embeddings for related entry retrieval (BM25 is used when unset)
+   */
+  static setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+    this.embeddingProvider = provider;
+  }
+
   /**
    * Build coaching context from request and user data
    */
-  static async buildContext(request: CoachingInteractionRequest, userId: string): Promise<CoachingContext> {
+  static async buildContext(
+    request: CoachingInteractionRequest,
+    userId: string,
+    tokenBudget: number = DEFAULT_CONTEXT_TOKEN_BUDGET
+  ): Promise<CoachingContext> {
     const userAccount = await FirestoreAdminService.getUserAccount(userId);
     const alignment = userAccount?.alignment || "Not specified";
     
-    const recentEntries = await FirestoreAdminService.getRecentJournalEntries(userId, 10);
-    const formattedRecentEntries = this.formatRecentEntries(recentEntries);
+    const recentEntries = await FirestoreAdminService.getRecentJournalEntries(userId, CANDIDATE_ENTRY_LIMIT);
+    const insights = await FirestoreAdminService.getUserInsights(userId);
+    const coachingSessions = await this.getLinkedCoachingSessions(request.entryId, recentEntries);
+    const relatedEntries = await this.getRelatedEntries(userId, request, recentEntries);
     
     // Get total entry count for routing logic
     const entryCount = await FirestoreAdminService.getUserEntryCount(userId);
+
+    const assembled = CoachingContextAssembler.assemble({
+      entryId: request.entryId,
+      entryContent: request.entryContent,
+      entries: recentEntries,
+      coachingSessions,
+      insights,
+      relatedEntries
+    }, tokenBudget);
     
     return {
       entryId: request.entryId,
-      entryContent: request.entryContent,
+      entryContent: assembled.entryContent,
       userAlignment: alignment,
       recentEntries,
-      formattedRecentEntries,
+      formattedRecentEntries: assembled.formattedRecentEntries,
+      formattedInsights: assembled.formattedInsights,
+      formattedCoachingSessions: assembled.formattedCoachingSessions,
+      formattedRelatedEntries: assembled.formattedRelatedEntries,
+      contextReport: assembled.report,
       userId,
-      entryCount
+      entryCount,
+      coachingConfig: userAccount?.coachingConfig,
+      onboardingData: userAccount?.onboardingData
     };
   }
 
   /**
-   * Format recent entries in XML-like structure
+   * Load the coaching session linked to the current entry, if any
    */
-  private static formatRecentEntries(entries: JournalEntry[]): string {
-    if (entries.length === 0) {
-      return 'No recent entries available.';
+  private static async getLinkedCoachingSessions(entryId: string, entries: JournalEntry[]): Promise<CoachingSessionTranscript[]> {
+    const sessionId = entries.find(entry => entry.id === entryId)?.linkedCoachingSessionId;
+    if (!sessionId) {
+      return [];
     }
 
-    return entries
-      .map((entry, index) => this.formatEntry(entry, index + 1))
-      .join('\n\n');
+    const session = await FirestoreAdminService.getCoachingSession(sessionId);
+    return session ? [session] : [];
   }
 
   /**
-   * Format a single entry with date calculation
+   * Retrieve older entries relevant to the current one from the user's whole history
+   * Recent entries are excluded since they are already part of the context
    */
-  private static formatEntry(entry: JournalEntry, index: number): string {
-    const daysAgo = this.calculateDaysAgo(entry.timestamp);
-    const dateString = entry.timestamp.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  private static async getRelatedEntries(userId: string, request: CoachingInteractionRequest, recentEntries: JournalEntry[]): Promise<RelatedEntryMatch[]> {
+    try {
+      const allEntries: JournalEntry[] = await FirestoreAdminService.getUserEntries(userId);
+      if (allEntries.length <= recentEntries.length) {
+        return [];
+      }
 
-    return `<entry-${index}>
-written on: ${dateString} (${daysAgo})
-content: ${entry.content}
-</entry-${index}>`;
-  }
-
-  /**
-   * Calculate how many days ago a date was
-   */
-  private static calculateDaysAgo(date: Date): string {
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - date.getTime());
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+      const index = EntryIndex.forUser(userId, this.embeddingProvider);
+      index.upsert(allEntries);
 
-    if (diffDays === 0) {
-      return 'today';
-    } else if (diffDays === 1) {
-      return '1 day ago';
-    } else {
-      return `${diffDays} days ago`;
+      return await index.search(request.entryContent, {
+        limit: RELATED_ENTRY_LIMIT,
+        excludeIds: [request.entryId, ...recentEntries.map(entry => entry.id)]
+      });
+    } catch (error) {
+      console.error('Error retrieving related entries:', error);
+      return [];
     }
   }
-}
\ No newline at end of file
+}
@@ -2,21 +2,23 @@
 export { CoachingContextBuilder } from './contextBuilder';
 
 // Multi-model coaching system
+// Client code should import from './modelRegistry' and './models' directly -
+// this entry point also pulls in the server-only context builder.
 export { ModelRegistry } from './modelRegistry';
-export { GeneralCoachingModel } from './models/generalCoachingModel/generalCoachingModel';
-export { BiggestStruggleModel } from './models/biggestStruggle/biggestStruggle';
+export { GeneralCoachingModel, BiggestStruggleModel, registerCoachingModels } from './models';
+export { SessionProgramRegistry, DEFAULT_SESSION_TYPE } from './sessionPrograms';
+export { InsightConstraints } from './insightConstraints';
+export { SourceReferences } from './sourceReferences';
+export { SessionTimeBox } from './sessionTimeBox';
 
 /**
  * Initialize all coaching models
  * Call this function to register all available models
  */
 export async function initializeCoachingModels() {
-  const { ModelRegistry } = await import('./modelRegistry');
-  const { GeneralCoachingModel } = await import('./models/generalCoachingModel/generalCoachingModel');
-  const { BiggestStruggleModel } = await import('./models/biggestStruggle/biggestStruggle');
+  const { registerCoachingModels } = await import('./models');
 
-  ModelRegistry.register(new GeneralCoachingModel());
-  ModelRegistry.register(new BiggestStruggleModel());
+  registerCoachingModels();
   
   console.log('🎯 Coaching models initialized');
-}
\ No newline at end of file
+}
@@ -0,0 +1,152 @@
+import {
+  insightExtractionConstraints,
+  insightSectionEdit,
+  insightSectionKey,
+  userInsight
+} from '@/types/insights';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+
+/**
+ * Insight Constraints
+ * The user's edits, pins and rejections of insight sections, applied on the device when
+ * the user changes a section and again once a new extraction comes in.
+ */
+export class InsightConstraints {
+  /**
+   * The user's edit state of a section
+   */
+  static getEdit(insight: userInsight, section: insightSectionKey): insightSectionEdit {
+    return insight.userEdits?.[section] || { pinned: false, editedByUser: false, rejectedHeadlines: [], updatedAt: 0 };
+  }
+
+  /**
+   * Rewrite a section in the user's words
+   */
+  static edit(
+    insight: userInsight,
+    section: insightSectionKey,
+    text: { headline: string; description: string },
+    now: number = Date.now()
+  ): Partial<userInsight> {
+    const current = InsightCategoryRegistry.getSection(insight, section);
+
+    return {
+      ...InsightCategoryRegistry.withSection(insight, section, {
+        sources: [],
+        ...current,
+        headline: text.headline.trim(),
+        description: text.description.trim(),
+        updatedAt: now
+      }),
+      userEdits: this.withEdit(insight, section, { editedByUser: true, updatedAt: now })
+    };
+  }
+
+  /**
+   * Pin or unpin a section - pinned sections survive future extractions unchanged
+   */
+  static setPinned(insight: userInsight, section: insightSectionKey, pinned: boolean, now: number = Date.now()): Partial<userInsight> {
+    return {
+      userEdits: this.withEdit(insight, section, { pinned, updatedAt: now })
+    };
+  }
+
+  /**
+   * Turn down the current suggestion of a section
+   * The section is cleared until the next extraction, which won't suggest the same headline again
+   */
+  static reject(insight: userInsight, section: insightSectionKey, now: number = Date.now()): Partial<userInsight> {
+    const edit = this.getEdit(insight, section);
+    const headline = InsightCategoryRegistry.getSection(insight, section)?.headline?.trim();
+
+    return {
+      ...InsightCategoryRegistry.withSection(insight, section, { headline: '', description: '', sources: [], updatedAt: now }),
+      userEdits: this.withEdit(insight, section, {
+        pinned: false,
+        editedByUser: false,
+        rejectedHeadlines: headline && !this.isRejected(edit, headline)
+          ? [...edit.rejectedHeadlines, headline]
+          : edit.rejectedHeadlines,
+        updatedAt: now
+      })
+    };
+  }
+
+  /**
+   * Constraints to send to the insight extractor
+   */
+  static fromInsight(insight: userInsight | null): insightExtractionConstraints {
+    const constraints: insightExtractionConstraints = { pinned: [], edited: [], rejected: [] };
+    if (!insight) return constraints;
+
+    InsightCategoryRegistry.getSectionKeys(insight).forEach(section => {
+      const edit = this.getEdit(insight, section);
+      const stored = InsightCategoryRegistry.getSection(insight, section);
+      const current = {
+        section,
+        headline: stored?.headline || '',
+        description: stored?.description || ''
+      };
+
+      if (edit.pinned && current.headline) {
+        constraints.pinned.push(current);
+      } else if (edit.editedByUser && current.headline) {
+        constraints.edited.push(current);
+      }
+
+      if (edit.rejectedHeadlines.length > 0) {
+        constraints.rejected.push({ section, headlines: edit.rejectedHeadlines });
+      }
+    });
+
+    return constraints;
+  }
+
+  /**
+   * Merge a new extraction into the current insights so the constraints hold even if the model ignored them
+   */
+  static apply(current: userInsight | null, extracted: userInsight): userInsight {
+    if (!current) return extracted;
+
+    let merged: userInsight = {
+      ...extracted,
+      // Categories the extraction left out keep their current state
+      categories: { ...current.categories, ...extracted.categories },
+      ...(current.userEdits && { userEdits: { ...current.userEdits } })
+    };
+
+    InsightCategoryRegistry.getSectionKeys(merged).forEach(section => {
+      const edit = this.getEdit(current, section);
+      const currentSection = InsightCategoryRegistry.getSection(current, section);
+      const headline = InsightCategoryRegistry.getSection(extracted, section)?.headline?.trim() || '';
+
+      if ((edit.pinned || (headline && this.isRejected(edit, headline))) && currentSection) {
+        merged = { ...merged, ...InsightCategoryRegistry.withSection(merged, section, currentSection) };
+        return;
+      }
+
+      // A new headline replaces the user's wording, so it's no longer theirs
+      if (edit.editedByUser && headline !== (currentSection?.headline || '').trim()) {
+        merged.userEdits = { ...merged.userEdits, [section]: { ...edit, editedByUser: false } };
+      }
+    });
+
+    return merged;
+  }
+
+  private static isRejected(edit: insightSectionEdit, headline: string): boolean {
+    const normalized = headline.trim().toLowerCase();
+    return edit.rejectedHeadlines.some(rejected => rejected.trim().toLowerCase() === normalized);
+  }
+
+  private static withEdit(
+    insight: userInsight,
+    section: insightSectionKey,
+    changes: Partial<insightSectionEdit>
+  ): Partial<Record<insightSectionKey, insightSectionEdit>> {
+    return {
+      ...insight.userEdits,
+      [section]: { ...this.getEdit(insight, section), ...changes }
+    };
+  }
+}
@@ -1,8 +1,12 @@
-import { CoachingModel, CoachingContext, ModelRoutingDecision } from '@/types/coaching';
+import { CoachingModel, CoachingContext, ModelRoutingDecision, ModelRoutingCandidate, ModelRoutingReport, RoutingSignals } from '@/types/coaching';
+import { buildRoutingSignals, scoreRoutingProfile } from './routing';
 
 /**
  * Central registry for all coaching models
  * Manages model registration, discovery, and routing
+ *
+ * Routing is declarative: each model exposes a routing profile (base score plus
+ * weighted rules) and the registry only combines the scores.
  */
 export class ModelRegistry {
   private static models: Map<string, CoachingModel> = new Map();
@@ -30,46 +34,78 @@ export class ModelRegistry {
     return Array.from(this.models.values());
   }
 
+  /**
+   * Score every registered model against the context, best first
+   * Models whose canHandle() rejects the context are kept but marked ineligible
+   */
+  static rankModels(context: CoachingContext, now: Date = new Date()): ModelRoutingCandidate[] {
+    const signals = buildRoutingSignals(context, now);
+    return this.scoreModels(context, signals);
+  }
+
   /**
    * Find the best model for a given context
    */
-  static routeToModel(context: CoachingContext): ModelRoutingDecision {
-    const candidates: ModelRoutingDecision[] = [];
+  static routeToModel(context: CoachingContext, now: Date = new Date()): ModelRoutingDecision {
+    const decision = this.decide(this.rankModels(context, now));
+
+    if (!decision) {
+      throw new Error('No suitable coaching model found for the given context');
+    }
+
+    return decision;
+  }
+
+  /**
+   * Evaluate routing without throwing, for debugging why a model was chosen
+   */
+  static dryRun(context: CoachingContext, now: Date = new Date()): ModelRoutingReport {
+    const signals = buildRoutingSignals(context, now);
+    const candidates = this.scoreModels(context, signals);
+
+    return {
+      signals,
+      candidates,
+      decision: this.decide(candidates)
+    };
+  }
+
+  private static scoreModels(context: CoachingContext, signals: RoutingSignals): ModelRoutingCandidate[] {
+    const candidates: ModelRoutingCandidate[] = [];
 
-    // Evaluate each model
     for (const model of this.models.values()) {
-      if (model.canHandle(context)) {
-        const info = model.getInfo();
-        
-        // Simple routing logic for now - can be extended
-        let confidence = 0.5; // Base confidence
-        let reason = `Model ${info.name} can handle this context`;
-
-        // Entry count based routing
-        if (info.id === 'biggest-struggle' && context.entryCount === 1) {
-          confidence = 0.9;
-          reason = `Very first entry (${context.entryCount} entries) - using Biggest Struggle`;
-        } else if (info.id === 'general-coaching' && context.entryCount >= 2) {
-          confidence = 0.8;
-          reason = `Experienced user with ${context.entryCount} entries - using General Coaching`;
-        }
-
-        candidates.push({
-          modelId: info.id,
-          reason,
-          confidence
-        });
-      }
+      const info = model.getInfo();
+      const { confidence, reasons } = scoreRoutingProfile(model.getRoutingProfile(), signals);
+
+      candidates.push({
+        modelId: info.id,
+        eligible: model.canHandle(context),
+        confidence,
+        reasons
+      });
     }
 
-    // Sort by confidence and return the best match
-    candidates.sort((a, b) => b.confidence - a.confidence);
-    
-    if (candidates.length === 0) {
-      throw new Error('No suitable coaching model found for the given context');
+    // Eligible models first, then by confidence
+    return candidates.sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.confidence - a.confidence);
+  }
+
+  private static decide(candidates: ModelRoutingCandidate[]): ModelRoutingDecision | null {
+    const eligible = candidates.filter(candidate => candidate.eligible);
+    const best = eligible[0];
+
+    if (!best) {
+      return null;
     }
 
-    return candidates[0];
+    const model = this.models.get(best.modelId)!;
+    return {
+      modelId: best.modelId,
+      reason: best.reasons.length > 0
+        ? `${model.getInfo().name}: ${best.reasons.join(', ')}`
+        : `Model ${model.getInfo().name} can handle this context`,
+      confidence: best.confidence,
+      candidates: eligible
+    };
   }
 
   /**
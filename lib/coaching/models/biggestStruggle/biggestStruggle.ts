@@ -1,6 +1,7 @@
-import { CoachingModel, CoachingContext, ModelInfo } from '@/types/coaching';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { CoachingModel, CoachingContext, ModelInfo, RoutingProfile, PromptAsset } from '@/types/coaching';
+import { PromptLibrary } from '../../prompts';
+import { buildPersonalizationPrompt } from '../../personalization';
+import promptAsset from './prompts';
 
 /**
  * Biggest Struggle Model
@@ -8,8 +9,6 @@ import { join } from 'path';
  * Guides users through exploring and working with their biggest struggles
  */
 export class BiggestStruggleModel implements CoachingModel {
-  private static readonly PROMPTS_DIR = join(process.cwd(), 'src/lib/coaching/models/biggestStruggle/prompts');
-
   getInfo(): ModelInfo {
     return {
       id: 'biggest-struggle',
@@ -24,34 +23,41 @@ export class BiggestStruggleModel implements CoachingModel {
     return context.entryCount === 1;
   }
 
-  /**
-   * Read prompt file content
-   */
-  private readPromptFile(filename: string): string {
-    try {
-      const filePath = join(BiggestStruggleModel.PROMPTS_DIR, filename);
-      return readFileSync(filePath, 'utf-8').trim();
-    } catch (error) {
-      console.error(`Error reading Biggest Struggle prompt file ${filename}:`, error);
-      throw new Error(`Failed to load Biggest Struggle prompt file: ${filename}`);
-    }
+  getRoutingProfile(): RoutingProfile {
+    return {
+      baseScore: 0.5,
+      rules: [
+        {
+          id: 'first-entry',
+          description: 'Very first entry',
+          weight: 0.4,
+          matches: signals => signals.entryCount === 1
+        },
+        {
+          id: 'struggle-topics',
+          description: 'Entry mentions stress or feeling stuck',
+          weight: 0.05,
+          matches: signals => signals.topics.includes('stress') || signals.topics.includes('stuck')
+        },
+        {
+          id: 'wants-challenge',
+          description: 'User asked to be challenged',
+          weight: 0.05,
+          matches: signals => signals.coachingConfig?.challengeDegree === 'challenging' || signals.coachingConfig?.challengeDegree === 'intense'
+        }
+      ]
+    };
+  }
+
+  getPromptAsset(): PromptAsset {
+    return promptAsset;
   }
 
-  generateSystemPrompt(): string {
-    const role = this.readPromptFile('role.md');
-    const task = this.readPromptFile('task.md');
-    const output = this.readPromptFile('output.md');
-    const behavior = this.readPromptFile('behavior.md');
+  generateSystemPrompt(context?: CoachingContext): string {
+    const systemPrompt = PromptLibrary.getSystemPrompt(promptAsset);
+    const personalization = buildPersonalizationPrompt(context);
 
-    return [
-      role,
-      '',
-      task,
-      '',
-      output,
-      '',
-      behavior
-    ].join('\n');
+    return personalization ? `${systemPrompt}\n\n${personalization}` : systemPrompt;
   }
 
   generateContextMessage(context: CoachingContext): string {
@@ -67,12 +73,22 @@ Current Entry: ${context.entryContent}`;
       contextMessage += `\n\nTheir stated life priority: ${context.userAlignment}`;
     }
 
+    // Add coaching sessions linked to this entry
+    if (context.formattedCoachingSessions) {
+      contextMessage += `\n\nCoaching sessions linked to this entry:\n${context.formattedCoachingSessions}`;
+    }
+
     // Add recent entries if they exist
-    if (context.recentEntries.length > 0) {
+    if (context.recentEntries && context.recentEntries.length > 0) {
       contextMessage += `\n\nPrevious entries for context:
 ${context.formattedRecentEntries}`;
     }
 
+    // Add older entries related to the current one
+    if (context.formattedRelatedEntries) {
+      contextMessage += `\n\nOlder entries related to the current one:\n${context.formattedRelatedEntries}`;
+    }
+
     contextMessage += `\n\nGuide them through exploring their biggest struggle. Help them understand what they're facing, why it matters, and how to begin working with it constructively.`;
 
     return contextMessage;
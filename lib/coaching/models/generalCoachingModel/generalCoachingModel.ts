@@ -1,6 +1,7 @@
-import { CoachingModel, CoachingContext, ModelInfo } from '@/types/coaching';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { CoachingModel, CoachingContext, ModelInfo, RoutingProfile, PromptAsset } from '@/types/coaching';
+import { PromptLibrary } from '../../prompts';
+import { buildPersonalizationPrompt } from '../../personalization';
+import promptAsset from './prompts';
 
 /**
  * General Coaching Model
@@ -8,8 +9,6 @@ import { join } from 'path';
  * Provides contextual reflection questions and actionable guidance for founders
  */
 export class GeneralCoachingModel implements CoachingModel {
-  private static readonly PROMPTS_DIR = join(process.cwd(), 'src/lib/coaching/models/generalCoachingModel/prompts');
-
   getInfo(): ModelInfo {
     return {
       id: 'general-coaching',
@@ -24,44 +23,70 @@ export class GeneralCoachingModel implements CoachingModel {
     return context.entryCount >= 2;
   }
 
-  /**
-   * Read prompt file content
-   */
-  private readPromptFile(filename: string): string {
-    try {
-      const filePath = join(GeneralCoachingModel.PROMPTS_DIR, filename);
-      return readFileSync(filePath, 'utf-8').trim();
-    } catch (error) {
-      console.error(`Error reading prompt file ${filename}:`, error);
-      throw new Error(`Failed to load prompt file: ${filename}`);
-    }
+  getRoutingProfile(): RoutingProfile {
+    return {
+      baseScore: 0.5,
+      rules: [
+        {
+          id: 'established-journaler',
+          description: 'Established journaler with 2+ entries',
+          weight: 0.3,
+          matches: signals => signals.entryCount >= 2
+        },
+        {
+          id: 'active-streak',
+          description: 'Wrote within the last 3 days',
+          weight: 0.05,
+          matches: signals => signals.daysSinceLastEntry !== null && signals.daysSinceLastEntry <= 3
+        },
+        {
+          id: 'planning-topics',
+          description: 'Entry is about goals or decisions',
+          weight: 0.05,
+          matches: signals => signals.topics.includes('goals') || signals.topics.includes('decision')
+        },
+        {
+          id: 'evening-reflection',
+          description: 'Evening reflection time',
+          weight: 0.05,
+          matches: signals => signals.timeOfDay === 'evening'
+        }
+      ]
+    };
   }
 
-  generateSystemPrompt(): string {
-    const role = this.readPromptFile('role.md');
-    const task = this.readPromptFile('task.md');
-    const output = this.readPromptFile('output.md');
-    const behavior = this.readPromptFile('behavior.md');
+  getPromptAsset(): PromptAsset {
+    return promptAsset;
+  }
+
+  generateSystemPrompt(context?: CoachingContext): string {
+    const systemPrompt = PromptLibrary.getSystemPrompt(promptAsset);
+    const personalization = buildPersonalizationPrompt(context);
 
-    return [
-      role,
-      '',
-      task,
-      '',
-      output,
-      '',
-      behavior
-    ].join('\n');
+    return personalization ? `${systemPrompt}\n\n${personalization}` : systemPrompt;
   }
 
   generateContextMessage(context: CoachingContext): string {
-    return `Please analyze the following context and provide coaching guidance:
+    let contextMessage = `Please analyze the following context and provide coaching guidance:
 
 Current Entry: ${context.entryContent}
 
-User Alignment: ${context.userAlignment}
+User Alignment: ${context.userAlignment}`;
+
+    if (context.formattedInsights) {
+      contextMessage += `\n\nWhat we know about the user so far:\n${context.formattedInsights}`;
+    }
+
+    if (context.formattedCoachingSessions) {
+      contextMessage += `\n\nCoaching sessions linked to this entry:\n${context.formattedCoachingSessions}`;
+    }
+
+    contextMessage += `\n\nRecent Entries: \n${context.formattedRecentEntries}`;
+
+    if (context.formattedRelatedEntries) {
+      contextMessage += `\n\nOlder entries related to the current one:\n${context.formattedRelatedEntries}`;
+    }
 
-Recent Entries: 
-${context.formattedRecentEntries}`;
+    return contextMessage;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { ModelRegistry } from '../modelRegistry';
+import { PromptLibrary } from '../prompts';
+import { GeneralCoachingModel } from './generalCoachingModel/generalCoachingModel';
+import { BiggestStruggleModel } from './biggestStruggle/biggestStruggle';
+
+export { GeneralCoachingModel } from './generalCoachingModel/generalCoachingModel';
+export { BiggestStruggleModel } from './biggestStruggle/biggestStruggle';
+
+/**
+ * Register all available coaching models
+ * Shared by the server (CoachingContextBuilder path) and the React Native client,
+ * so a model added here is routable everywhere. Safe to call more than once.
+ * Throws a PromptAssetError if a model's compiled prompts are incomplete.
+ */
+export function registerCoachingModels(): void {
+  const models = [
+    new GeneralCoachingModel(),
+    new BiggestStruggleModel()
+  ];
+
+  for (const model of models) {
+    if (!ModelRegistry.getModel(model.getInfo().id)) {
+      PromptLibrary.validateModel(model);
+      ModelRegistry.register(model);
+    }
+  }
+}
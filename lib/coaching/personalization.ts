@@ -0,0 +1,75 @@
+import { CoachingContext } from '@/types/coaching';
+import { UserAccount } from '@/types/journal';
+
+type ChallengeDegree = UserAccount['coachingConfig']['challengeDegree'];
+type HarshToneDegree = UserAccount['coachingConfig']['harshToneDegree'];
+
+/**
+ * How hard Sage pushes back, per coachingConfig.challengeDegree
+ */
+const CHALLENGE_INSTRUCTIONS: Record<ChallengeDegree, string> = {
+  gentle: 'Challenge very lightly. Favor curiosity and validation over pushing back, and do not press on points the client avoids.',
+  moderate: 'Balance support with challenge. Point out inconsistencies or avoidance when it clearly helps the client move forward.',
+  challenging: "Regularly challenge the client's assumptions and excuses. Ask the uncomfortable follow-up question rather than the comfortable one.",
+  intense: 'Push hard. Confront avoidance, name patterns directly and hold the client accountable to what they said matters to them.'
+};
+
+/**
+ * How Sage phrases things, per coachingConfig.harshToneDegree
+ */
+const TONE_INSTRUCTIONS: Record<HarshToneDegree, string> = {
+  supportive: 'Use a warm, encouraging tone. Acknowledge feelings before anything else.',
+  direct: 'Be clear and to the point. Say what you notice plainly while staying kind.',
+  firm: "Be firm. Don't soften hard truths and don't let vague answers slide.",
+  harsh: 'Be blunt, even uncomfortable. Deliver hard truths without cushioning - the client explicitly asked for this.'
+};
+
+/**
+ * Build the personalization section appended to a model's system prompt
+ * Returns an empty string when there is nothing to personalize
+ */
+export function buildPersonalizationPrompt(context?: CoachingContext): string {
+  if (!context) {
+    return '';
+  }
+
+  const instructions: string[] = [];
+  const { coachingConfig, onboardingData } = context;
+
+  if (coachingConfig?.challengeDegree && CHALLENGE_INSTRUCTIONS[coachingConfig.challengeDegree]) {
+    instructions.push(`- Challenge level (${coachingConfig.challengeDegree}): ${CHALLENGE_INSTRUCTIONS[coachingConfig.challengeDegree]}`);
+  }
+
+  if (coachingConfig?.harshToneDegree && TONE_INSTRUCTIONS[coachingConfig.harshToneDegree]) {
+    instructions.push(`- Tone (${coachingConfig.harshToneDegree}): ${TONE_INSTRUCTIONS[coachingConfig.harshToneDegree]}`);
+  }
+
+  // Onboarding answers are only meaningful once onboarding was completed
+  if (onboardingData?.onboardingCompleted) {
+    const { clarityInLife, stressInLife, whatDoYouDoInLife } = onboardingData;
+
+    if (clarityInLife <= 3) {
+      instructions.push(`- The client reports little clarity in life (${clarityInLife}/10). Help them narrow things down before going deep.`);
+    } else if (clarityInLife >= 8) {
+      instructions.push(`- The client reports high clarity in life (${clarityInLife}/10). Focus on execution and obstacles rather than open exploration.`);
+    }
+
+    if (stressInLife >= 7) {
+      instructions.push(`- The client reports high stress (${stressInLife}/10). Keep questions focused and watch for signs of overwhelm.`);
+    }
+
+    if (whatDoYouDoInLife?.length > 0) {
+      instructions.push(`- What the client does in life: ${whatDoYouDoInLife.join(', ')}.`);
+    }
+  }
+
+  if (instructions.length === 0) {
+    return '';
+  }
+
+  return [
+    '# Personalization',
+    'The client chose how they want to be coached. Follow these preferences in every response:',
+    ...instructions
+  ].join('\n');
+}
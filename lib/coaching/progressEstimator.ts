@@ -0,0 +1,80 @@
+import { CoachingProgressEstimate, CoachingProgressTopic } from '@/types/coaching';
+import { CoachingCardProtocol } from './cardProtocol';
+
+// Points per signal - they add up to MAX_ESTIMATED_PROGRESS
+const TURN_POINTS = 35;
+const TOPIC_POINTS = 30; // split evenly over the three topics
+const CARD_POINTS = 15;
+const DEPTH_POINTS = 15;
+
+// A session is considered well underway after this many user answers...
+const TARGET_USER_TURNS = 8;
+// ...of roughly this many words each
+const TARGET_ANSWER_WORDS = 40;
+// Only [finish-start] completes a session
+const MAX_ESTIMATED_PROGRESS = 95;
+
+/**
+ * Phrases showing a topic of the focus / blockers / actions arc was discussed
+ */
+const TOPIC_KEYWORDS: Record<CoachingProgressTopic, string[]> = {
+  focus: ['focus', 'priority', 'important', 'matters', 'goal', 'want to'],
+  blockers: ['block', 'stuck', 'obstacle', 'afraid', 'fear', 'hard to', 'too hard', 'struggle', 'holding', 'in the way', "can't"],
+  actions: ['action', 'step', 'plan', 'will do', 'tomorrow', 'this week', 'start', 'commit', 'next step', 'next week']
+};
+
+type ProgressMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+  isError?: boolean;
+};
+
+/**
+ * Coaching Progress Estimator
+ * Deterministic client-side estimate of how far a coaching session got,
+ * used when `api/coaching/progress` is unavailable and for comparing against it
+ */
+export class CoachingProgressEstimator {
+  /**
+   * Estimate progress from the conversation so far
+   * The result never goes below `previousProgress`, so the progress bar doesn't jump back
+   */
+  static estimate(messages: ProgressMessage[], previousProgress: number = 0): CoachingProgressEstimate {
+    const conversation = messages.filter(message => !message.isError && message.content.trim());
+    const userMessages = conversation.filter(message => message.role === 'user');
+    const assistantText = conversation.filter(message => message.role === 'assistant').map(message => message.content).join('\n');
+    // Topics count once the client talked about them, not when the coach merely asked
+    const userText = userMessages.map(message => message.content).join('\n').toLowerCase();
+
+    const userTurns = userMessages.length;
+    const coveredTopics = (Object.keys(TOPIC_KEYWORDS) as CoachingProgressTopic[])
+      .filter(topic => TOPIC_KEYWORDS[topic].some(keyword => userText.includes(keyword)));
+    const cardTypes = Array.from(new Set(CoachingCardProtocol.parseCards(assistantText).map(card => card.type)));
+    const totalWords = userMessages.reduce((count, message) => count + message.content.trim().split(/\s+/).filter(Boolean).length, 0);
+    const averageAnswerWords = userTurns > 0 ? Math.round(totalWords / userTurns) : 0;
+    const hasFinishToken = CoachingCardProtocol.hasFinishToken(assistantText);
+
+    const breakdown = {
+      turns: Math.min(userTurns / TARGET_USER_TURNS, 1) * TURN_POINTS,
+      topics: (coveredTopics.length / Object.keys(TOPIC_KEYWORDS).length) * TOPIC_POINTS,
+      cards: Math.min(cardTypes.length, 1) * CARD_POINTS,
+      // Depth only counts once there are answers to judge
+      depth: userTurns > 0 ? Math.min(averageAnswerWords / TARGET_ANSWER_WORDS, 1) * DEPTH_POINTS : 0
+    };
+
+    const estimated = hasFinishToken
+      ? 100
+      : Math.min(Math.round(breakdown.turns + breakdown.topics + breakdown.cards + breakdown.depth), MAX_ESTIMATED_PROGRESS);
+
+    return {
+      progress: Math.max(estimated, Math.min(previousProgress, hasFinishToken ? 100 : MAX_ESTIMATED_PROGRESS)),
+      signals: { userTurns, coveredTopics, cardTypes, averageAnswerWords, hasFinishToken },
+      breakdown: {
+        turns: Math.round(breakdown.turns),
+        topics: Math.round(breakdown.topics),
+        cards: Math.round(breakdown.cards),
+        depth: Math.round(breakdown.depth)
+      }
+    };
+  }
+}
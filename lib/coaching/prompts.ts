@@ -0,0 +1,89 @@
+import { CoachingModel, PromptAsset, PromptSectionName } from '@/types/coaching';
+
+/**
+ * Prompt sections every coaching model must provide, in system prompt order
+ */
+export const REQUIRED_PROMPT_SECTIONS: PromptSectionName[] = ['role', 'task', 'output', 'behavior'];
+
+/**
+ * Thrown when a prompt asset is incomplete or out of sync with its model
+ */
+export class PromptAssetError extends Error {
+  constructor(message: string, public readonly modelId: string) {
+    super(message);
+    this.name = 'PromptAssetError';
+  }
+}
+
+/**
+ * Prompt Library
+ * Validates compiled prompt assets and caches the assembled system prompts
+ */
+export class PromptLibrary {
+  private static systemPrompts: Map<string, string> = new Map();
+
+  /**
+   * Assemble (once per asset version) the system prompt from all sections
+   */
+  static getSystemPrompt(asset: PromptAsset): string {
+    const cacheKey = `${asset.modelId}@${asset.version}#${asset.hash}`;
+    const cached = this.systemPrompts.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    this.validateAsset(asset);
+    const systemPrompt = REQUIRED_PROMPT_SECTIONS
+      .map(section => asset.sections[section]!)
+      .join('\n\n');
+
+    this.systemPrompts.set(cacheKey, systemPrompt);
+    return systemPrompt;
+  }
+
+  /**
+   * Ensure an asset has every required section
+   */
+  static validateAsset(asset: PromptAsset): void {
+    const missing = REQUIRED_PROMPT_SECTIONS.filter(section => !asset.sections[section]?.trim());
+
+    if (missing.length > 0) {
+      throw new PromptAssetError(
+        `Prompt asset for ${asset.modelId} is missing sections: ${missing.join(', ')}`,
+        asset.modelId
+      );
+    }
+  }
+
+  /**
+   * Ensure a model's prompt asset is complete and versioned with the model
+   * Called when models are registered so a broken asset fails at startup
+   */
+  static validateModel(model: CoachingModel): void {
+    const info = model.getInfo();
+    const asset = model.getPromptAsset?.();
+    if (!asset) {
+      return;
+    }
+
+    if (asset.modelId !== info.id) {
+      throw new PromptAssetError(`Prompt asset ${asset.modelId} is attached to model ${info.id}`, info.id);
+    }
+
+    if (asset.version !== info.version) {
+      throw new PromptAssetError(
+        `Prompt asset version ${asset.version} does not match model ${info.id} version ${info.version}`,
+        info.id
+      );
+    }
+
+    this.validateAsset(asset);
+  }
+
+  /**
+   * Clear cached system prompts
+   */
+  static clearCache(): void {
+    this.systemPrompts.clear();
+  }
+}
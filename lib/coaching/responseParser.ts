@@ -0,0 +1,84 @@
+import { CoachingBlock, CoachingBlockVariant } from '@/types/coaching';
+
+const VARIANTS: CoachingBlockVariant[] = ['text', 'buttons', 'multi-select'];
+
+/**
+ * Coaching Response Parser
+ * Turns the raw XML reply of a coaching model into a coaching block
+ *
+ * Accepts both reply shapes used by our prompts:
+ * - flat `<thinking>`, `<content>`, `<variant>`, `<options>` tags
+ * - the same tags wrapped in a `<coaching>` element
+ */
+export class CoachingResponseParser {
+  /**
+   * Parse a raw model reply into a coaching block
+   */
+  static parse(raw: string): CoachingBlock {
+    const thinking = this.extractTag(raw, 'thinking');
+
+    // Ignore anything inside <thinking> when looking for the response tags
+    const response = raw.replace(/<thinking>[\s\S]*?<\/thinking>/i, '');
+    const content = this.extractTag(response, 'content');
+
+    if (!content) {
+      // Model ignored the format - show whatever it said as plain text
+      const fallback = response.replace(/<\/?[a-z-]+>/gi, '').trim();
+      if (!fallback) {
+        throw new Error('Coaching response did not contain any content');
+      }
+
+      return {
+        content: fallback,
+        variant: 'text',
+        ...(thinking && { thinking })
+      };
+    }
+
+    const options = this.extractOptions(response);
+    let variant = this.parseVariant(this.extractTag(response, 'variant'));
+
+    // Interactive variants are meaningless without options
+    if (variant !== 'text' && options.length === 0) {
+      variant = 'text';
+    }
+
+    return {
+      content,
+      variant,
+      ...(variant !== 'text' && { options }),
+      ...(thinking && { thinking })
+    };
+  }
+
+  /**
+   * Extract the trimmed text of the first occurrence of a tag
+   */
+  private static extractTag(text: string, tag: string): string | undefined {
+    const match = text.match(new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, 'i'));
+    const value = match?.[1].trim();
+    return value ? value : undefined;
+  }
+
+  /**
+   * Extract all <option> values inside <options>
+   */
+  private static extractOptions(text: string): string[] {
+    const optionsBlock = text.match(/<options>([\s\S]*?)<\/options>/i)?.[1];
+    if (!optionsBlock) {
+      return [];
+    }
+
+    return Array.from(optionsBlock.matchAll(/<option>([\s\S]*?)<\/option>/gi))
+      .map(match => match[1].trim())
+      .filter(option => option.length > 0);
+  }
+
+  /**
+   * Normalize the variant tag, defaulting to text
+   */
+  private static parseVariant(value: string | undefined): CoachingBlockVariant {
+    const variant = value?.toLowerCase() as CoachingBlockVariant | undefined;
+    return variant && VARIANTS.includes(variant) ? variant : 'text';
+  }
+}
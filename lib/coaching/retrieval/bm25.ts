@@ -0,0 +1,93 @@
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+type IndexedDocument = {
+  termFrequencies: Map<string, number>;
+  length: number;
+};
+
+/**
+ * BM25 keyword index
+ * Deterministic, dependency-free ranking used when no embedding provider is available
+ */
+export class Bm25Index {
+  private documents: Map<string, IndexedDocument> = new Map();
+  private documentFrequencies: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add or replace a document
+   */
+  add(id: string, terms: string[]): void {
+    this.remove(id);
+
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+
+    termFrequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    });
+
+    this.documents.set(id, { termFrequencies, length: terms.length });
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * Remove a document if present
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    document.termFrequencies.forEach((_, term) => {
+      const frequency = (this.documentFrequencies.get(term) || 1) - 1;
+      if (frequency <= 0) {
+        this.documentFrequencies.delete(term);
+      } else {
+        this.documentFrequencies.set(term, frequency);
+      }
+    });
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Score all documents against the query terms, best first
+   * Documents without any matching term are omitted
+   */
+  search(queryTerms: string[]): Array<{ id: string; score: number }> {
+    if (this.documents.size === 0) return [];
+
+    const uniqueTerms = Array.from(new Set(queryTerms));
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const results: Array<{ id: string; score: number }> = [];
+
+    this.documents.forEach((document, id) => {
+      let score = 0;
+
+      for (const term of uniqueTerms) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / averageLength));
+      }
+
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    });
+
+    // Sort by score, ties broken by id for determinism
+    return results.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+}
@@ -0,0 +1,189 @@
+import { EmbeddingProvider, RelatedEntryMatch } from '@/types/coaching';
+import { JournalEntry } from '@/types/journal';
+import { htmlToPlainText, extractTerms } from '@/lib/plainText';
+import { Bm25Index } from './bm25';
+
+// Entries are embedded in batches of this size
+const EMBEDDING_BATCH_SIZE = 32;
+// Embedding inputs are cut to this many characters
+const MAX_EMBEDDING_CHARS = 4000;
+// Per-user indexes kept in memory; the least recently used one is dropped first
+const MAX_CACHED_USERS = 20;
+
+type IndexedEntry = {
+  entry: JournalEntry;
+  text: string;
+  version: number; // lastUpdated timestamp, used to detect stale embeddings
+};
+
+export type EntrySearchOptions = {
+  limit?: number;
+  excludeIds?: string[];
+  minScore?: number; // 0-1, relative to the best match
+};
+
+/**
+ * Entry Index
+ * Retrieval index over a user's journal entries.
+ *
+ * Uses the embedding provider when one is configured and falls back to
+ * BM25 keyword ranking when it isn't, or when embedding fails.
+ */
+export class EntryIndex {
+  private static userIndexes: Map<string, EntryIndex> = new Map();
+
+  private entries: Map<string, IndexedEntry> = new Map();
+  private bm25 = new Bm25Index();
+  private vectors: Map<string, { version: number; vector: number[] }> = new Map();
+
+  constructor(private embeddingProvider: EmbeddingProvider | null = null) {}
+
+  /**
+   * Get the cached index of a user, creating it on first use
+   * At most MAX_CACHED_USERS indexes are kept, evicting the least recently used.
+   */
+  static forUser(userId: string, embeddingProvider: EmbeddingProvider | null = null): EntryIndex {
+    let index = this.userIndexes.get(userId);
+
+    if (!index || index.embeddingProvider?.id !== embeddingProvider?.id) {
+      index = new EntryIndex(embeddingProvider);
+    }
+
+    // Re-insert so the map stays ordered from least to most recently used
+    this.userIndexes.delete(userId);
+    this.userIndexes.set(userId, index);
+
+    while (this.userIndexes.size > MAX_CACHED_USERS) {
+      const oldest = this.userIndexes.keys().next().value as string;
+      this.userIndexes.delete(oldest);
+    }
+
+    return index;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Bring the index in line with the user's current entries
+   * Adds new entries, re-indexes changed ones and removes the ones missing from the list (deleted).
+   */
+  upsert(entries: JournalEntry[]): void {
+    const currentIds = new Set(entries.map(entry => entry.id));
+    Array.from(this.entries.keys())
+      .filter(id => !currentIds.has(id))
+      .forEach(id => this.remove(id));
+
+    for (const entry of entries) {
+      const version = entry.lastUpdated?.getTime() ?? entry.timestamp.getTime();
+      const existing = this.entries.get(entry.id);
+      if (existing && existing.version === version && existing.entry.content === entry.content) {
+        continue;
+      }
+
+      const text = htmlToPlainText(entry.content);
+      this.entries.set(entry.id, { entry, text, version });
+      this.bm25.add(entry.id, extractTerms(text));
+    }
+  }
+
+  /**
+   * Remove an entry (e.g. after deletion)
+   */
+  remove(entryId: string): void {
+    this.entries.delete(entryId);
+    this.vectors.delete(entryId);
+    this.bm25.remove(entryId);
+  }
+
+  /**
+   * Find the entries most relevant to the query text
+   */
+  async search(queryText: string, options: EntrySearchOptions = {}): Promise<RelatedEntryMatch[]> {
+    const { limit = 5, excludeIds = [], minScore = 0.2 } = options;
+    const plainQuery = htmlToPlainText(queryText);
+    if (!plainQuery.trim() || this.entries.size === 0) {
+      return [];
+    }
+
+    let ranked: Array<{ id: string; score: number }> = [];
+    let method: RelatedEntryMatch['method'] = 'bm25';
+
+    if (this.embeddingProvider) {
+      try {
+        ranked = await this.searchByEmbedding(plainQuery);
+        method = 'embedding';
+      } catch (error) {
+        console.error('Embedding search failed, falling back to BM25:', error);
+      }
+    }
+
+    if (method === 'bm25') {
+      ranked = this.bm25.search(extractTerms(plainQuery));
+    }
+
+    const excluded = new Set(excludeIds);
+    const candidates = ranked.filter(result => !excluded.has(result.id));
+    const bestScore = candidates[0]?.score || 0;
+    if (bestScore <= 0) {
+      return [];
+    }
+
+    return candidates
+      .map(result => ({
+        entry: this.entries.get(result.id)!.entry,
+        score: Math.round((result.score / bestScore) * 100) / 100,
+        method
+      }))
+      .filter(match => match.score >= minScore)
+      .slice(0, limit);
+  }
+
+  private async searchByEmbedding(queryText: string): Promise<Array<{ id: string; score: number }>> {
+    await this.ensureEmbeddings();
+
+    const [queryVector] = await this.embeddingProvider!.embed([queryText.slice(0, MAX_EMBEDDING_CHARS)]);
+    const results: Array<{ id: string; score: number }> = [];
+
+    this.vectors.forEach(({ vector }, id) => {
+      const score = this.cosineSimilarity(queryVector, vector);
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Embed every entry that is new or changed since it was last embedded
+   */
+  private async ensureEmbeddings(): Promise<void> {
+    const stale = Array.from(this.entries.entries())
+      .filter(([id, indexed]) => this.vectors.get(id)?.version !== indexed.version && indexed.text.trim());
+
+    for (let i = 0; i < stale.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = stale.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const vectors = await this.embeddingProvider!.embed(batch.map(([, indexed]) => indexed.text.slice(0, MAX_EMBEDDING_CHARS)));
+
+      batch.forEach(([id, indexed], index) => {
+        this.vectors.set(id, { version: indexed.version, vector: vectors[index] });
+      });
+    }
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
@@ -0,0 +1,256 @@
+import {
+  BlockersCardData,
+  CoachingFocusChange,
+  CoachingMoodPoint,
+  CoachingReview,
+  CoachingReviewBlocker,
+  CoachingReviewInput,
+  CoachingReviewQuote,
+  CoachingReviewTheme
+} from '@/types/coaching';
+import { JournalReviewPeriod, JournalReviewRange } from '@/types/journal';
+import { htmlToPlainText, extractTerms } from '@/lib/plainText';
+import { detectTopics } from './routing';
+import { CoachingCardProtocol } from './cardProtocol';
+
+const MAX_THEMES = 5;
+const MAX_WINS = 5;
+const MAX_BLOCKERS = 5;
+// Average mood difference between the two halves of the range that counts as a trend
+const MOOD_TREND_THRESHOLD = 0.2;
+
+const POSITIVE_WORDS = [
+  'happy', 'grateful', 'calm', 'excited', 'proud', 'energized', 'hopeful', 'relieved',
+  'good', 'great', 'joy', 'peaceful', 'confident', 'motivated', 'content', 'love'
+];
+const NEGATIVE_WORDS = [
+  'sad', 'stressed', 'anxious', 'tired', 'angry', 'frustrated', 'overwhelmed', 'lonely',
+  'bad', 'worried', 'exhausted', 'stuck', 'afraid', 'upset', 'hopeless', 'burnout'
+];
+const WIN_PATTERNS = [
+  'proud', 'finally', 'managed to', 'accomplished', 'finished', 'achieved', 'completed',
+  'succeeded', 'breakthrough', 'got it done', 'went well', 'celebrate'
+];
+
+/**
+ * Coaching Review Builder
+ * Turns the journal entries, coaching sessions and insight changes of a date range
+ * into a structured retrospective, on the device and without a model call.
+ */
+export class CoachingReviewBuilder {
+  /**
+   * Date range of a review ending now: the last 7 or 30 days, today included
+   * Counted in days, since stepping back a calendar month overflows on the 29th to 31st
+   */
+  static getRange(period: JournalReviewPeriod, now: Date = new Date()): JournalReviewRange {
+    const from = new Date(now);
+    from.setDate(from.getDate() - (period === 'week' ? 6 : 29));
+    from.setHours(0, 0, 0, 0);
+
+    return { period, from, to: new Date(now) };
+  }
+
+  /**
+   * Build the retrospective for a range
+   */
+  static build(input: CoachingReviewInput): CoachingReview {
+    const entries = [...input.entries]
+      .filter(entry => !entry.reviewRange) // earlier reviews are not part of the history being reviewed
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const entryTexts = entries.map(entry => ({ entry, text: htmlToPlainText(entry.content) }));
+
+    return {
+      range: input.range,
+      entryCount: entries.length,
+      sessionCount: input.sessions.length,
+      themes: this.findThemes(entryTexts.map(({ text }) => text)),
+      moodTrend: this.findMoodTrend(entryTexts.map(({ entry, text }) => ({ date: entry.timestamp, text }))),
+      wins: this.findWins(entryTexts.map(({ entry, text }) => ({ text, date: entry.timestamp, entryId: entry.id }))),
+      recurringBlockers: this.findRecurringBlockers(input, entryTexts.map(({ text }) => text)),
+      focusChanges: this.findFocusChanges(input)
+    };
+  }
+
+  /**
+   * Title of a review entry, e.g. "Weekly review · Oct 5 – Oct 11"
+   */
+  static formatTitle(range: JournalReviewRange): string {
+    const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `${range.period === 'week' ? 'Weekly' : 'Monthly'} review · ${format(range.from)} – ${format(range.to)}`;
+  }
+
+  /**
+   * Render a review as journal entry HTML (the format TipTap stores)
+   */
+  static toEntryHtml(review: CoachingReview): string {
+    const escape = (text: string) => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    const list = (items: string[]) => `<ul>${items.map(item => `<li><p>${escape(item)}</p></li>`).join('')}</ul>`;
+    const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+    const sections = [
+      `<h2>${escape(this.formatTitle(review.range))}</h2>`,
+      `<p>${review.entryCount} ${review.entryCount === 1 ? 'entry' : 'entries'} and ${review.sessionCount} coaching ${review.sessionCount === 1 ? 'session' : 'sessions'}.</p>`
+    ];
+
+    if (review.themes.length > 0) {
+      sections.push('<h3>Themes</h3>', list(review.themes.map(theme => `${theme.topic} (${theme.entryCount} ${theme.entryCount === 1 ? 'entry' : 'entries'})`)));
+    }
+
+    const moodLabels: Record<CoachingReview['moodTrend']['direction'], string> = {
+      improving: 'Your mood improved over this period.',
+      declining: 'Your mood dipped over this period.',
+      steady: 'Your mood stayed about the same.',
+      unknown: 'Not enough to go on for a mood trend.'
+    };
+    sections.push('<h3>Mood</h3>', `<p>${moodLabels[review.moodTrend.direction]}</p>`);
+
+    if (review.wins.length > 0) {
+      sections.push('<h3>Wins</h3>', list(review.wins.map(win => `${formatDate(win.date)}: ${win.text}`)));
+    }
+
+    if (review.recurringBlockers.length > 0) {
+      sections.push('<h3>Recurring blockers</h3>', list(review.recurringBlockers.map(blocker => `${blocker.text} (${blocker.occurrences}×)`)));
+    }
+
+    if (review.focusChanges.length > 0) {
+      sections.push('<h3>Main focus</h3>', list(review.focusChanges.map(change => change.previousHeadline
+        ? `${formatDate(change.changedAt)}: ${change.previousHeadline} → ${change.headline}`
+        : `${formatDate(change.changedAt)}: ${change.headline}`)));
+    }
+
+    return sections.join('');
+  }
+
+  private static findThemes(texts: string[]): CoachingReviewTheme[] {
+    const counts = new Map<string, number>();
+    texts.forEach(text => {
+      detectTopics(text).forEach(topic => counts.set(topic, (counts.get(topic) || 0) + 1));
+    });
+
+    return Array.from(counts.entries())
+      .map(([topic, entryCount]) => ({ topic, entryCount }))
+      .sort((a, b) => b.entryCount - a.entryCount || a.topic.localeCompare(b.topic))
+      .slice(0, MAX_THEMES);
+  }
+
+  private static findMoodTrend(items: Array<{ date: Date; text: string }>): CoachingReview['moodTrend'] {
+    const points: CoachingMoodPoint[] = [];
+
+    items.forEach(({ date, text }) => {
+      const words = text.toLowerCase().match(/[a-z]+/g) || [];
+      const positive = words.filter(word => POSITIVE_WORDS.includes(word)).length;
+      const negative = words.filter(word => NEGATIVE_WORDS.includes(word)).length;
+      if (positive + negative === 0) return;
+
+      points.push({ date, score: Math.round(((positive - negative) / (positive + negative)) * 100) / 100 });
+    });
+
+    if (points.length < 2) {
+      return { points, direction: 'unknown' };
+    }
+
+    const middle = Math.floor(points.length / 2);
+    const average = (slice: CoachingMoodPoint[]) => slice.reduce((sum, point) => sum + point.score, 0) / slice.length;
+    const difference = average(points.slice(points.length - middle)) - average(points.slice(0, middle));
+
+    return {
+      points,
+      direction: difference > MOOD_TREND_THRESHOLD ? 'improving' : difference < -MOOD_TREND_THRESHOLD ? 'declining' : 'steady'
+    };
+  }
+
+  private static findWins(items: Array<{ text: string; date: Date; entryId: string }>): CoachingReviewQuote[] {
+    const wins: CoachingReviewQuote[] = [];
+
+    for (const { text, date, entryId } of items) {
+      const sentences = (text.match(/[^.!?\n]+[.!?]*/g) || []).map(sentence => sentence.trim()).filter(Boolean);
+      const win = sentences.find(sentence => {
+        const lower = sentence.toLowerCase();
+        return WIN_PATTERNS.some(pattern => lower.includes(pattern));
+      });
+
+      if (win) {
+        wins.push({ text: win.length > 160 ? `${win.slice(0, 159).trimEnd()}…` : win, date, entryId });
+      }
+    }
+
+    return wins.slice(-MAX_WINS);
+  }
+
+  private static findRecurringBlockers(input: CoachingReviewInput, entryTexts: string[]): CoachingReviewBlocker[] {
+    const blockers = new Map<string, CoachingReviewBlocker>();
+    const add = (text: string) => {
+      const key = text.trim().toLowerCase();
+      if (!key) return;
+      const existing = blockers.get(key);
+      if (existing) {
+        existing.occurrences++;
+      } else {
+        blockers.set(key, { text: text.trim(), occurrences: 1 });
+      }
+    };
+
+    // Blockers named by the coach at the end of sessions
+    input.sessions.forEach(session => {
+      session.messages
+        .filter(message => message.role === 'assistant')
+        .forEach(message => {
+          CoachingCardProtocol.parseCards(message.content).forEach(marker => {
+            const { card } = CoachingCardProtocol.toCard(marker);
+            if (card?.type === 'blockers') {
+              (card as BlockersCardData).items.forEach(add);
+            }
+          });
+        });
+    });
+
+    // Key blockers from the insights
+    input.insights.forEach(insight => {
+      if (insight.keyBlockers?.headline) add(insight.keyBlockers.headline);
+    });
+
+    // A blocker also recurs when entries keep mentioning it
+    blockers.forEach(blocker => {
+      const terms = Array.from(new Set(extractTerms(blocker.text)));
+      if (terms.length === 0) return;
+
+      entryTexts.forEach(text => {
+        const entryTerms = new Set(extractTerms(text));
+        if (terms.every(term => entryTerms.has(term))) {
+          blocker.occurrences++;
+        }
+      });
+    });
+
+    return Array.from(blockers.values())
+      .filter(blocker => blocker.occurrences > 1)
+      .sort((a, b) => b.occurrences - a.occurrences)
+      .slice(0, MAX_BLOCKERS);
+  }
+
+  private static findFocusChanges(input: CoachingReviewInput): CoachingFocusChange[] {
+    const changes: CoachingFocusChange[] = [];
+    let previousHeadline = input.previousInsights?.mainFocus?.headline;
+
+    [...input.insights]
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .forEach(insight => {
+        const headline = insight.mainFocus?.headline;
+        const changedAt = new Date(insight.mainFocus?.updatedAt || insight.updatedAt);
+        // The document may have changed in the range while its main focus is older
+        if (!headline || headline === previousHeadline || changedAt < input.range.from) return;
+
+        changes.push({
+          headline,
+          ...(previousHeadline && { previousHeadline }),
+          changedAt
+        });
+        previousHeadline = headline;
+      });
+
+    return changes;
+  }
+}
@@ -0,0 +1,80 @@
+import { CoachingContext, RoutingProfile, RoutingSignals, TimeOfDay } from '@/types/coaching';
+
+/**
+ * Keywords used to detect topics in the current entry
+ */
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  stress: ['stressed', 'anxious', 'overwhelmed', 'pressure', 'burnout', 'exhausted'],
+  stuck: ['stuck', 'unclear', 'confused', 'lost', "don't know", 'struggle', 'struggling'],
+  decision: ['decide', 'decision', 'choice', 'choose', 'option'],
+  work: ['work', 'job', 'career', 'startup', 'company', 'team', 'boss'],
+  relationships: ['partner', 'friend', 'family', 'relationship', 'wife', 'husband', 'parents'],
+  health: ['sleep', 'health', 'exercise', 'tired', 'energy', 'sick'],
+  goals: ['goal', 'plan', 'future', 'vision', 'ambition'],
+  gratitude: ['grateful', 'thankful', 'appreciate', 'gratitude']
+};
+
+/**
+ * Detect coarse topics mentioned in a piece of text
+ */
+export function detectTopics(text: string): string[] {
+  const lowerText = text.toLowerCase();
+
+  return Object.entries(TOPIC_KEYWORDS)
+    .filter(([, keywords]) => keywords.some(keyword => lowerText.includes(keyword)))
+    .map(([topic]) => topic);
+}
+
+/**
+ * Map an hour (0-23) to a time of day bucket
+ */
+export function getTimeOfDay(date: Date): TimeOfDay {
+  const hour = date.getHours();
+
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+/**
+ * Derive routing signals from a coaching context
+ */
+export function buildRoutingSignals(context: CoachingContext, now: Date = new Date()): RoutingSignals {
+  const previousEntries = (context.recentEntries || []).filter(entry => entry.id !== context.entryId);
+  const lastEntryTime = previousEntries.reduce<number | null>((latest, entry) => {
+    const time = entry.timestamp.getTime();
+    return latest === null || time > latest ? time : latest;
+  }, null);
+
+  return {
+    entryCount: context.entryCount,
+    daysSinceLastEntry: lastEntryTime === null
+      ? null
+      : Math.floor(Math.max(0, now.getTime() - lastEntryTime) / (1000 * 60 * 60 * 24)),
+    topics: detectTopics(context.entryContent),
+    timeOfDay: getTimeOfDay(now),
+    coachingConfig: context.coachingConfig
+  };
+}
+
+/**
+ * Score a routing profile against the given signals
+ * Returns a 0-1 confidence and the descriptions of all matched rules
+ */
+export function scoreRoutingProfile(profile: RoutingProfile, signals: RoutingSignals): { confidence: number; reasons: string[] } {
+  let score = profile.baseScore;
+  const reasons: string[] = [];
+
+  for (const rule of profile.rules) {
+    if (rule.matches(signals)) {
+      score += rule.weight;
+      reasons.push(`${rule.description} (${rule.weight >= 0 ? '+' : ''}${rule.weight})`);
+    }
+  }
+
+  return {
+    confidence: Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100,
+    reasons
+  };
+}
@@ -0,0 +1,160 @@
+import { CoachingCardType, CoachingModel, CoachingSessionProgram, CoachingSessionType } from '@/types/coaching';
+import { ModelRegistry } from './modelRegistry';
+
+export const DEFAULT_SESSION_TYPE: CoachingSessionType = 'default-session';
+
+const PROGRAMS: CoachingSessionProgram[] = [
+  {
+    id: 'default-session',
+    name: 'Coach chat',
+    title: 'Goal breakout session',
+    description: 'Open conversation about whatever is on your mind',
+    durationMinutes: 15,
+    goalCards: ['focus', 'blockers', 'actions'],
+    starters: [
+      "Help me reflect on my personal growth",
+      "I want to be more productive",
+      "How can I build better daily habits?",
+      "I'm struggling with making an important decision",
+      "I want to improve my relationships",
+      "I'm dealing with stress and anxiety",
+      "How can I find more purpose in life?",
+      "I want to work on my self-confidence",
+      "I'm feeling lost",
+    ],
+    openingMessage: firstName => `Hello ${firstName || 'there'}!\n\nI'm here to support your growth and reflection. What's on your mind today? Feel free to share anything that's weighing on you, exciting you, or simply present in your awareness right now.`,
+    modelId: 'general-coaching'
+  },
+  {
+    id: 'morning-checkin',
+    name: 'Morning check-in',
+    title: 'Morning check-in',
+    description: 'A short start to the day: how you feel and what matters today',
+    durationMinutes: 5,
+    goalCards: ['checkin', 'actions'],
+    starters: [
+      "I slept badly and feel slow",
+      "I have a packed day ahead",
+      "I'm feeling good and want to keep it going",
+      "I don't know where to start today",
+    ],
+    openingMessage: firstName => `Good morning ${firstName || 'there'}!\n\nHow are you arriving into today? Tell me how you feel and what's ahead of you.`,
+    modelId: 'general-coaching'
+  },
+  {
+    id: 'weekly-review',
+    name: 'Weekly review',
+    title: 'Weekly review',
+    description: 'Look back on the week, what worked and what to change',
+    durationMinutes: 20,
+    goalCards: ['focus', 'blockers', 'actions'],
+    starters: [
+      "This week went better than expected",
+      "This week was a struggle",
+      "I didn't get to what I planned",
+      "I want to plan next week better",
+    ],
+    openingMessage: firstName => `Hi ${firstName || 'there'}, let's look back on your week.\n\nWhat stands out when you think about the last seven days?`,
+    modelId: 'general-coaching'
+  },
+  {
+    id: 'monthly-review',
+    name: 'Monthly review',
+    title: 'Monthly review',
+    description: 'Look back on the month: themes, wins and where your focus moved',
+    durationMinutes: 25,
+    goalCards: ['focus', 'blockers', 'actions'],
+    starters: [
+      "This month changed more than I expected",
+      "I keep running into the same problem",
+      "I want to celebrate what went well",
+      "I want to set a direction for next month",
+    ],
+    openingMessage: firstName => `Hi ${firstName || 'there'}, let's look back on your month.\n\nWhen you think about the last few weeks, what feels most important?`,
+    modelId: 'general-coaching'
+  },
+  {
+    id: 'decision-making',
+    name: 'Decision',
+    title: 'Decision session',
+    description: 'Think an important decision through and pick a next step',
+    durationMinutes: 15,
+    goalCards: ['focus', 'actions'],
+    starters: [
+      "I'm choosing between two options",
+      "I have to decide about my job",
+      "I keep putting off a decision",
+      "I'm afraid of making the wrong choice",
+    ],
+    openingMessage: firstName => `Hi ${firstName || 'there'}.\n\nWhat decision is on your mind? Tell me what you're choosing between and what makes it hard.`,
+    modelId: 'general-coaching'
+  },
+  {
+    id: 'initial-life-deep-dive',
+    name: 'Initial Life Deep Dive',
+    title: 'Life Deep Dive Session',
+    description: 'First session after onboarding, exploring your biggest struggle',
+    durationMinutes: 10,
+    goalCards: ['focus', 'blockers', 'actions'],
+    starters: [],
+    openingMessage: firstName => `Hey, ${firstName || 'there'}.\n
+Once you're ready, I'd love to hear: If you had to name what's most alive in you right now—what would it be?\n
+Maybe it's a tension you're holding, a quiet longing, or something you don't quite have words for yet. Whatever shows up—start there.`,
+    modelId: 'biggest-struggle'
+  }
+];
+
+/**
+ * Session Program Registry
+ * Typed catalogue of coaching session programs, shared by the server and the app.
+ * Unknown or missing session types resolve to the default session.
+ */
+export class SessionProgramRegistry {
+  private static programs: Map<CoachingSessionType, CoachingSessionProgram> = new Map(
+    PROGRAMS.map(program => [program.id, program])
+  );
+
+  /**
+   * Get a program by session type
+   */
+  static getProgram(sessionType: CoachingSessionType): CoachingSessionProgram {
+    return this.programs.get(sessionType)!;
+  }
+
+  /**
+   * Get all programs
+   */
+  static getAllPrograms(): CoachingSessionProgram[] {
+    return Array.from(this.programs.values());
+  }
+
+  /**
+   * Check whether a free-form string (e.g. a stored session's type) is a known session type
+   */
+  static isSessionType(value: unknown): value is CoachingSessionType {
+    return typeof value === 'string' && this.programs.has(value as CoachingSessionType);
+  }
+
+  /**
+   * Program for a possibly unknown session type, falling back to the default session
+   */
+  static resolve(sessionType?: string | null): CoachingSessionProgram {
+    return this.isSessionType(sessionType)
+      ? this.getProgram(sessionType)
+      : this.getProgram(DEFAULT_SESSION_TYPE);
+  }
+
+  /**
+   * The coaching model a program routes to, or null if it isn't registered
+   */
+  static getModel(sessionType?: string | null): CoachingModel | null {
+    return ModelRegistry.getModel(this.resolve(sessionType).modelId);
+  }
+
+  /**
+   * Goal cards of a program that are missing from a finished session
+   */
+  static getMissingGoalCards(sessionType: string | null | undefined, emittedCards: string[]): CoachingCardType[] {
+    return this.resolve(sessionType).goalCards.filter(card => !emittedCards.includes(card));
+  }
+}
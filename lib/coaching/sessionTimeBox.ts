@@ -0,0 +1,45 @@
+import { CoachingSessionTime } from '@/types/coaching';
+
+// Minutes left in the time box; `wrapUp` once the session should come to a close
+export type SessionTimeBoxState = {
+  timeRemainingMinutes?: number;
+  wrapUp?: boolean;
+};
+
+/**
+ * Session Time Box
+ * The time left and the wrap-up flag travel as the `sessionTime` field of a chat request,
+ * next to the user's message, and the server turns them into system prompt instructions.
+ */
+export class SessionTimeBox {
+  /**
+   * `sessionTime` field of a chat request, or undefined without a time box
+   */
+  static toRequest(state: SessionTimeBoxState): CoachingSessionTime | undefined {
+    if (state.timeRemainingMinutes === undefined && !state.wrapUp) {
+      return undefined;
+    }
+
+    return {
+      ...(state.timeRemainingMinutes !== undefined && { remainingMinutes: Math.max(0, Math.round(state.timeRemainingMinutes)) }),
+      ...(state.wrapUp && { wrapUp: true })
+    };
+  }
+
+  /**
+   * System prompt instructions for the `sessionTime` of a request, empty without a time box
+   */
+  static toPrompt(sessionTime?: CoachingSessionTime): string {
+    if (!sessionTime) return '';
+
+    const minutes = sessionTime.remainingMinutes;
+    return [
+      minutes !== undefined
+        ? `About ${minutes} minute${minutes === 1 ? '' : 's'} of this session ${minutes === 1 ? 'is' : 'are'} left. Pace the conversation so it ends on time.`
+        : null,
+      sessionTime.wrapUp
+        ? 'Time is almost up: wrap up now. Briefly reflect back what came up, agree on one next step and close the session with the finish block.'
+        : null
+    ].filter(Boolean).join('\n');
+  }
+}
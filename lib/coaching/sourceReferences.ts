@@ -0,0 +1,103 @@
+import { insightSourceReference, insightSourceSpan, userInsight } from '@/types/insights';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+
+/**
+ * Source References
+ * Ties an insight quote to the entry or coaching message it came from. The extractor
+ * records the span when it saves a source; the app finds the quote again when opening it,
+ * since the entry may have been edited in the meantime.
+ */
+export class SourceReferences {
+  /**
+   * Reference to a quote from a journal entry's plain text
+   */
+  static forJournalEntry(entryId: string, plainText: string, quote: string): insightSourceReference {
+    const span = this.locate(plainText, quote);
+    return { kind: 'journalEntry', entryId, ...(span && { span }) };
+  }
+
+  /**
+   * Reference to a quote from a coaching session message
+   */
+  static forSessionMessage(sessionId: string, messageId: string, content: string, quote: string): insightSourceReference {
+    const span = this.locate(content, quote);
+    return { kind: 'coachingSession', sessionId, messageId, ...(span && { span }) };
+  }
+
+  /**
+   * Reference the session messages quoted by sources that don't have a reference yet
+   * Used on the device after an extraction, since the extractor doesn't set them
+   */
+  static withSessionReferences(
+    insight: userInsight,
+    sessionId: string,
+    messages: Array<{ id: string; role: string; content: string }>
+  ): userInsight {
+    const userMessages = messages.filter(message => message.role === 'user');
+    let referenced = insight;
+
+    InsightCategoryRegistry.getSectionKeys(insight).forEach(section => {
+      const current = InsightCategoryRegistry.getSection(insight, section);
+      if (!current?.sources?.some(source => !source.reference)) return;
+
+      const sources = current.sources.map(source => {
+        if (source.reference) return source;
+        const message = userMessages.find(candidate => this.locate(candidate.content, source.quote));
+        return message
+          ? { ...source, reference: this.forSessionMessage(sessionId, message.id, message.content, source.quote) }
+          : source;
+      });
+      referenced = { ...referenced, ...InsightCategoryRegistry.withSection(referenced, section, { ...current, sources }) };
+    });
+
+    return referenced;
+  }
+
+  /**
+   * Find a quote in a text
+   * The recorded span wins if it still holds the quote; otherwise the quote is searched for,
+   * ignoring case, whitespace and surrounding punctuation the extractor may have changed.
+   */
+  static locate(text: string, quote: string, hint?: insightSourceSpan): insightSourceSpan | null {
+    const target = quote.trim().replace(/^["'“‘]+|["'”’.…]+$/g, '').trim();
+    if (!text || !target) return null;
+
+    if (hint && hint.start >= 0 && hint.end <= text.length
+      && this.normalize(text.slice(hint.start, hint.end)).text.includes(this.normalize(target).text)) {
+      return hint;
+    }
+
+    const exact = text.indexOf(target);
+    if (exact !== -1) {
+      return { start: exact, end: exact + target.length };
+    }
+
+    const haystack = this.normalize(text);
+    const needle = this.normalize(target).text;
+    const index = haystack.text.indexOf(needle);
+    if (index === -1 || !needle) return null;
+
+    return {
+      start: haystack.offsets[index],
+      end: haystack.offsets[index + needle.length - 1] + 1
+    };
+  }
+
+  /**
+   * Lowercase text with whitespace runs collapsed, and the original offset of each character
+   */
+  private static normalize(text: string): { text: string; offsets: number[] } {
+    let normalized = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const isSpace = /\s/.test(text[i]);
+      if (isSpace && (normalized.length === 0 || normalized.endsWith(' '))) continue;
+
+      normalized += isSpace ? ' ' : text[i].toLowerCase();
+      offsets.push(i);
+    }
+
+    return { text: normalized.trimEnd(), offsets };
+  }
+}
@@ -0,0 +1,415 @@
+import { CoachingBranchGroup, CoachingSessionTime, StoredCoachingMessage, StreamingEvent, StreamingEventType } from '@/types/coaching';
+
+// Time allowed until the response headers arrive
+const DEFAULT_TIMEOUT_MS = 30000;
+// Time allowed between two chunks of an open stream
+const DEFAULT_IDLE_TIMEOUT_MS = 45000;
+// Attempts to recover a dropped reply from the saved session, with doubling delay
+const DEFAULT_RESUME_ATTEMPTS = 3;
+const DEFAULT_RESUME_DELAY_MS = 2000;
+
+const STREAMING_EVENT_TYPES: StreamingEventType[] = ['content', 'thinking', 'metadata', 'done', 'error'];
+
+export type CoachingStreamErrorCode = 'aborted' | 'timeout' | 'http' | 'server' | 'connection';
+
+/**
+ * Thrown when a coaching stream fails
+ * `partialContent` holds whatever content arrived before the failure
+ */
+export class CoachingStreamError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CoachingStreamErrorCode,
+    public readonly partialContent: string = '',
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'CoachingStreamError';
+  }
+}
+
+/**
+ * Body of a `api/coaching/chat` request
+ */
+export type CoachingChatRequestBody = {
+  message: string;
+  sessionId: string;
+  sessionType?: string;
+  sessionDuration?: number;
+  sessionTime?: CoachingSessionTime;
+  conversationHistory?: unknown[];
+  [key: string]: unknown;
+};
+
+export type CoachingStreamOptions = {
+  signal?: AbortSignal;
+  // Called for every event; `streaming` is false when the platform delivered the whole body at once
+  onEvent?: (event: StreamingEvent, streaming: boolean) => void;
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  resumeAttempts?: number; // 0 disables resuming
+  resumeDelayMs?: number;
+};
+
+export type CoachingStreamResult = {
+  content: string;
+  thinking: string;
+  metadata: Record<string, unknown>;
+  model?: string;
+  streamed: boolean; // body was read incrementally
+  resumed: boolean; // reply was recovered from the saved session after a dropped connection
+};
+
+export type CoachingStreamClientConfig = {
+  apiUrl?: string; // defaults to EXPO_PUBLIC_API_URL
+  getToken: () => Promise<string | null>;
+};
+
+/**
+ * Server-sent events buffer
+ * Keeps partial lines between network chunks and emits events once their blank line arrives
+ */
+export class SseEventBuffer {
+  private pending = '';
+  private dataLines: string[] = [];
+
+  /**
+   * Add a decoded chunk and return the events it completed
+   */
+  push(chunk: string): StreamingEvent[] {
+    const text = this.pending + chunk;
+    // A trailing "\r" may be the first half of "\r\n" - wait for the next chunk
+    const holdCarriageReturn = text.endsWith('\r');
+    const lines = (holdCarriageReturn ? text.slice(0, -1) : text).split(/\r\n|\r|\n/);
+    // The last element is an unfinished line (or '' when the chunk ended with a newline)
+    this.pending = (lines.pop() ?? '') + (holdCarriageReturn ? '\r' : '');
+
+    const events: StreamingEvent[] = [];
+    for (const line of lines) {
+      events.push(...this.processLine(line));
+    }
+    return events;
+  }
+
+  /**
+   * Emit whatever is left when the stream ends without a final blank line
+   */
+  flush(): StreamingEvent[] {
+    const line = this.pending.replace(/\r$/, '');
+    const events = line ? this.processLine(line) : [];
+    this.pending = '';
+    return [...events, ...this.dispatch()];
+  }
+
+  private processLine(line: string): StreamingEvent[] {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    if (line.startsWith(':')) {
+      return []; // comment / keep-alive
+    }
+
+    // Only `data` fields are used - `event`, `id` and `retry` are ignored
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1);
+
+    if (field === 'data') {
+      this.dataLines.push(value.startsWith(' ') ? value.slice(1) : value);
+    }
+    return [];
+  }
+
+  private dispatch(): StreamingEvent[] {
+    if (this.dataLines.length === 0) return [];
+
+    const dataLines = this.dataLines;
+    this.dataLines = [];
+
+    const event = this.parseData(dataLines.join('\n'));
+    if (event) {
+      return [event];
+    }
+
+    // Servers that omit the blank line between events send one JSON object per data line
+    if (dataLines.length > 1) {
+      return dataLines
+        .map(data => this.parseData(data))
+        .filter((parsed): parsed is StreamingEvent => parsed !== null);
+    }
+
+    console.warn('⚠️ Skipping unparseable SSE data:', dataLines.join('\n'));
+    return [];
+  }
+
+  private parseData(data: string): StreamingEvent | null {
+    if (data.trim() === '[DONE]') {
+      return { type: 'done' };
+    }
+
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed && STREAMING_EVENT_TYPES.includes(parsed.type)) {
+        return parsed as StreamingEvent;
+      }
+    } catch {
+      // Not JSON (yet) - handled by the caller
+    }
+    return null;
+  }
+}
+
+/**
+ * Coaching Stream Client
+ * Streams `api/coaching/chat` replies with partial-line buffering, abort, timeouts and
+ * recovery of a dropped reply from the saved session (`api/coaching/sessions?sessionId=`).
+ * Also stores the branches of an edited conversation with that session.
+ */
+export class CoachingStreamClient {
+  constructor(private config: CoachingStreamClientConfig) {}
+
+  /**
+   * Send a chat message and collect the streamed reply
+   */
+  async chat(body: CoachingChatRequestBody, options: CoachingStreamOptions = {}): Promise<CoachingStreamResult> {
+    const result: CoachingStreamResult = { content: '', thinking: '', metadata: {}, streamed: false, resumed: false };
+
+    try {
+      await this.streamReply(body, options, result);
+      return result;
+    } catch (error) {
+      const streamError = this.toStreamError(error, result.content, options.signal);
+      if (streamError.code !== 'timeout' && streamError.code !== 'connection') {
+        throw streamError;
+      }
+
+      console.warn(`⚠️ Coaching stream dropped (${streamError.message}) - resuming from session ${body.sessionId}`);
+      const resumed = await this.resume(body.sessionId, body.message, options);
+      if (!resumed) {
+        throw streamError;
+      }
+
+      // Report the content the caller hasn't seen yet - if the saved reply doesn't
+      // continue the partial one, `content` of the result replaces it
+      if (resumed.startsWith(result.content) && resumed.length > result.content.length) {
+        options.onEvent?.({ type: 'content', content: resumed.slice(result.content.length) }, false);
+      }
+      options.onEvent?.({ type: 'done' }, false);
+
+      return { ...result, content: resumed, resumed: true };
+    }
+  }
+
+  /**
+   * Fetch the assistant reply to `userMessage` from the saved session
+   * Polls while the server may still be generating it; returns null when it never appears
+   */
+  async resume(sessionId: string, userMessage: string, options: CoachingStreamOptions = {}): Promise<string | null> {
+    const attempts = options.resumeAttempts ?? DEFAULT_RESUME_ATTEMPTS;
+    let delay = options.resumeDelayMs ?? DEFAULT_RESUME_DELAY_MS;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      await this.wait(delay, options.signal);
+      delay *= 2;
+
+      try {
+        const reply = await this.fetchSavedReply(sessionId, userMessage.trim(), options.signal);
+        if (reply) {
+          console.log(`✅ Resumed coaching reply from session ${sessionId}`);
+          return reply;
+        }
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw new CoachingStreamError('Request aborted', 'aborted');
+        }
+        console.error('Error resuming coaching session:', error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Store the active path and the alternate branches with the server session
+   * Returns false when the server couldn't be reached, so the caller can retry later
+   */
+  async saveBranches(sessionId: string, messages: StoredCoachingMessage[], branches: Record<string, CoachingBranchGroup>): Promise<boolean> {
+    const token = await this.config.getToken();
+    if (!token) return false;
+
+    try {
+      const response = await fetch(`${this.config.apiUrl ?? process.env.EXPO_PUBLIC_API_URL}api/coaching/sessions`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ sessionId, messages, branches }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error saving coaching branches:', error);
+      return false;
+    }
+  }
+
+  private async streamReply(body: CoachingChatRequestBody, options: CoachingStreamOptions, result: CoachingStreamResult): Promise<void> {
+    const token = await this.config.getToken();
+    if (!token) {
+      throw new CoachingStreamError('Authentication token not available', 'http', '', 401);
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
+    if (options.signal?.aborted) controller.abort();
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const startTimer = (ms: number) => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, ms);
+    };
+
+    const buffer = new SseEventBuffer();
+    let receivedDone = false;
+    const handle = (events: StreamingEvent[], streaming: boolean) => {
+      for (const event of events) {
+        if (event.type === 'content' && event.content) {
+          result.content += event.content;
+        } else if (event.type === 'thinking' && event.thinking) {
+          result.thinking += event.thinking;
+        } else if (event.type === 'metadata' && event.metadata) {
+          result.metadata = { ...result.metadata, ...event.metadata };
+        } else if (event.type === 'error') {
+          throw new CoachingStreamError(event.error || 'Streaming error occurred', 'server', result.content);
+        } else if (event.type === 'done') {
+          receivedDone = true;
+        }
+
+        if (event.model) {
+          result.model = event.model;
+        }
+        options.onEvent?.(event, streaming);
+      }
+    };
+
+    try {
+      startTimer(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      const response = await fetch(`${this.config.apiUrl ?? process.env.EXPO_PUBLIC_API_URL}api/coaching/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new CoachingStreamError(`API Error: ${response.status} - ${errorText}`, 'http', '', response.status);
+      }
+
+      const idleTimeout = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+      startTimer(idleTimeout);
+
+      // React Native fetch has no readable body - the whole reply arrives at once
+      if (!response.body) {
+        const text = await response.text();
+        handle([...buffer.push(text), ...buffer.flush()], false);
+      } else {
+        result.streamed = true;
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+
+        while (!receivedDone) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          startTimer(idleTimeout);
+          handle(buffer.push(decoder.decode(value, { stream: true })), true);
+        }
+
+        if (receivedDone) {
+          reader.cancel().catch(() => {});
+        } else {
+          handle([...buffer.push(decoder.decode()), ...buffer.flush()], true);
+        }
+      }
+
+      if (!receivedDone) {
+        throw new CoachingStreamError('Stream ended before the reply was complete', 'connection', result.content);
+      }
+    } catch (error) {
+      if (timedOut && !(error instanceof CoachingStreamError)) {
+        throw new CoachingStreamError('Coaching stream timed out', 'timeout', result.content);
+      }
+      throw error;
+    } finally {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async fetchSavedReply(sessionId: string, userMessage: string, signal?: AbortSignal): Promise<string | null> {
+    const token = await this.config.getToken();
+    if (!token) return null;
+
+    const response = await fetch(`${this.config.apiUrl ?? process.env.EXPO_PUBLIC_API_URL}api/coaching/sessions?sessionId=${encodeURIComponent(sessionId)}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      signal,
+    });
+
+    if (!response.ok) return null;
+
+    const result = await response.json();
+    const messages: Array<{ role: string; content: string }> = result.success && result.session?.messages || [];
+    const last = messages[messages.length - 1];
+    const previous = messages[messages.length - 2];
+
+    // Only accept a reply that answers the message we sent
+    if (last?.role === 'assistant' && previous?.role === 'user' && previous.content.trim() === userMessage && last.content) {
+      return last.content;
+    }
+    return null;
+  }
+
+  private toStreamError(error: unknown, partialContent: string, signal?: AbortSignal): CoachingStreamError {
+    if (error instanceof CoachingStreamError) {
+      return error;
+    }
+    if (signal?.aborted) {
+      return new CoachingStreamError('Request aborted', 'aborted', partialContent);
+    }
+    // fetch and reader.read() reject with a TypeError when the connection drops
+    return new CoachingStreamError(error instanceof Error ? error.message : 'Connection lost', 'connection', partialContent);
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CoachingStreamError('Request aborted', 'aborted'));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CoachingStreamError('Request aborted', 'aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -13,11 +13,14 @@ import {
   orderBy,
   limit,
   getDocs,
-  onSnapshot
+  onSnapshot,
+  runTransaction
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { UserAccount, MorningGuidance } from '@/types/journal';
-import { userInsight } from '@/types/insights';
+import { UserAccount, MorningGuidance, JournalEntryRevision } from '@/types/journal';
+import { userInsight, insightVersion } from '@/types/insights';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+import { InsightHistory } from '@/lib/insightHistory';
 import { BackendCoachingMessage } from '@/types/coachingMessage';
 
 // Firestore user account interface
@@ -144,6 +147,8 @@ const convertToFirestoreUserData = (userAccount: Partial<UserAccount>): Partial<
 export class FirestoreService {
   private static USERS_COLLECTION_NAME = 'users';
   private static INSIGHTS_COLLECTION_NAME = 'userInsights';
+  private static INSIGHT_VERSIONS_COLLECTION_NAME = 'userInsightVersions';
+  private static JOURNAL_ENTRY_REVISIONS_COLLECTION_NAME = 'journal_entry_revisions';
   
   // Get or create user account
   static async getUserAccount(userId: string): Promise<UserAccount> {
@@ -371,23 +376,242 @@ export class FirestoreService {
         return null;
       }
       
-      const doc = querySnapshot.docs[0];
-      const data = doc.data();
-      
+      return this.toUserInsight(querySnapshot.docs[0].data());
+    } catch (error) {
+      console.error('Error fetching user insights:', error);
+      throw new Error('Failed to fetch insights from Firestore');
+    }
+  }
+
+  private static toUserInsight(data: any): userInsight {
+    return {
+      mainFocus: data.mainFocus,
+      keyBlockers: data.keyBlockers,
+      plan: data.plan,
+      ...(data.categories && { categories: data.categories }),
+      ...(data.userEdits && { userEdits: data.userEdits }),
+      userId: data.userId,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt
+    };
+  }
+
+  /**
+   * Insight states (documents and recorded versions) updated within a date range, oldest first,
+   * plus the latest one before it
+   */
+  static async getUserInsightsBetween(userId: string, from: Date, to: Date): Promise<{ previous: userInsight | null; updates: userInsight[] }> {
+    try {
+      const q = query(
+        collection(db, this.INSIGHTS_COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('updatedAt', 'desc')
+      );
+
+      const [querySnapshot, versions] = await Promise.all([
+        getDocs(q),
+        this.getInsightVersions(userId, 200).catch(() => [])
+      ]);
+      const documents = querySnapshot.docs.map(doc => this.toUserInsight(doc.data()));
+
+      // Recorded versions keep the states the documents have since overwritten
+      const byUpdatedAt = new Map<number, userInsight>();
+      versions.forEach(version => byUpdatedAt.set(version.updatedAt, {
+        ...InsightCategoryRegistry.fromSections(version.snapshot),
+        userId: version.userId,
+        createdAt: version.updatedAt,
+        updatedAt: version.updatedAt
+      }));
+      documents.forEach(insight => byUpdatedAt.set(insight.updatedAt, insight));
+      const insights = Array.from(byUpdatedAt.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+
       return {
-        mainFocus: data.mainFocus,
-        keyBlockers: data.keyBlockers,
-        plan: data.plan,
-        userId: data.userId,
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt
+        previous: insights.find(insight => insight.updatedAt < from.getTime()) || null,
+        updates: insights
+          .filter(insight => insight.updatedAt >= from.getTime() && insight.updatedAt <= to.getTime())
+          .reverse()
       };
     } catch (error) {
-      console.error('Error fetching user insights:', error);
+      console.error('Error fetching user insights for range:', error);
       throw new Error('Failed to fetch insights from Firestore');
     }
   }
 
+  /**
+   * Save changes to the user's latest insights (edits, pins, rejections, re-applied extractions)
+   * The new state is recorded as a version in the same transaction, attributed to `sessionId` if given,
+   * together with the state it replaces if that one was never recorded (e.g. written by the extractor)
+   */
+  static async updateUserInsights(userId: string, updates: Partial<userInsight>, sessionId?: string): Promise<void> {
+    try {
+      const q = query(
+        collection(db, this.INSIGHTS_COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('updatedAt', 'desc'),
+        limit(1)
+      );
+
+      const querySnapshot = await getDocs(q);
+      if (querySnapshot.empty) {
+        throw new Error('No insights to update');
+      }
+
+      const insightRef = querySnapshot.docs[0].ref;
+      await runTransaction(db, async transaction => {
+        const insightSnap = await transaction.get(insightRef);
+        if (!insightSnap.exists()) {
+          throw new Error('No insights to update');
+        }
+
+        const current = this.toUserInsight(insightSnap.data());
+        const previousVersion = InsightHistory.createVersion(current);
+        const previousVersionRef = doc(db, this.INSIGHT_VERSIONS_COLLECTION_NAME, previousVersion.id);
+        const previousVersionSnap = await transaction.get(previousVersionRef);
+
+        const updated: userInsight = { ...current, ...updates, updatedAt: Date.now() };
+        const version = InsightHistory.createVersion(updated, sessionId);
+
+        if (!previousVersionSnap.exists()) {
+          transaction.set(previousVersionRef, previousVersion);
+        }
+        transaction.update(insightRef, { ...updates, updatedAt: updated.updatedAt });
+        transaction.set(doc(db, this.INSIGHT_VERSIONS_COLLECTION_NAME, version.id), version);
+      });
+      console.log('✏️ Updated user insights:', Object.keys(updates), sessionId ? `(session ${sessionId})` : '');
+    } catch (error) {
+      console.error('Error updating user insights:', error);
+      throw new Error('Failed to update insights in Firestore');
+    }
+  }
+
+  /**
+   * Adjust the insights an extraction just wrote for a session, keeping it a single insight version
+   * Reads the extractor's result, adjusts it and overwrites both the document and the extractor's version
+   * of it in one transaction. Returns false if the extractor wrote nothing since `previousUpdatedAt`.
+   */
+  static async adjustExtractedInsights(
+    userId: string,
+    sessionId: string,
+    previousUpdatedAt: number | undefined,
+    adjust: (extracted: userInsight) => userInsight
+  ): Promise<boolean> {
+    try {
+      const q = query(
+        collection(db, this.INSIGHTS_COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('updatedAt', 'desc'),
+        limit(1)
+      );
+
+      const querySnapshot = await getDocs(q);
+      if (querySnapshot.empty) return false;
+
+      const insightRef = querySnapshot.docs[0].ref;
+      const adjusted = await runTransaction(db, async transaction => {
+        const insightSnap = await transaction.get(insightRef);
+        if (!insightSnap.exists()) return false;
+
+        const extracted = this.toUserInsight(insightSnap.data());
+        if (extracted.updatedAt === previousUpdatedAt) return false;
+
+        // The extractor's timestamp is kept, so its version is the one overwritten
+        const { userId: _userId, createdAt: _createdAt, updatedAt: _updatedAt, ...sections } = adjust(extracted);
+        const version = InsightHistory.createVersion({ ...extracted, ...sections }, sessionId);
+
+        transaction.update(insightRef, sections);
+        transaction.set(doc(db, this.INSIGHT_VERSIONS_COLLECTION_NAME, version.id), version);
+        return true;
+      });
+
+      if (adjusted) console.log('✏️ Adjusted extracted insights', `(session ${sessionId})`);
+      return adjusted;
+    } catch (error) {
+      console.error('Error adjusting extracted insights:', error);
+      throw new Error('Failed to update insights in Firestore');
+    }
+  }
+
+  // Insight History Methods
+
+  /**
+   * Insight versions of a user, newest first
+   */
+  static async getInsightVersions(userId: string, maxVersions: number = 50): Promise<insightVersion[]> {
+    try {
+      const q = query(
+        collection(db, this.INSIGHT_VERSIONS_COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('updatedAt', 'desc'),
+        limit(maxVersions)
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          userId: data.userId,
+          snapshot: data.snapshot,
+          updatedAt: data.updatedAt,
+          recordedAt: data.recordedAt,
+          ...(data.sessionId && { sessionId: data.sessionId })
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching insight versions:', error);
+      throw new Error('Failed to fetch insight history from Firestore');
+    }
+  }
+
+  /**
+   * Revision log of a journal entry, newest first
+   */
+  static async getJournalEntryRevisions(userId: string, entryId: string, maxRevisions: number = 50): Promise<JournalEntryRevision[]> {
+    try {
+      const q = query(
+        collection(db, this.JOURNAL_ENTRY_REVISIONS_COLLECTION_NAME),
+        where('uid', '==', userId),
+        where('entryId', '==', entryId),
+        orderBy('revision', 'desc'),
+        limit(maxRevisions)
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          entryId: data.entryId,
+          uid: data.uid,
+          content: data.content || '',
+          revision: data.revision ?? 0,
+          savedAt: data.savedAt?.toDate ? data.savedAt.toDate() : new Date(),
+          recordedAt: data.recordedAt?.toDate ? data.recordedAt.toDate() : new Date()
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching journal entry revisions:', error);
+      throw new Error('Failed to fetch entry history from Firestore');
+    }
+  }
+
+  /**
+   * Delete the revision log of a deleted journal entry
+   */
+  static async deleteJournalEntryRevisions(userId: string, entryId: string): Promise<void> {
+    const q = query(
+      collection(db, this.JOURNAL_ENTRY_REVISIONS_COLLECTION_NAME),
+      where('uid', '==', userId),
+      where('entryId', '==', entryId)
+    );
+
+    const querySnapshot = await getDocs(q);
+    await Promise.all(querySnapshot.docs.map(revisionDoc => deleteDoc(revisionDoc.ref)));
+    if (querySnapshot.size > 0) {
+      console.log(`🗑️ Deleted ${querySnapshot.size} revisions of journal entry ${entryId}`);
+    }
+  }
+
   /**
    * Real-time listener for user insights
    */
@@ -416,6 +640,8 @@ export class FirestoreService {
           mainFocus: data.mainFocus,
           keyBlockers: data.keyBlockers,
           plan: data.plan,
+          ...(data.categories && { categories: data.categories }),
+          ...(data.userEdits && { userEdits: data.userEdits }),
           userId: data.userId,
           createdAt: data.createdAt,
           updatedAt: data.updatedAt
@@ -0,0 +1,164 @@
+import { insightCategory, insightSection, insightSectionKey, userInsight } from '@/types/insights';
+
+// The original three categories live at the top level of the document, all others in `categories`
+export const TOP_LEVEL_SECTIONS = ['mainFocus', 'keyBlockers', 'plan'] as const;
+type topLevelSectionKey = typeof TOP_LEVEL_SECTIONS[number];
+
+const CATEGORIES: insightCategory[] = [
+  {
+    key: 'mainFocus',
+    title: 'Your Main Focus',
+    label: 'Main focus',
+    description: 'The one thing that matters most to the user right now',
+    color: '#2563EB'
+  },
+  {
+    key: 'keyBlockers',
+    title: 'Key Blockers',
+    label: 'Key blockers',
+    description: 'What keeps getting in the way of that focus',
+    color: '#EA580C'
+  },
+  {
+    key: 'plan',
+    title: 'Your Plan',
+    label: 'Plan',
+    description: 'The concrete next steps the user committed to',
+    color: '#16A34A'
+  },
+  {
+    key: 'values',
+    title: 'Your Values',
+    label: 'Values',
+    description: 'What the user cares about and wants their choices to reflect',
+    color: '#7C3AED'
+  },
+  {
+    key: 'energyDrains',
+    title: 'Energy Drains',
+    label: 'Energy drains',
+    description: 'People, tasks or situations that leave the user depleted',
+    color: '#DC2626'
+  },
+  {
+    key: 'relationships',
+    title: 'Relationships',
+    label: 'Relationships',
+    description: 'The people who matter to the user and how those relationships are going',
+    color: '#DB2777'
+  },
+  {
+    key: 'habits',
+    title: 'Your Habits',
+    label: 'Habits',
+    description: 'Routines the user is building or trying to break',
+    color: '#0891B2'
+  },
+  {
+    key: 'wins',
+    title: 'Recent Wins',
+    label: 'Wins',
+    description: 'Progress and successes the user mentioned, however small',
+    color: '#CA8A04'
+  }
+];
+
+/**
+ * Insight Category Registry
+ * The categories insights are extracted into and shown as Compass pages, in display order.
+ * Documents written before categories existed only have the top-level three and still read the same.
+ */
+export class InsightCategoryRegistry {
+  private static categories: Map<insightSectionKey, insightCategory> = new Map(
+    CATEGORIES.map(category => [category.key, category])
+  );
+
+  /**
+   * All categories in display order
+   */
+  static getAll(): insightCategory[] {
+    return Array.from(this.categories.values());
+  }
+
+  /**
+   * The categories the extractor should fill, sent with each extraction request
+   */
+  static forExtraction(): Array<Pick<insightCategory, 'key' | 'label' | 'description'>> {
+    return this.getAll().map(({ key, label, description }) => ({ key, label, description }));
+  }
+
+  /**
+   * A category by key
+   */
+  static get(key: insightSectionKey): insightCategory {
+    return this.categories.get(key)!;
+  }
+
+  /**
+   * Whether a stored key is a known category - keys written by a newer extractor are skipped
+   */
+  static isSectionKey(key: string): key is insightSectionKey {
+    return this.categories.has(key as insightSectionKey);
+  }
+
+  static isTopLevel(key: insightSectionKey): key is topLevelSectionKey {
+    return (TOP_LEVEL_SECTIONS as readonly string[]).includes(key);
+  }
+
+  /**
+   * A section of an insight document, wherever it is stored
+   */
+  static getSection(insight: userInsight, key: insightSectionKey): insightSection | undefined {
+    return this.isTopLevel(key) ? insight[key] : insight.categories?.[key];
+  }
+
+  /**
+   * Keys of the sections an insight document has, in display order
+   * The top-level three are always included; other categories only once extracted
+   */
+  static getSectionKeys(insight: userInsight): insightSectionKey[] {
+    const stored = Object.keys(insight.categories || {});
+
+    return this.getAll()
+      .map(category => category.key)
+      .filter(key => this.isTopLevel(key) || stored.includes(key));
+  }
+
+  /**
+   * All sections of an insight document by key
+   */
+  static getSections(insight: userInsight): Partial<Record<insightSectionKey, insightSection>> {
+    const sections: Partial<Record<insightSectionKey, insightSection>> = {};
+    this.getSectionKeys(insight).forEach(key => {
+      const section = this.getSection(insight, key);
+      if (section) sections[key] = section;
+    });
+    return sections;
+  }
+
+  /**
+   * Document fields that replace one section
+   */
+  static withSection(insight: userInsight, key: insightSectionKey, section: insightSection): Partial<userInsight> {
+    return this.isTopLevel(key)
+      ? { [key]: section }
+      : { categories: { ...insight.categories, [key]: section } };
+  }
+
+  /**
+   * Split sections by key (e.g. a version snapshot) into document fields
+   */
+  static fromSections(sections: Partial<Record<insightSectionKey, insightSection>>): Pick<userInsight, 'mainFocus' | 'keyBlockers' | 'plan' | 'categories'> {
+    const categories: Partial<Record<insightSectionKey, insightSection>> = {};
+    Object.entries(sections).forEach(([key, section]) => {
+      if (section && this.isSectionKey(key) && !this.isTopLevel(key)) categories[key] = section;
+    });
+
+    return {
+      mainFocus: sections.mainFocus!,
+      keyBlockers: sections.keyBlockers!,
+      plan: sections.plan!,
+      ...(Object.keys(categories).length > 0 && { categories })
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  insightSection,
+  insightSectionDiff,
+  insightSectionKey,
+  insightSource,
+  insightVersion,
+  insightVersionDiff,
+  userInsight
+} from '@/types/insights';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+
+/**
+ * Insight History
+ * Builds versioned snapshots of a user's insights and compares them.
+ */
+export class InsightHistory {
+  /**
+   * Versions are keyed by user and insight updatedAt, so recording the same state twice is a no-op
+   */
+  static versionId(userId: string, updatedAt: number): string {
+    return `${userId}_${updatedAt}`;
+  }
+
+  /**
+   * Snapshot of an insight document
+   */
+  static createVersion(insight: userInsight, sessionId?: string, recordedAt: number = Date.now()): insightVersion {
+    return {
+      id: this.versionId(insight.userId, insight.updatedAt),
+      userId: insight.userId,
+      snapshot: InsightCategoryRegistry.getSections(insight),
+      updatedAt: insight.updatedAt,
+      recordedAt,
+      ...(sessionId && { sessionId })
+    };
+  }
+
+  /**
+   * Compare two versions - `older` may be null for the very first version
+   */
+  static diff(older: insightVersion | null, newer: insightVersion): insightVersionDiff {
+    const changedSections = this.sectionKeys(older, newer)
+      .map(section => this.diffSection(section, older?.snapshot[section], newer.snapshot[section]))
+      .filter((diff): diff is insightSectionDiff => diff !== null);
+
+    return {
+      fromVersionId: older?.id ?? null,
+      toVersionId: newer.id,
+      changedSections
+    };
+  }
+
+  /**
+   * Diff every version against the one before it, newest first
+   * Versions without any changed section are left out
+   */
+  static timeline(versions: insightVersion[]): Array<{ version: insightVersion; diff: insightVersionDiff }> {
+    const sorted = [...versions].sort((a, b) => a.updatedAt - b.updatedAt);
+
+    return sorted
+      .map((version, index) => ({ version, diff: this.diff(index > 0 ? sorted[index - 1] : null, version) }))
+      .filter(({ diff }) => diff.changedSections.length > 0)
+      .reverse();
+  }
+
+  /**
+   * Sections of either version, in display order
+   */
+  private static sectionKeys(older: insightVersion | null, newer: insightVersion): insightSectionKey[] {
+    const keys = new Set([...Object.keys(older?.snapshot || {}), ...Object.keys(newer.snapshot)]);
+
+    return InsightCategoryRegistry.getAll()
+      .map(category => category.key)
+      .filter(key => keys.has(key));
+  }
+
+  private static diffSection(
+    section: insightSectionKey,
+    before: insightSection | undefined,
+    after: insightSection | undefined
+  ): insightSectionDiff | null {
+    if (!after) return null;
+
+    const sourceKey = (source: insightSource) => `${source.extractedAt}:${source.quote}`;
+    const beforeKeys = new Set((before?.sources || []).map(sourceKey));
+    const afterKeys = new Set((after.sources || []).map(sourceKey));
+
+    const diff: insightSectionDiff = {
+      section,
+      headlineChanged: (before?.headline || '') !== (after.headline || ''),
+      descriptionChanged: (before?.description || '') !== (after.description || ''),
+      ...(before && { before: { headline: before.headline || '', description: before.description || '' } }),
+      after: { headline: after.headline || '', description: after.description || '' },
+      addedSources: (after.sources || []).filter(source => !beforeKeys.has(sourceKey(source))),
+      removedSources: (before?.sources || []).filter(source => !afterKeys.has(sourceKey(source)))
+    };
+
+    const changed = diff.headlineChanged
+      || diff.descriptionChanged
+      || diff.addedSources.length > 0
+      || diff.removedSources.length > 0;
+
+    return changed ? diff : null;
+  }
+}
@@ -0,0 +1,110 @@
+import { JournalBlockChange } from '@/types/journal';
+
+// Tags that never have a closing tag
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'source', 'wbr']);
+
+/**
+ * Journal Diff
+ * Compares two versions of a journal entry block by block (paragraphs, headings, lists,
+ * coaching blocks) and merges them, so changes can be shown and picked per paragraph.
+ */
+export class JournalDiff {
+  /**
+   * Top-level blocks of entry HTML, in order
+   */
+  static splitBlocks(html: string): string[] {
+    if (!html) return [];
+
+    const blocks: string[] = [];
+    const tagPattern = /<\/?([a-zA-Z][a-zA-Z0-9]*)[^>]*?(\/?)>/g;
+    let depth = 0;
+    let blockStart = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(html)) !== null) {
+      const [tag, name, selfClosing] = match;
+      const isVoid = VOID_TAGS.has(name.toLowerCase()) || selfClosing === '/';
+
+      if (depth === 0) {
+        // Loose text between blocks is a block of its own
+        const text = html.slice(blockStart, match.index);
+        if (text.trim()) blocks.push(text.trim());
+        blockStart = match.index;
+      }
+
+      if (isVoid) {
+        if (depth === 0) {
+          blocks.push(tag);
+          blockStart = match.index + tag.length;
+        }
+      } else if (tag.startsWith('</')) {
+        depth = Math.max(depth - 1, 0);
+        if (depth === 0) {
+          blocks.push(html.slice(blockStart, match.index + tag.length));
+          blockStart = match.index + tag.length;
+        }
+      } else {
+        depth++;
+      }
+    }
+
+    const rest = html.slice(blockStart);
+    if (rest.trim()) blocks.push(rest.trim());
+
+    return blocks;
+  }
+
+  /**
+   * Blocks of `before` and `after` in document order, marked as kept, removed or added
+   */
+  static diff(before: string, after: string): JournalBlockChange[] {
+    const a = this.splitBlocks(before);
+    const b = this.splitBlocks(after);
+
+    // Longest common subsequence of blocks
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const changes: JournalBlockChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        changes.push({ kind: 'same', html: a[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        changes.push({ kind: 'removed', html: a[i++] });
+      } else {
+        changes.push({ kind: 'added', html: b[j++] });
+      }
+    }
+    while (i < a.length) changes.push({ kind: 'removed', html: a[i++] });
+    while (j < b.length) changes.push({ kind: 'added', html: b[j++] });
+
+    return changes;
+  }
+
+  /**
+   * Entry HTML from the unchanged blocks plus the changed blocks that are kept
+   */
+  static merge(changes: JournalBlockChange[], keep: (change: JournalBlockChange, index: number) => boolean): string {
+    return changes
+      .filter((change, index) => change.kind === 'same' || keep(change, index))
+      .map(change => change.html)
+      .join('');
+  }
+
+  /**
+   * Whether two versions differ at all
+   */
+  static hasChanges(changes: JournalBlockChange[]): boolean {
+    return changes.some(change => change.kind !== 'same');
+  }
+}
@@ -0,0 +1,38 @@
+import { JournalRevisionBase } from '@/types/journal';
+
+/**
+ * Journal Revision
+ * Every write to journal_entries bumps the entry's `revision` and stores a `contentHash`.
+ * A device saves on top of the revision and hash it last synced; if the server moved on
+ * since then (also through writes that don't bump the revision, like older web app versions),
+ * the save is stale and has to be merged instead of overwriting the other edit.
+ */
+export class JournalRevision {
+  /**
+   * Short hash of entry content (32-bit FNV-1a, hex)
+   */
+  static hash(content: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+      hash ^= content.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Revision and hash of content as written to the server
+   */
+  static next(current: { revision?: number } | null, content: string): Required<JournalRevisionBase> {
+    return { revision: (current?.revision ?? 0) + 1, contentHash: this.hash(content) };
+  }
+
+  /**
+   * Whether the server version changed since the base a device's edit started from
+   */
+  static isStale(base: JournalRevisionBase, remote: { revision?: number; content: string }): boolean {
+    if ((remote.revision ?? 0) !== (base.revision ?? 0)) return true;
+    // Entries synced before revisions were tracked have no hash to compare
+    return !!base.contentHash && this.hash(remote.content) !== base.contentHash;
+  }
+}
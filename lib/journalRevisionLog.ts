@@ -0,0 +1,68 @@
+import { JournalBlockChange, JournalEditSession, JournalEntryRevision } from '@/types/journal';
+import { JournalDiff } from '@/lib/journalDiff';
+import { htmlToPlainText } from '@/lib/plainText';
+
+// Saves closer together than this belong to one editing session
+const SESSION_GAP_MS = 10 * 60 * 1000;
+// A save removing this many characters starts a new session, so the text before it is kept
+const LARGE_DELETION_CHARS = 200;
+
+/**
+ * Journal Revision Log
+ * Autosave writes an entry every few seconds, so the log doesn't keep every save. Saves are
+ * coalesced into editing sessions, and the content an entry had before each session is
+ * recorded once in journal_entry_revisions. A large deletion starts a new session, so an
+ * accidental delete in the editor can always be undone from the log.
+ */
+export class JournalRevisionLog {
+  /**
+   * Revisions are keyed by entry and server revision, so recording the same state twice is a no-op
+   */
+  static revisionId(entryId: string, revision: number): string {
+    return `${entryId}_${revision}`;
+  }
+
+  /**
+   * Editing session of a save: the current one, or a new one that still has to record its starting content
+   * A new session keeps `previousContent`, since the server may not hold it yet when the session is synced
+   */
+  static nextSession(
+    current: JournalEditSession | undefined,
+    previousContent: string,
+    nextContent: string,
+    now: Date = new Date(),
+    forceNew: boolean = false
+  ): JournalEditSession {
+    const deleted = htmlToPlainText(previousContent).length - htmlToPlainText(nextContent).length;
+    const isNew = forceNew
+      || !current
+      || now.getTime() - new Date(current.lastEditAt).getTime() > SESSION_GAP_MS
+      || deleted >= LARGE_DELETION_CHARS;
+
+    if (isNew || !current) {
+      return { startedAt: now.toISOString(), lastEditAt: now.toISOString(), snapshotPending: true, startContent: previousContent };
+    }
+    return { ...current, lastEditAt: now.toISOString() };
+  }
+
+  /**
+   * Revisions newest first, each compared with the version that followed it (the current content for the newest)
+   */
+  static timeline(
+    revisions: JournalEntryRevision[],
+    currentContent: string
+  ): Array<{ revision: JournalEntryRevision; changes: JournalBlockChange[]; added: number; removed: number }> {
+    const sorted = [...revisions].sort((a, b) => b.revision - a.revision);
+
+    return sorted.map((revision, index) => {
+      const newer = index === 0 ? currentContent : sorted[index - 1].content;
+      const changes = JournalDiff.diff(revision.content, newer);
+      return {
+        revision,
+        changes,
+        added: changes.filter(change => change.kind === 'added').length,
+        removed: changes.filter(change => change.kind === 'removed').length
+      };
+    });
+  }
+}
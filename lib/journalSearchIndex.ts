@@ -0,0 +1,233 @@
+import { JournalSearchHighlight, JournalSearchQuery, JournalSearchRange, JournalSearchResult } from '@/types/journal';
+import { htmlToPlainText } from '@/lib/plainText';
+
+// Words, including ones joined by an apostrophe (don't, l'été)
+const WORD_PATTERN = /[a-z0-9à-ÿ]+(?:['’][a-z0-9à-ÿ]+)*/g;
+// Characters of context shown before the first match in a snippet
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 140;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<JournalSearchRange, 'all'>, number> = { week: 7, month: 31, year: 365 };
+
+type Token = { term: string; start: number; end: number };
+
+type IndexedEntry = {
+  text: string;
+  timestamp: number;
+  version: string; // lastUpdated of the indexed content, to skip unchanged entries
+};
+
+/**
+ * Journal Search Index
+ * Inverted index over the plain text of journal entries, with word positions so quoted
+ * phrases can be matched. Entries are added and replaced one at a time as they are saved.
+ */
+export class JournalSearchIndex {
+  private entries: Map<string, IndexedEntry> = new Map();
+  // term -> entryId -> word positions
+  private postings: Map<string, Map<string, number[]>> = new Map();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Whether an entry is indexed at this version
+   */
+  has(entryId: string, version: string): boolean {
+    return this.entries.get(entryId)?.version === version;
+  }
+
+  ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Add or replace an entry
+   */
+  upsert(entry: { id: string; content: string; timestamp: string | Date; lastUpdated: string | Date }): void {
+    this.remove(entry.id);
+
+    const text = htmlToPlainText(entry.content);
+    this.entries.set(entry.id, {
+      text,
+      timestamp: new Date(entry.timestamp).getTime(),
+      version: new Date(entry.lastUpdated).toISOString()
+    });
+
+    JournalSearchIndex.tokenize(text).forEach((token, position) => {
+      const entryPositions = this.postings.get(token.term) || new Map<string, number[]>();
+      const positions = entryPositions.get(entry.id) || [];
+      positions.push(position);
+      entryPositions.set(entry.id, positions);
+      this.postings.set(token.term, entryPositions);
+    });
+  }
+
+  /**
+   * Remove an entry if present
+   */
+  remove(entryId: string): void {
+    const entry = this.entries.get(entryId);
+    if (!entry) return;
+
+    new Set(JournalSearchIndex.tokenize(entry.text).map(token => token.term)).forEach(term => {
+      const entryPositions = this.postings.get(term);
+      entryPositions?.delete(entryId);
+      if (entryPositions && entryPositions.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.entries.delete(entryId);
+  }
+
+  /**
+   * Entries matching every term, phrase and the date range, best match first
+   */
+  search(query: JournalSearchQuery, maxResults: number = 50): JournalSearchResult[] {
+    const prefixTerms = query.prefix ? this.expandPrefix(query.prefix) : [];
+    if (query.terms.length === 0 && query.phrases.length === 0 && !query.prefix) return [];
+    if (query.prefix && prefixTerms.length === 0) return [];
+
+    // Every word has to appear, so start from the rarest
+    const required = [...query.terms, ...query.phrases.flat()]
+      .sort((a, b) => (this.postings.get(a)?.size || 0) - (this.postings.get(b)?.size || 0));
+    let candidates: Set<string> | null = null;
+    for (const term of required) {
+      const entryIds: string[] = [...(this.postings.get(term)?.keys() || [])];
+      candidates = new Set(candidates ? entryIds.filter(id => candidates!.has(id)) : entryIds);
+      if (candidates.size === 0) return [];
+    }
+    if (query.prefix) {
+      const prefixIds = new Set(prefixTerms.flatMap(term => [...this.postings.get(term)!.keys()]));
+      candidates = new Set(candidates ? [...candidates].filter(id => prefixIds.has(id)) : prefixIds);
+    }
+
+    const results: JournalSearchResult[] = [];
+    candidates!.forEach(entryId => {
+      const entry = this.entries.get(entryId)!;
+      if (query.from && entry.timestamp < query.from.getTime()) return;
+      if (query.to && entry.timestamp > query.to.getTime()) return;
+      if (!query.phrases.every(phrase => this.containsPhrase(entryId, phrase))) return;
+
+      const score = [...query.terms, ...query.phrases.flat()].reduce((sum, term) => sum + this.termScore(term, entryId), 0)
+        + query.phrases.length * 2
+        + (prefixTerms.length > 0 ? Math.max(...prefixTerms.map(term => this.termScore(term, entryId))) : 0);
+
+      results.push({ entryId, score, timestamp: entry.timestamp, ...this.snippet(entry.text, query, prefixTerms) });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Parse search input: "quoted phrases" and words, optionally limited to a date range
+   */
+  static parseQuery(input: string, range: JournalSearchRange = 'all', now: Date = new Date()): JournalSearchQuery {
+    const phrases: string[][] = [];
+    const words: string[] = [];
+
+    // An unclosed quote still counts as a phrase while typing
+    const unquoted = input.replace(/"([^"]*)("|$)/g, (_match, phrase: string) => {
+      const phraseWords = this.tokenize(phrase).map(token => token.term);
+      if (phraseWords.length > 1) {
+        phrases.push(phraseWords);
+      } else {
+        words.push(...phraseWords);
+      }
+      return ' ';
+    });
+    words.push(...this.tokenize(unquoted).map(token => token.term));
+
+    // The word being typed matches as a prefix
+    const isTyping = /[a-z0-9à-ÿ]$/i.test(input) && !input.trimEnd().endsWith('"');
+    const prefix = isTyping && words.length > 0 && this.tokenize(unquoted).length > 0 ? words.pop()! : null;
+
+    return {
+      terms: [...new Set(words)],
+      phrases,
+      prefix,
+      ...(range !== 'all' && { from: new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS), to: now })
+    };
+  }
+
+  /**
+   * Lowercase words of a text with their character offsets
+   */
+  static tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const lower = text.toLowerCase();
+    let match: RegExpExecArray | null;
+
+    WORD_PATTERN.lastIndex = 0;
+    while ((match = WORD_PATTERN.exec(lower)) !== null) {
+      tokens.push({ term: match[0].replace(/’/g, "'"), start: match.index, end: match.index + match[0].length });
+    }
+    return tokens;
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    return [...this.postings.keys()].filter(term => term.startsWith(prefix));
+  }
+
+  private termScore(term: string, entryId: string): number {
+    const entryPositions = this.postings.get(term);
+    const frequency = entryPositions?.get(entryId)?.length || 0;
+    if (!entryPositions || frequency === 0) return 0;
+
+    const idf = Math.log(1 + this.entries.size / entryPositions.size);
+    return (1 + Math.log(frequency)) * idf;
+  }
+
+  private containsPhrase(entryId: string, phrase: string[]): boolean {
+    const starts = this.postings.get(phrase[0])?.get(entryId) || [];
+    return starts.some(start => phrase.every((term, offset) =>
+      offset === 0 || (this.postings.get(term)?.get(entryId) || []).includes(start + offset)
+    ));
+  }
+
+  /**
+   * Text around the first match, with every match in it marked
+   */
+  private snippet(text: string, query: JournalSearchQuery, prefixTerms: string[]): { snippet: string; highlights: JournalSearchHighlight[] } {
+    const tokens = JournalSearchIndex.tokenize(text);
+    const words = new Set([...query.terms, ...prefixTerms]);
+    const matches: JournalSearchHighlight[] = [];
+
+    tokens.forEach((token, index) => {
+      if (words.has(token.term)) {
+        matches.push({ start: token.start, end: token.end });
+      }
+      query.phrases.forEach(phrase => {
+        if (phrase.every((term, offset) => tokens[index + offset]?.term === term)) {
+          matches.push({ start: token.start, end: tokens[index + phrase.length - 1].end });
+        }
+      });
+    });
+    matches.sort((a, b) => a.start - b.start);
+
+    const first = matches[0]?.start ?? 0;
+    const start = Math.max(0, first - SNIPPET_LEAD);
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+
+    const highlights: JournalSearchHighlight[] = [];
+    matches
+      .filter(match => match.start >= start && match.end <= end)
+      .forEach(match => {
+        const shifted = { start: match.start - start + prefix.length, end: match.end - start + prefix.length };
+        const previous = highlights[highlights.length - 1];
+        // Merge overlapping matches (a word inside a matched phrase)
+        if (previous && shifted.start <= previous.end) {
+          previous.end = Math.max(previous.end, shifted.end);
+        } else {
+          highlights.push(shifted);
+        }
+      });
+
+    return { snippet: `${prefix}${text.slice(start, end).replace(/\n/g, ' ')}${suffix}`, highlights };
+  }
+}
@@ -0,0 +1,36 @@
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'being', 'could', 'didn', 'does', 'doing', 'from',
+  'have', 'having', 'just', 'more', 'much', 'really', 'should', 'some', 'that', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'today', 'very', 'want', 'were', 'what', 'when',
+  'which', 'will', 'with', 'would', 'your'
+]);
+
+/**
+ * Convert journal entry HTML (TipTap output) to plain text
+ * Block-level tags become line breaks so paragraphs stay separated
+ */
+export function htmlToPlainText(html: string): string {
+  if (!html) return '';
+
+  return html
+    .replace(/<(br|\/p|\/h[1-6]|\/li|\/blockquote|\/div)\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+
+/**
+ * Split plain text into lowercase search terms (4+ letters, no stop words)
+ * Duplicates are kept so callers can count term frequency
+ */
+export function extractTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-zà-ÿ]{4,}/g) || [];
+  return words.filter(word => !STOP_WORDS.has(word));
+}
@@ -1,20 +1,23 @@
 import { createStackNavigator, TransitionPresets } from '@react-navigation/stack';
+import { NavigatorScreenParams } from '@react-navigation/native';
 import React from 'react';
 import { useColorScheme } from 'react-native';
 
 // Import screens
 import { Colors } from '@/constants/Colors';
-import HomeScreen from '@/navigation/HomeScreen';
+import HomeScreen, { HomeDrawerParamList } from '@/navigation/HomeScreen';
 import SettingsScreen from '@/screens/SettingsScreen';
 import InfoScreen from '@/screens/InfoScreen';
 import HomeContent from '@/screens/HomeContent';
 import CompassStoryScreen from '@/screens/CompassStoryScreen';
 import CoachingScreen from '@/screens/CoachingScreen';
+import { CoachingCompletionData, CoachingSessionType } from '@/types/coaching';
+import { insightSource } from '@/types/insights';
 
 
 // Define the app stack param list
 export type AppStackParamList = {
-  Home: undefined;
+  Home: NavigatorScreenParams<HomeDrawerParamList> | undefined;
   Settings: undefined;
   Info: undefined;
   JournalEdit: { entryId: string };
@@ -22,12 +25,14 @@ export type AppStackParamList = {
     fromOnboarding?: boolean;
     fromCoaching?: boolean;
     sessionId?: string;
-    parsedCoachingData?: {
-      components: Array<{ type: string; props: Record<string, string> }>;
-      rawData: string;
-    };
+    parsedCoachingData?: CoachingCompletionData;
   };
-  Coaching: undefined;
+  Coaching: {
+    sessionId?: string;
+    sessionType?: CoachingSessionType;
+    sessionDuration?: number; // minutes, defaults to the session program's duration
+    highlightSource?: insightSource; // scroll to and mark this quote
+  } | undefined;
 };
 
 const Stack = createStackNavigator<AppStackParamList>();
@@ -10,6 +10,7 @@ import LoginScreen from '@/screens/auth/LoginScreen';
 import OnboardingScreen from '@/screens/auth/Onboarding';
 import OnboardingChatScreen from '@/screens/auth/OnboardingChatScreen';
 import CompassStoryScreen from '@/screens/CompassStoryScreen';
+import { CoachingCompletionData } from '@/types/coaching';
 
 // Define the auth stack param list
 export type AuthStackParamList = {
@@ -29,10 +30,7 @@ export type AuthStackParamList = {
     fromOnboarding?: boolean;
     fromCoaching?: boolean;
     sessionId?: string;
-    parsedCoachingData?: {
-      components: Array<{ type: string; props: Record<string, string> }>;
-      rawData: string;
-    };
+    parsedCoachingData?: CoachingCompletionData;
   };
 };
 
@@ -5,9 +5,17 @@ import { useColorScheme } from 'react-native';
 import { Colors } from '@/constants/Colors';
 import HomeContent from '@/screens/HomeContent';
 import JournalDrawer from '@/components/JournalDrawer';
+import { useJournalSync } from '@/hooks/useJournalSync';
+import { JournalEntry } from '@/types/journal';
+import { insightSource } from '@/types/insights';
 
 export type HomeDrawerParamList = {
-  HomeContent: undefined;
+  HomeContent: {
+    selectedEntry?: JournalEntry;
+    createNew?: boolean;
+    entryId?: string; // load this entry, e.g. when opening an insight source
+    highlightSource?: insightSource;
+  } | undefined;
 };
 
 // Context for sharing current entry ID
@@ -33,6 +41,9 @@ export default function HomeScreen() {
   const colors = Colors[colorScheme ?? 'light'];
   const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
 
+  // Sync the entries stored on the device while the journal is open
+  useJournalSync();
+
   return (
     <CurrentEntryContext.Provider value={{ currentEntryId, setCurrentEntryId }}>
       <Drawer.Navigator
@@ -2,18 +2,28 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { StyleSheet, Text, TextInput, View, useColorScheme, TouchableOpacity, ScrollView, SafeAreaView, KeyboardAvoidingView, Platform, Keyboard, ColorSchemeName, Animated } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useNavigation, useRoute } from '@react-navigation/native';
-import { ArrowLeft, Mic, X, Check, ArrowUp, RotateCcw } from 'lucide-react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { ArrowLeft, Mic, X, Check, ArrowUp, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react-native';
 import * as Crypto from 'expo-crypto';
 import { Colors } from '@/constants/Colors';
 import { AppStackParamList } from '@/navigation/AppNavigator';
 import { Button } from '@/components/ui/Button';
+import CoachingReasoningPanel from '@/components/CoachingReasoningPanel';
 import { useAICoaching, CoachingMessage } from '@/hooks/useAICoaching';
+import { useCoachingSessionTimer } from '@/hooks/useCoachingSessionTimer';
 import { useAuth } from '@/hooks/useAuth';
 import { useAudioTranscriptionAv } from '@/hooks/useAudioTranscriptionAv';
+import { CoachingCardProtocol } from '@/lib/coaching/cardProtocol';
+import { SessionProgramRegistry } from '@/lib/coaching/sessionPrograms';
+import { InsightConstraints } from '@/lib/coaching/insightConstraints';
+import { InsightCategoryRegistry } from '@/lib/insightCategories';
+import { SourceReferences } from '@/lib/coaching/sourceReferences';
+import { FirestoreService } from '@/lib/firestore';
+import { CoachingBranchGroup, CoachingCompletionData } from '@/types/coaching';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 
 type CoachingScreenNavigationProp = NativeStackNavigationProp<AppStackParamList, 'Coaching'>;
+type CoachingScreenRouteProp = RouteProp<AppStackParamList, 'Coaching'>;
 
 // Spinning animation component
 const SpinningAnimation = ({ colorScheme }: { colorScheme: ColorSchemeName }) => {
@@ -115,15 +125,17 @@ const RecordingTimer = ({ startTime, colorScheme }: { startTime: Date | null, co
 
 export default function CoachingScreen() {
   const navigation = useNavigation<CoachingScreenNavigationProp>();
-  const route = useRoute();
+  const route = useRoute<CoachingScreenRouteProp>();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const insets = useSafeAreaInsets();
   const { user, firebaseUser, getToken } = useAuth();
 
   // Get route parameters for existing session
-  const routeSessionId = (route.params as any)?.sessionId;
-  const routeSessionType = (route.params as any)?.sessionType;
+  const routeSessionId = route.params?.sessionId;
+  const program = SessionProgramRegistry.resolve(route.params?.sessionType);
+  const sessionDuration = route.params?.sessionDuration ?? program.durationMinutes;
+  const highlightSource = route.params?.highlightSource;
 
   // Session ID state - will be generated when first message is sent or loaded from route
   const [sessionId, setSessionId] = useState<string | null>(routeSessionId || null);
@@ -135,7 +147,27 @@ export default function CoachingScreen() {
   };
 
   // Use the AI coaching hook
-  const { messages, isLoading, sendMessage, resendMessage, setMessages, progress } = useAICoaching();
+  const {
+    messages,
+    isLoading,
+    isOffline,
+    sendMessage,
+    resendMessage,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
+    restoreSession,
+    applyServerSession,
+    setMessages,
+    progress
+  } = useAICoaching();
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+
+  // Time box of the session, started with the first user message
+  const sessionTimer = useCoachingSessionTimer(sessionId, sessionDuration);
+  const [wrapUpDismissed, setWrapUpDismissed] = useState(false);
+  const insightExtractionSessionRef = useRef<string | null>(null);
   
   const [chatInput, setChatInput] = useState('');
   const [isChatInputFocused, setIsChatInputFocused] = useState(false);
@@ -146,101 +178,31 @@ export default function CoachingScreen() {
     words: 0,
     keyInsights: 0
   });
-  const [parsedCoachingData, setParsedCoachingData] = useState<{
-    components: Array<{ type: string; props: Record<string, string> }>;
-    rawData: string;
-  } | null>(null);
+  const [parsedCoachingData, setParsedCoachingData] = useState<CoachingCompletionData | null>(null);
 
   // Conversation starters state
   const [shouldShowStarters, setShouldShowStarters] = useState(false);
   const startersOpacity = useRef(new Animated.Value(0)).current;
   const [hasInitiallyShown, setHasInitiallyShown] = useState(false);
 
-  // Conversation starter options
-  const conversationStarters = [
-    "Help me reflect on my personal growth",
-    "I want to be more productive",
-    "How can I build better daily habits?",
-    "I'm struggling with making an important decision",
-    "I want to improve my relationships",
-    "I'm dealing with stress and anxiety",
-    "How can I find more purpose in life?",
-    "I want to work on my self-confidence",
-    "I'm feeling lost",
-  ];
-
-  // Function to parse coaching completion data between finish tokens
+  // Conversation starter options of the session program
+  const conversationStarters = program.starters;
+
+  // Parse coaching completion data between finish tokens
   const parseCoachingCompletion = (content: string) => {
-    const finishStartIndex = content.indexOf('[finish-start]');
-    const finishEndIndex = content.indexOf('[finish-end]');
-    
-    if (finishStartIndex === -1 || finishEndIndex === -1) {
-      return { components: [], rawData: '' };
-    }
-    
-    // Extract content between finish tokens
-    const finishContent = content.slice(finishStartIndex + '[finish-start]'.length, finishEndIndex).trim();
-    
-    // Parse component markers like [focus:focus="...",context="..."]
-    const componentRegex = /\[(\w+):([^\]]+)\]/g;
-    const components: Array<{ type: string; props: Record<string, string> }> = [];
-    
-    let match;
-    while ((match = componentRegex.exec(finishContent)) !== null) {
-      const componentType = match[1];
-      const propsString = match[2];
-      
-      // Parse props from key="value" format
-      const props: Record<string, string> = {};
-      const propRegex = /(\w+)="([^"]+)"/g;
-      let propMatch;
-      
-      while ((propMatch = propRegex.exec(propsString)) !== null) {
-        const [, key, value] = propMatch;
-        props[key] = value;
-      }
-      
-      components.push({ type: componentType, props });
-    }
-    
-    console.log('🎯 Parsed coaching completion:', { 
-      componentsCount: components.length, 
-      components,
-      rawFinishContent: finishContent
-    });
-    
-    return { components, rawData: finishContent };
-  };
+    const { components, rawData } = CoachingCardProtocol.parseCompletion(content);
+    console.log('🎯 Parsed coaching completion:', { componentsCount: components.length, components, rawFinishContent: rawData });
 
-  // Function to clean message content by removing finish tokens and structured data
-  const getDisplayContent = (content: string) => {
-    let cleanContent = content;
-    
-    // Remove content between finish tokens, but preserve content after [finish-end]
-    const finishStartIndex = cleanContent.indexOf('[finish-start]');
-    const finishEndIndex = cleanContent.indexOf('[finish-end]');
-    
-    if (finishStartIndex !== -1 && finishEndIndex !== -1) {
-      // Keep content before [finish-start] and after [finish-end]
-      const beforeFinish = cleanContent.slice(0, finishStartIndex).trim();
-      const afterFinish = cleanContent.slice(finishEndIndex + '[finish-end]'.length).trim();
-      cleanContent = beforeFinish + (afterFinish ? '\n\n' + afterFinish : '');
-    } else if (finishStartIndex !== -1) {
-      // If only [finish-start] is found, remove everything after it
-      cleanContent = cleanContent.slice(0, finishStartIndex).trim();
+    const missingGoalCards = SessionProgramRegistry.getMissingGoalCards(program.id, components.map(component => component.type));
+    if (missingGoalCards.length > 0) {
+      console.warn(`⚠️ ${program.name} session finished without goal cards: ${missingGoalCards.join(', ')}`);
     }
-    
-    // Remove coaching card syntax like [checkin:...], [focus:...], etc.
-    const coachingCardRegex = /\[(\w+):[^\]]+\]/g;
-    cleanContent = cleanContent.replace(coachingCardRegex, '').trim();
-    
-    // Clean up extra whitespace/newlines that might be left
-    cleanContent = cleanContent.replace(/\n\s*\n\s*\n/g, '\n\n'); // Replace multiple newlines with double newlines
-    cleanContent = cleanContent.trim();
-    
-    return cleanContent;
+    return { components, rawData };
   };
 
+  // Clean message content by removing finish tokens and structured data
+  const getDisplayContent = (content: string) => CoachingCardProtocol.getDisplayContent(content);
+
   // Use the audio transcription hook
   const {
     isRecording,
@@ -277,6 +239,11 @@ export default function CoachingScreen() {
   const lastScrollY = useRef(0);
   const scrollTimeout = useRef<NodeJS.Timeout | null>(null);
 
+  // Insight source opened from the Compass - message positions to scroll to it
+  const messageOffsetsRef = useRef<Record<string, number>>({});
+  const highlightScrolledRef = useRef(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
   // Guard against duplicate loads for the same session
   const loadedSessionIdRef = useRef<string | null>(null);
 
@@ -317,6 +284,12 @@ export default function CoachingScreen() {
 
       setLoadingExistingSession(true);
       (async () => {
+        // Show the copy stored on the device right away
+        const storedSession = await restoreSession(routeSessionId);
+        if (storedSession) {
+          setLoadingExistingSession(false);
+        }
+
         try {
           const token = await getToken();
           if (!token) throw new Error('No auth token');
@@ -341,10 +314,24 @@ export default function CoachingScreen() {
               id: msg.id,
               role: msg.role,
               content: msg.content,
-              timestamp: new Date(msg.timestamp)
+              timestamp: new Date(msg.timestamp),
+              ...(msg.thinking && { thinking: msg.thinking }),
+              ...(msg.model && { model: msg.model }),
+              ...(msg.metadata && { metadata: msg.metadata })
             }));
 
-            setMessages(sessionMessages);
+            const sessionBranches: Record<string, CoachingBranchGroup> = result.session.branches || {};
+
+            // Keep the device copy when it has messages or branches the server doesn't know about yet
+            const keepStoredSession = !!storedSession && (
+              storedSession.outbox.length > 0
+              || Object.keys(storedSession.branches).some(branchKey => !sessionBranches[branchKey])
+              || storedSession.messages.filter(msg => !msg.isError).length > sessionMessages.length
+            );
+
+            if (!keepStoredSession) {
+              applyServerSession(sessionMessages, sessionBranches);
+            }
             console.log(`✅ Loaded existing session: ${routeSessionId} with ${sessionMessages.length} messages`);
           }
         } catch (error) {
@@ -361,14 +348,64 @@ export default function CoachingScreen() {
       setTimeout(() => {
         const initialMessage: CoachingMessage = {
           id: '1',
-          content: `Hello ${user?.firstName || 'there'}!\n\nI'm here to support your growth and reflection. What's on your mind today? Feel free to share anything that's weighing on you, exciting you, or simply present in your awareness right now.`,
+          content: program.openingMessage(user?.firstName || undefined),
           role: 'assistant',
           timestamp: new Date()
         };
         setMessages([initialMessage]);
       }, 500);
     }
-  }, [routeSessionId, firebaseUser, messages.length, setMessages, user?.firstName, getToken]);
+  }, [routeSessionId, firebaseUser, messages.length, setMessages, restoreSession, applyServerSession, user?.firstName, getToken, program]);
+
+  // Scroll to the message an insight source quotes, once the session has loaded
+  useEffect(() => {
+    if (!highlightSource || highlightScrolledRef.current || loadingExistingSession || messages.length === 0) return;
+
+    const reference = highlightSource.reference;
+    const target = (reference?.kind === 'coachingSession' && reference.messageId
+      ? messages.find(message => message.id === reference.messageId)
+      : undefined)
+      || messages.find(message => SourceReferences.locate(getDisplayContent(message.content), highlightSource.quote));
+
+    if (!target) {
+      console.log('🔍 Quoted message not found in session:', highlightSource.quote);
+      return;
+    }
+
+    highlightScrolledRef.current = true;
+    isNearBottom.current = false; // keep the auto-scroll to the latest message from taking over
+    setHighlightedMessageId(target.id);
+    setTimeout(() => {
+      const offset = messageOffsetsRef.current[target.id];
+      if (offset !== undefined) {
+        scrollViewRef.current?.scrollTo({ y: Math.max(0, offset - 24), animated: true });
+      }
+    }, 400);
+  }, [highlightSource, loadingExistingSession, messages]);
+
+  // Message text with the highlighted insight source quote marked
+  const renderMessageContent = (message: CoachingMessage) => {
+    const content = getDisplayContent(message.content);
+    if (!highlightSource || message.id !== highlightedMessageId) return content;
+
+    const reference = highlightSource.reference;
+    const span = SourceReferences.locate(
+      content,
+      highlightSource.quote,
+      reference?.kind === 'coachingSession' ? reference.span : undefined
+    );
+    if (!span) return content;
+
+    return (
+      <>
+        {content.slice(0, span.start)}
+        <Text style={[styles.quoteHighlight, { color: colors.text }]}>
+          {content.slice(span.start, span.end)}
+        </Text>
+        {content.slice(span.end)}
+      </>
+    );
+  };
 
   // Controlled scrolling - only when explicitly needed or user is at bottom
   const scrollToBottomRef = useRef(false);
@@ -428,44 +465,60 @@ export default function CoachingScreen() {
     }
   }, [showCompletionForMessage]);
 
+  // Calculate completion stats and show the completion popup on the final AI message
+  const { complete: completeSessionTimer } = sessionTimer;
+  const showSessionCompletion = useCallback((): boolean => {
+    // Find the final AI message
+    const lastAIMessage = [...messages].reverse().find(msg => msg.role === 'assistant');
+    if (!lastAIMessage) return false;
+
+    // Calculate session statistics
+    const sessionEndTime = new Date();
+    const sessionDurationMs = sessionEndTime.getTime() - sessionStartTime.getTime();
+    const sessionMinutes = Math.round(sessionDurationMs / 60000);
+    
+    // Count words from user messages
+    const userMessages = messages.filter(msg => msg.role === 'user');
+    const totalWords = userMessages.reduce((count, msg) => {
+      return count + msg.content.trim().split(/\s+/).filter(word => word.length > 0).length;
+    }, 0);
+
+    // Parse coaching completion data if available
+    const parsedData = parseCoachingCompletion(lastAIMessage.content);
+    const keyInsights = Math.max(parsedData.components.length, 3); // Use actual parsed components count
+    
+    setCompletionStats({
+      minutes: Math.max(sessionMinutes, 1),
+      words: totalWords,
+      keyInsights
+    });
+    
+    // Store parsed coaching data for future use
+    setParsedCoachingData(parsedData);
+    
+    // Show completion popup for this specific message
+    setShowCompletionForMessage(lastAIMessage.id);
+    completeSessionTimer();
+    return true;
+  }, [messages, sessionStartTime, completeSessionTimer]);
+
   // Check for completion when progress reaches 100%
   useEffect(() => {
     if (progress === 100 && !showCompletionForMessage) {
       console.log('🎯 Progress reached 100%! Showing completion popup...');
-      
-      // Find the final AI message
-      const lastAIMessage = [...messages].reverse().find(msg => msg.role === 'assistant');
-      
-      if (lastAIMessage) {
-        // Calculate session statistics
-        const sessionEndTime = new Date();
-        const sessionDurationMs = sessionEndTime.getTime() - sessionStartTime.getTime();
-        const sessionMinutes = Math.round(sessionDurationMs / 60000);
-        
-        // Count words from user messages
-        const userMessages = messages.filter(msg => msg.role === 'user');
-        const totalWords = userMessages.reduce((count, msg) => {
-          return count + msg.content.trim().split(/\s+/).filter(word => word.length > 0).length;
-        }, 0);
-
-        // Parse coaching completion data if available
-        const parsedData = parseCoachingCompletion(lastAIMessage.content);
-        const keyInsights = Math.max(parsedData.components.length, 3); // Use actual parsed components count
-        
-        setCompletionStats({
-          minutes: Math.max(sessionMinutes, 1),
-          words: totalWords,
-          keyInsights
-        });
-        
-        // Store parsed coaching data for future use
-        setParsedCoachingData(parsedData);
-        
-        // Show completion popup for this specific message
-        setShowCompletionForMessage(lastAIMessage.id);
-      }
+      showSessionCompletion();
+    }
+  }, [progress, showCompletionForMessage, showSessionCompletion]);
+
+  // Complete the session automatically when its time is up
+  useEffect(() => {
+    if (!sessionTimer.isExpired || showCompletionForMessage || isLoading) return;
+
+    console.log('⏰ Session time is up! Completing session...');
+    if (showSessionCompletion() && sessionId) {
+      startInsightExtraction(sessionId);
     }
-  }, [progress, showCompletionForMessage, messages, sessionStartTime]);
+  }, [sessionTimer.isExpired, showCompletionForMessage, isLoading, showSessionCompletion, sessionId]);
 
   // Keep screen awake while recording
   useEffect(() => {
@@ -535,12 +588,65 @@ export default function CoachingScreen() {
     // Trigger scroll after sending message
     scrollToBottomRef.current = true;
 
-    // Send message using the AI coaching hook with session ID and session type from route or default
-    await sendMessage(messageContent, currentSessionId, {
-      sessionType: routeSessionType || 'default-session'
+    // Send message using the AI coaching hook with session ID, the session program's type and the time left
+    await sendMessage(messageContent, currentSessionId, getSendOptions(currentSessionId));
+  };
+
+  // Options for a chat request - starts the session timer with the first message
+  const getSendOptions = (currentSessionId: string) => {
+    sessionTimer.start(currentSessionId);
+    return {
+      sessionType: program.id,
+      sessionDuration,
+      timeRemainingMinutes: sessionTimer.getRemainingMinutes(),
+      wrapUp: sessionTimer.isWrapUp
+    };
+  };
+
+  // Gently steer the conversation to a close when time is almost up
+  const handleWrapUp = async () => {
+    if (!sessionId || isLoading) return;
+
+    setWrapUpDismissed(true);
+    scrollToBottomRef.current = true;
+    await sendMessage("We're almost out of time. Can you help me wrap up?", sessionId, {
+      ...getSendOptions(sessionId),
+      wrapUp: true
     });
   };
 
+  // Long-press a sent user message to edit it
+  const handleStartEditing = (message: CoachingMessage) => {
+    if (message.role !== 'user' || message.isQueued || isLoading || isOffline) return;
+    setEditingMessageId(message.id);
+    setEditingText(message.content);
+  };
+
+  const handleCancelEditing = () => {
+    setEditingMessageId(null);
+    setEditingText('');
+  };
+
+  // Regenerate from the edited message - the old continuation stays available as a branch
+  const handleSaveEdit = async () => {
+    const messageId = editingMessageId;
+    const content = editingText.trim();
+    if (!messageId || !content) return;
+
+    const original = messages.find(msg => msg.id === messageId);
+    handleCancelEditing();
+    if (original?.content === content) return;
+
+    let currentSessionId = sessionId;
+    if (!currentSessionId) {
+      currentSessionId = generateSessionId();
+      setSessionId(currentSessionId);
+    }
+
+    scrollToBottomRef.current = true;
+    await editMessage(messageId, content, currentSessionId, getSendOptions(currentSessionId));
+  };
+
   const handleResendMessage = async (messageId: string) => {
     // Generate session ID if not already set
     let currentSessionId = sessionId;
@@ -554,9 +660,7 @@ export default function CoachingScreen() {
     scrollToBottomRef.current = true;
 
     // Resend message using the AI coaching hook
-    await resendMessage(messageId, currentSessionId, {
-      sessionType: routeSessionType || 'default-session'
-    });
+    await resendMessage(messageId, currentSessionId, getSendOptions(currentSessionId));
   };
 
   const handleMicrophonePress = () => {
@@ -597,11 +701,27 @@ export default function CoachingScreen() {
     
     // Trigger insight extraction in background if we have a session ID
     if (sessionId) {
-      console.log('🧠 Starting insight extraction for session:', sessionId);
-      triggerInsightExtraction(sessionId); // Don't await - run in background
+      startInsightExtraction(sessionId);
     }
   };
 
+  // Extract insights once per session, whether it finished or ran out of time
+  const startInsightExtraction = (sessionId: string) => {
+    if (insightExtractionSessionRef.current === sessionId) return;
+    insightExtractionSessionRef.current = sessionId;
+
+    console.log('🧠 Starting insight extraction for session:', sessionId);
+    triggerInsightExtraction(sessionId); // Don't await - run in background
+  };
+
+  // Format the time left as mm:ss
+  const formatRemainingTime = (remainingMs: number) => {
+    const totalSeconds = Math.ceil(remainingMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60).toString().padStart(2, '0');
+    const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+    return `${minutes}:${seconds}`;
+  };
+
   // Function to trigger insight extraction
   const triggerInsightExtraction = async (sessionId: string) => {
     try {
@@ -617,6 +737,12 @@ export default function CoachingScreen() {
         hasToken: !!token
       });
 
+      // The user's edits, pins and rejections of their current insights
+      const currentInsights = firebaseUser?.uid
+        ? await FirestoreService.getUserInsights(firebaseUser.uid).catch(() => null)
+        : null;
+      const constraints = InsightConstraints.fromInsight(currentInsights);
+
       const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}api/coaching/insightExtractor`, {
         method: 'POST',
         headers: {
@@ -624,7 +750,9 @@ export default function CoachingScreen() {
           'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
-          sessionId: sessionId
+          sessionId: sessionId,
+          categories: InsightCategoryRegistry.forExtraction(),
+          constraints
         }),
       });
 
@@ -637,6 +765,14 @@ export default function CoachingScreen() {
       if (response.ok) {
         const result = await response.json();
         console.log('✅ Insight extraction successful:', result);
+
+        // Hold the user's pins, edits and rejections even if the extractor ignored them
+        // and link new sources to the messages they quote, in the extraction's own insight version
+        if (firebaseUser?.uid) {
+          await FirestoreService.adjustExtractedInsights(firebaseUser.uid, sessionId, currentInsights?.updatedAt, extracted =>
+            SourceReferences.withSessionReferences(InsightConstraints.apply(currentInsights, extracted), sessionId, messages)
+          );
+        }
       } else {
         const errorText = await response.text();
         console.error('❌ Insight extraction failed:', {
@@ -665,7 +801,13 @@ export default function CoachingScreen() {
           <Text style={[styles.chatHeaderText, { color: colors.text }]}>
             Coaching
           </Text>
-          <View style={{ width: 24 }} />
+          {sessionTimer.isRunning ? (
+            <Text style={[styles.sessionTimerText, { color: sessionTimer.isWrapUp ? colors.tint : `${colors.text}80` }]}>
+              {formatRemainingTime(sessionTimer.remainingMs)}
+            </Text>
+          ) : (
+            <View style={{ width: 24 }} />
+          )}
         </View>
 
         {/* Messages */}
@@ -697,22 +839,98 @@ export default function CoachingScreen() {
             {messages.map((message) => (
               <View
                 key={message.id}
+                onLayout={event => {
+                  messageOffsetsRef.current[message.id] = event.nativeEvent.layout.y;
+                }}
                 style={[
                   styles.messageContainer,
                   message.role === 'user' ? styles.userMessageContainer : styles.aiMessageContainer
                 ]}
               >
                                  <View>
-                   <Text
-                     style={[
-                       styles.messageText,
-                       message.role === 'user'
-                         ? { color: `${colors.text}99` }
-                         : { color: colors.text }
-                     ]}
-                   >
-                     {getDisplayContent(message.content)}
-                   </Text>
+                   {editingMessageId === message.id ? (
+                     <View style={styles.editContainer}>
+                       <TextInput
+                         style={[styles.messageText, styles.editInput, {
+                           color: colors.text,
+                           borderColor: colorScheme === 'dark' ? '#555555' : '#E5E5E5'
+                         }]}
+                         value={editingText}
+                         onChangeText={setEditingText}
+                         multiline
+                         autoFocus
+                       />
+                       <View style={styles.editButtons}>
+                         <Button variant="secondary" size="sm" onPress={handleCancelEditing}>
+                           Cancel
+                         </Button>
+                         <Button variant="primary" size="sm" onPress={handleSaveEdit} disabled={!editingText.trim()}>
+                           Save
+                         </Button>
+                       </View>
+                     </View>
+                   ) : (
+                     <TouchableOpacity
+                       activeOpacity={message.role === 'user' ? 0.7 : 1}
+                       onLongPress={() => handleStartEditing(message)}
+                       disabled={message.role !== 'user'}
+                     >
+                       <Text
+                         style={[
+                           styles.messageText,
+                           message.role === 'user'
+                             ? { color: `${colors.text}99` }
+                             : { color: colors.text }
+                         ]}
+                       >
+                         {renderMessageContent(message)}
+                       </Text>
+                     </TouchableOpacity>
+                   )}
+
+                   {/* Switch between the versions of an edited message */}
+                   {message.role === 'user' && (() => {
+                     const branchInfo = getBranchInfo(message.id);
+                     if (!branchInfo) return null;
+
+                     return (
+                       <View style={styles.branchSwitcher}>
+                         <TouchableOpacity
+                           onPress={() => switchBranch(branchInfo.branchKey, branchInfo.index - 1)}
+                           disabled={isLoading || branchInfo.index === 0}
+                           hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                         >
+                           <ChevronLeft size={14} color={`${colors.text}${branchInfo.index === 0 ? '30' : '80'}`} />
+                         </TouchableOpacity>
+                         <Text style={[styles.branchSwitcherText, { color: `${colors.text}80` }]}>
+                           {branchInfo.index + 1}/{branchInfo.count}
+                         </Text>
+                         <TouchableOpacity
+                           onPress={() => switchBranch(branchInfo.branchKey, branchInfo.index + 1)}
+                           disabled={isLoading || branchInfo.index === branchInfo.count - 1}
+                           hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                         >
+                           <ChevronRight size={14} color={`${colors.text}${branchInfo.index === branchInfo.count - 1 ? '30' : '80'}`} />
+                         </TouchableOpacity>
+                       </View>
+                     );
+                   })()}
+
+                   {/* Queued while offline */}
+                   {message.role === 'user' && message.isQueued && (
+                     <Text style={[styles.queuedText, { color: `${colors.text}60` }]}>
+                       Waiting for connection…
+                     </Text>
+                   )}
+
+                   {/* Model and reasoning behind the reply */}
+                   {message.role === 'assistant' && !message.isError && (
+                     <CoachingReasoningPanel
+                       thinking={message.thinking}
+                       model={message.model}
+                       metadata={message.metadata}
+                     />
+                   )}
                    
                    {/* Resend button for error messages */}
                    {message.role === 'assistant' && message.isError && (
@@ -783,6 +1001,24 @@ export default function CoachingScreen() {
           </ScrollView>
         </View>
 
+        {/* Wrap-up prompt - shown when the session is almost out of time */}
+        {sessionTimer.isWrapUp && !wrapUpDismissed && !showCompletionForMessage && (
+          <View style={[styles.wrapUpBanner, {
+            backgroundColor: colorScheme === 'dark' ? '#2A2A2A' : '#F5F5F5',
+            borderColor: colorScheme === 'dark' ? '#333' : '#0000001A'
+          }]}>
+            <Text style={[styles.wrapUpText, { color: `${colors.text}CC` }]}>
+              About {Math.ceil(sessionTimer.remainingMs / 60000)} min left. A good moment to start wrapping up.
+            </Text>
+            <TouchableOpacity onPress={handleWrapUp} disabled={isLoading}>
+              <Text style={[styles.wrapUpAction, { color: colors.tint }]}>Wrap up</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setWrapUpDismissed(true)}>
+              <X size={16} color={`${colors.text}80`} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Conversation Starters - Above Input */}
         <Animated.View 
           style={[
@@ -965,6 +1201,31 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  sessionTimerText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontVariant: ['tabular-nums'],
+  },
+  wrapUpBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  wrapUpText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  wrapUpAction: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   messagesContainer: {
     flex: 1,
     paddingHorizontal: 20,
@@ -995,6 +1256,9 @@ const styles = StyleSheet.create({
     fontWeight: '400',
     lineHeight: 22,
   },
+  quoteHighlight: {
+    backgroundColor: 'rgba(250, 204, 21, 0.35)',
+  },
   typingIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1170,6 +1434,35 @@ const styles = StyleSheet.create({
     gap: 8,
     paddingVertical: 8,
   },
+  editContainer: {
+    gap: 8,
+  },
+  editInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    minWidth: 220,
+  },
+  editButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  branchSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 6,
+    marginTop: 4,
+  },
+  branchSwitcherText: {
+    fontSize: 12,
+  },
+  queuedText: {
+    fontSize: 12,
+    marginTop: 4,
+    alignSelf: 'flex-end',
+  },
   resendButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -10,20 +10,29 @@ import {
   SafeAreaView,
   TouchableWithoutFeedback,
   Image,
+  Alert,
 } from 'react-native';
-import { X } from 'lucide-react-native';
+import { X, Pencil, Pin, PinOff, ThumbsDown } from 'lucide-react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useColorScheme } from 'react-native';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/hooks/useAuth';
 import { AppStackParamList } from '@/navigation/AppNavigator';
 import { AuthStackParamList } from '@/navigation/AuthNavigator';
 import SourcesModal, { InsightSource } from '@/components/SourcesModal';
-import { useInsights } from '@/hooks/useInsights';
+import InsightTimelineModal from '@/components/InsightTimelineModal';
+import InsightEditModal from '@/components/InsightEditModal';
+import { useInsights, useInsightHistory } from '@/hooks/useInsights';
+import { insightSectionKey } from '@/types/insights';
+import { CoachingCardProtocol } from '@/lib/coaching/cardProtocol';
+import { InsightConstraints } from '@/lib/coaching/insightConstraints';
+import { InsightCategoryRegistry, TOP_LEVEL_SECTIONS } from '@/lib/insightCategories';
+import { CoachingCompletionData } from '@/types/coaching';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const STORY_DURATION = 10000; // 10 seconds per story
-const TOTAL_STORIES = 6;
+const REJECTED_PLACEHOLDER = "Your next coaching session will suggest something new.";
 
 // Animated Spinner Component
 const AnimatedSpinner = ({ size = 12, colors, style }: { size?: number, colors: any, style?: any }) => {
@@ -70,13 +79,49 @@ const AnimatedSpinner = ({ size = 12, colors, style }: { size?: number, colors:
 
 type CompassStoryRouteProp = RouteProp<AppStackParamList, 'CompassStory'> | RouteProp<AuthStackParamList, 'CompassStory'>;
 
-// Import compass images
-const compassImages = {
-  focus: require('@/assets/images/MainFocus.png'),
-  blockers: require('@/assets/images/KeyBlockers.png'),
+// Import compass images - categories without their own image use the main focus one
+const compassImages: Partial<Record<insightSectionKey, any>> = {
+  mainFocus: require('@/assets/images/MainFocus.png'),
+  keyBlockers: require('@/assets/images/KeyBlockers.png'),
   plan: require('@/assets/images/YourPlan.png'),
 };
 
+// One insight page after the intro pages
+interface CompassPage {
+  section: insightSectionKey;
+  title: string;
+  color: string;
+  content: string;
+  context?: string | null;
+  sources: InsightSource[];
+}
+
+const PLACEHOLDER_TEXT: Record<typeof TOP_LEVEL_SECTIONS[number], { content: string; context: string }> = {
+  mainFocus: {
+    content: "Complete a coaching session to see your insights.",
+    context: "Your personal insights will appear here after coaching."
+  },
+  keyBlockers: {
+    content: "Insights will show what's blocking your progress.",
+    context: "Sources from your conversations will appear here."
+  },
+  plan: {
+    content: "Your personalized action plan will appear here.",
+    context: "Based on your coaching conversations and insights."
+  }
+};
+
+const placeholderPage = (section: typeof TOP_LEVEL_SECTIONS[number]): CompassPage => {
+  const category = InsightCategoryRegistry.get(section);
+  return {
+    section,
+    title: category.title,
+    color: category.color,
+    ...PLACEHOLDER_TEXT[section],
+    sources: []
+  };
+};
+
 // Base story content - first 3 pages are always the same
 const baseStoryContent = [
   "This is your\npersonal compass.",
@@ -136,14 +181,22 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ index, currentStory, progress
 };
 
 export default function CompassStoryScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>();
   const route = useRoute<CompassStoryRouteProp>();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const { completeOnboarding } = useAuth();
   
   // Real insights data
-  const { insights, loading: insightsLoading, error: insightsError, hasInsights } = useInsights();
+  const {
+    insights,
+    loading: insightsLoading,
+    error: insightsError,
+    hasInsights,
+    editSection,
+    setSectionPinned,
+    rejectSection
+  } = useInsights();
   
   // Sources Modal State
   const [showSourcesModal, setShowSourcesModal] = useState(false);
@@ -152,16 +205,25 @@ export default function CompassStoryScreen() {
     sources: InsightSource[];
   } | null>(null);
   const sourcesModalOpacity = useRef(new Animated.Value(0)).current;
+
+  // Insight History Modal State
+  const { versions: insightVersions, loading: historyLoading, load: loadInsightHistory } = useInsightHistory();
+  const [historySection, setHistorySection] = useState<insightSectionKey | null>(null);
+  const historyModalOpacity = useRef(new Animated.Value(0)).current;
+
+  // Insight Edit Modal State
+  const [editingSection, setEditingSection] = useState<{
+    section: insightSectionKey;
+    title: string;
+  } | null>(null);
+  const editModalOpacity = useRef(new Animated.Value(0)).current;
   
   // Get route parameters  
   const routeParams = route.params as {
     fromOnboarding?: boolean;
     fromCoaching?: boolean;
     sessionId?: string;
-    parsedCoachingData?: {
-      components: Array<{ type: string; props: Record<string, string> }>;
-      rawData: string;
-    };
+    parsedCoachingData?: CoachingCompletionData;
   } | undefined;
   
   const { fromOnboarding = false, fromCoaching = false, sessionId, parsedCoachingData } = routeParams || {};
@@ -221,97 +283,71 @@ export default function CompassStoryScreen() {
   }, [sessionId]);
   
   // Process real insights data or fallback to coaching/placeholder data
-  const processCompassData = () => {
+  const processCompassData = (): CompassPage[] => {
     // Priority 1: Use real insights data if available
     if (insights) {
       console.log('🎯 Using real insights data for compass:', insights);
-      return {
-        focus: {
-          title: "Your Main Focus",
-          content: insights.mainFocus.headline,
-          context: insights.mainFocus.description,
-          sources: insights.mainFocus.sources
-        },
-        blockers: {
-          title: "Key Blockers",
-          content: insights.keyBlockers.headline,
-          context: insights.keyBlockers.description,
-          sources: insights.keyBlockers.sources
-        },
-        plan: {
-          title: "Your Plan",
-          content: insights.plan.headline,
-          context: insights.plan.description,
-          sources: insights.plan.sources
-        }
-      };
+      return InsightCategoryRegistry.getSectionKeys(insights).map(key => {
+        const category = InsightCategoryRegistry.get(key);
+        const section = InsightCategoryRegistry.getSection(insights, key);
+        return {
+          section: key,
+          title: category.title,
+          color: category.color,
+          content: section?.headline || REJECTED_PLACEHOLDER,
+          context: section?.description,
+          sources: section?.sources || []
+        };
+      });
     }
 
     // Priority 2: Use coaching data if available (from route params) - temporary display
     if (parsedCoachingData && parsedCoachingData.components && parsedCoachingData.components.length > 0) {
       console.log('🎯 Using temporary coaching data for compass (insights processing):', parsedCoachingData);
-      const data: any = {};
+      const pages: Partial<Record<insightSectionKey, CompassPage>> = {};
       
-      parsedCoachingData.components.forEach((component: any) => {
-        const { type, props } = component;
-        
-        switch (type) {
+      parsedCoachingData.components.forEach(component => {
+        const { card } = CoachingCardProtocol.toCard(component);
+        if (!card) return;
+
+        switch (card.type) {
           case 'focus':
-            data.focus = {
-              title: "Your Main Focus",
-              content: props.focus || "Main focus not specified",
-              context: props.context || null,
+            pages.mainFocus = {
+              ...placeholderPage('mainFocus'),
+              content: card.focus,
+              context: card.context || null,
               sources: [] // No sources yet - will be available after insight extraction
             };
             break;
             
           case 'blockers':
-            const blockerItems = props.items ? props.items.split('|').filter(Boolean) : [];
-            data.blockers = {
-              title: props.title || "Key Blockers",
-              content: blockerItems.length > 0 ? `${blockerItems.length} obstacles identified` : "No blockers specified",
-              context: blockerItems.length > 0 ? blockerItems.map((item: string) => `• ${item}`).join('\n') : null,
+            pages.keyBlockers = {
+              ...placeholderPage('keyBlockers'),
+              title: card.title || "Key Blockers",
+              content: `${card.items.length} obstacles identified`,
+              context: card.items.map(item => `• ${item}`).join('\n'),
               sources: []
             };
             break;
             
           case 'actions':
-            const actionItems = props.items ? props.items.split('|').filter(Boolean) : [];
-            data.plan = {
-              title: props.title || "Your Plan",
-              content: actionItems.length > 0 ? `${actionItems.length} action steps ready` : "No actions specified",
-              context: actionItems.length > 0 ? actionItems.map((item: string, index: number) => `${index + 1}. ${item}`).join('\n') : null,
+            pages.plan = {
+              ...placeholderPage('plan'),
+              title: card.title || "Your Plan",
+              content: `${card.items.length} action steps ready`,
+              context: card.items.map((item, index) => `${index + 1}. ${item}`).join('\n'),
               sources: []
             };
             break;
         }
       });
       
-      return data;
+      return TOP_LEVEL_SECTIONS.map(key => pages[key] || placeholderPage(key));
     }
     
     // Priority 3: Fallback placeholder data
     console.log('🎯 Using placeholder data - no insights or coaching data available');
-    return {
-      focus: {
-        title: "Your Main Focus",
-        content: "Complete a coaching session to see your insights.",
-        context: "Your personal insights will appear here after coaching.",
-        sources: []
-      },
-      blockers: {
-        title: "Key Blockers",
-        content: "Insights will show what's blocking your progress.",
-        context: "Sources from your conversations will appear here.",
-        sources: []
-      },
-      plan: {
-        title: "Your Plan", 
-        content: "Your personalized action plan will appear here.",
-        context: "Based on your coaching conversations and insights.",
-        sources: []
-      }
-    };
+    return TOP_LEVEL_SECTIONS.map(placeholderPage);
   };
 
   // Helper function to format last updated time
@@ -326,31 +362,17 @@ export default function CompassStoryScreen() {
     return `Updated from session ${Math.floor(diffInHours / 24)} days ago`;
   };
 
-  const compassData = processCompassData();
+  const compassPages = processCompassData();
+  const totalStories = baseStoryContent.length + compassPages.length;
   
   // Debug: Log processed compass data
   useEffect(() => {
-    console.log('🎯 Compass data processed:', {
-      focus: { 
-        title: compassData.focus?.title, 
-        sourcesCount: compassData.focus?.sources?.length || 0,
-        sources: compassData.focus?.sources 
-      },
-      blockers: { 
-        title: compassData.blockers?.title, 
-        sourcesCount: compassData.blockers?.sources?.length || 0,
-        sources: compassData.blockers?.sources 
-      },
-      plan: { 
-        title: compassData.plan?.title, 
-        sourcesCount: compassData.plan?.sources?.length || 0,
-        sources: compassData.plan?.sources 
-      }
-    });
-  }, [compassData]);
-  
-  // Simple story content - first 3 pages stay the same, 4-6 will use special layout
-  const storyContent = [...baseStoryContent, "", "", ""]; // Placeholders for pages 4-6
+    console.log('🎯 Compass data processed:', compassPages.map(page => ({
+      section: page.section,
+      title: page.title,
+      sourcesCount: page.sources.length
+    })));
+  }, [compassPages]);
   
   const [currentStory, setCurrentStory] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
@@ -359,7 +381,7 @@ export default function CompassStoryScreen() {
 
   // Auto-advance story
   useEffect(() => {
-    if (isPaused || showSourcesModal) return;
+    if (isPaused || showSourcesModal || historySection || editingSection) return;
 
     progressAnim.setValue(0);
     
@@ -380,10 +402,10 @@ export default function CompassStoryScreen() {
         animationRef.current.stop();
       }
     };
-  }, [currentStory, isPaused, showSourcesModal]);
+  }, [currentStory, isPaused, showSourcesModal, historySection, editingSection]);
 
   const nextStory = () => {
-    if (currentStory < TOTAL_STORIES - 1) {
+    if (currentStory < totalStories - 1) {
       setCurrentStory(currentStory + 1);
     } else {
       // End of stories - handle navigation based on source
@@ -450,6 +472,24 @@ export default function CompassStoryScreen() {
     }).start();
   };
 
+  // Open the journal entry or coaching session a source quote came from
+  const openSource = (source: InsightSource) => {
+    const reference = source.reference;
+    if (!reference) return;
+
+    console.log('🔗 Opening insight source:', reference);
+    closeSourcesModal();
+
+    if (reference.kind === 'journalEntry') {
+      navigation.navigate('Home', {
+        screen: 'HomeContent',
+        params: { entryId: reference.entryId, highlightSource: source }
+      });
+    } else {
+      navigation.navigate('Coaching', { sessionId: reference.sessionId, highlightSource: source });
+    }
+  };
+
   const closeSourcesModal = () => {
     Animated.timing(sourcesModalOpacity, {
       toValue: 0,
@@ -461,23 +501,95 @@ export default function CompassStoryScreen() {
     });
   };
 
-  // Render the enhanced coaching insight pages (4-6)
+  // Insight History Modal Functions
+  const openHistoryModal = (section: insightSectionKey) => {
+    console.log('🕰️ Opening insight history:', section);
+    setHistorySection(section);
+    loadInsightHistory();
+
+    Animated.timing(historyModalOpacity, {
+      toValue: 1,
+      duration: 300,
+      useNativeDriver: true,
+    }).start();
+  };
+
+  const closeHistoryModal = () => {
+    Animated.timing(historyModalOpacity, {
+      toValue: 0,
+      duration: 250,
+      useNativeDriver: true,
+    }).start(() => {
+      setHistorySection(null);
+    });
+  };
+
+  // Insight Edit Functions
+  const openEditModal = (section: insightSectionKey, title: string) => {
+    setEditingSection({ section, title });
+
+    Animated.timing(editModalOpacity, {
+      toValue: 1,
+      duration: 300,
+      useNativeDriver: true,
+    }).start();
+  };
+
+  const closeEditModal = () => {
+    Animated.timing(editModalOpacity, {
+      toValue: 0,
+      duration: 250,
+      useNativeDriver: true,
+    }).start(() => {
+      setEditingSection(null);
+    });
+  };
+
+  const handleTogglePin = async (section: insightSectionKey, pinned: boolean) => {
+    try {
+      await setSectionPinned(section, pinned);
+      console.log(pinned ? '📌 Pinned insight section:' : '📌 Unpinned insight section:', section);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update your insight. Please try again.');
+    }
+  };
+
+  const handleReject = (section: insightSectionKey, title: string) => {
+    pauseStory();
+    Alert.alert(
+      `Reject ${title.toLowerCase()}?`,
+      "This suggestion will be removed and won't be suggested again.",
+      [
+        { text: 'Cancel', style: 'cancel', onPress: resumeStory },
+        {
+          text: 'Reject',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await rejectSection(section);
+              console.log('👎 Rejected insight section:', section);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to update your insight. Please try again.');
+            } finally {
+              resumeStory();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Render the enhanced coaching insight pages (one per insight category, after the intro pages)
   const renderCoachingInsightPage = () => {
-    const pageIndex = currentStory - 3; // 0, 1, 2 for pages 4, 5, 6
-    const pageTypes = ['focus', 'blockers', 'plan'] as const;
-    const pageColors = ['#2563EB', '#EA580C', '#16A34A'];
-    
-    const currentType = pageTypes[pageIndex];
-    const currentColor = pageColors[pageIndex];
-    
-    // Use processed coaching data
-    const currentData = compassData[currentType];
+    const currentData = compassPages[currentStory - baseStoryContent.length];
     if (!currentData) return null;
 
-    const { title, content, context } = currentData;
+    const { section: currentSection, color: currentColor, title, content, context } = currentData;
+    const sectionEdit = insights ? InsightConstraints.getEdit(insights, currentSection) : null;
+    const hasSuggestion = !!(insights && InsightCategoryRegistry.getSection(insights, currentSection)?.headline);
     
     console.log('🎯 Rendering insight page:', { 
-      currentType, 
+      currentSection, 
       title, 
       sourcesCount: currentData.sources?.length || 0,
       sources: currentData.sources 
@@ -488,7 +600,7 @@ export default function CompassStoryScreen() {
         {/* Compass Image */}
         <View style={styles.compassImageContainer}>
           <Image 
-            source={compassImages[currentType]}
+            source={compassImages[currentSection] || compassImages.mainFocus}
             style={[styles.compassImage, {
               tintColor: colors.tint
             }]}
@@ -514,6 +626,41 @@ export default function CompassStoryScreen() {
               {context}
             </Text>
           )}
+
+          {/* User edits */}
+          {insights && sectionEdit && (
+            <View style={styles.insightActions}>
+              {(sectionEdit.pinned || sectionEdit.editedByUser) && (
+                <Text style={[styles.insightBadge, { color: `${colors.text}60` }]}>
+                  {sectionEdit.pinned ? 'Pinned' : 'Edited by you'}
+                </Text>
+              )}
+              <TouchableOpacity
+                style={[styles.insightActionButton, { backgroundColor: `${colors.text}10` }]}
+                onPress={() => openEditModal(currentSection, title)}
+              >
+                <Pencil size={16} color={`${colors.text}80`} />
+              </TouchableOpacity>
+              {hasSuggestion && (
+                <TouchableOpacity
+                  style={[styles.insightActionButton, { backgroundColor: sectionEdit.pinned ? `${currentColor}25` : `${colors.text}10` }]}
+                  onPress={() => handleTogglePin(currentSection, !sectionEdit.pinned)}
+                >
+                  {sectionEdit.pinned
+                    ? <PinOff size={16} color={currentColor} />
+                    : <Pin size={16} color={`${colors.text}80`} />}
+                </TouchableOpacity>
+              )}
+              {hasSuggestion && !sectionEdit.editedByUser && (
+                <TouchableOpacity
+                  style={[styles.insightActionButton, { backgroundColor: `${colors.text}10` }]}
+                  onPress={() => handleReject(currentSection, title)}
+                >
+                  <ThumbsDown size={16} color={`${colors.text}80`} />
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Bottom Section */}
@@ -553,40 +700,53 @@ export default function CompassStoryScreen() {
             </Text>
           )}
           
-          <TouchableOpacity 
-            style={[
-              styles.viewSourcesButton, 
-              { 
-                backgroundColor: (insightsLoading || sessionId && !insights) ? `${colors.text}05` : `${colors.text}10` 
-              }
-            ]}
-            onPress={() => {
-              console.log('🔍 View Sources button pressed:', { 
-                title, 
-                sourcesData: currentData.sources,
-                sourcesLength: currentData.sources?.length,
-                hasInsights: !!insights,
-                sessionId,
-                isLoading: insightsLoading
-              });
+          <View style={styles.footerButtons}>
+            <TouchableOpacity 
+              style={[
+                styles.viewSourcesButton, 
+                { 
+                  backgroundColor: (insightsLoading || sessionId && !insights) ? `${colors.text}05` : `${colors.text}10` 
+                }
+              ]}
+              onPress={() => {
+                console.log('🔍 View Sources button pressed:', { 
+                  title, 
+                  sourcesData: currentData.sources,
+                  sourcesLength: currentData.sources?.length,
+                  hasInsights: !!insights,
+                  sessionId,
+                  isLoading: insightsLoading
+                });
               
-              openSourcesModal(title, currentData.sources || []);
-            }}
-            disabled={insightsLoading}
-          >
-            {(insightsLoading || (sessionId && !insights)) ? (
-              <View style={styles.buttonLoadingContainer}>
-                <AnimatedSpinner size={10} colors={colors} />
-                <Text style={[styles.viewSourcesText, { color: `${colors.text}40` }]}>
-                  Processing...
+                openSourcesModal(title, currentData.sources || []);
+              }}
+              disabled={insightsLoading}
+            >
+              {(insightsLoading || (sessionId && !insights)) ? (
+                <View style={styles.buttonLoadingContainer}>
+                  <AnimatedSpinner size={10} colors={colors} />
+                  <Text style={[styles.viewSourcesText, { color: `${colors.text}40` }]}>
+                    Processing...
+                  </Text>
+                </View>
+              ) : (
+                <Text style={[styles.viewSourcesText, { color: `${colors.text}80` }]}>
+                  View Sources {currentData.sources ? currentData.sources.length : 0}
                 </Text>
-              </View>
-            ) : (
-              <Text style={[styles.viewSourcesText, { color: `${colors.text}80` }]}>
-                View Sources {currentData.sources ? currentData.sources.length : 0}
-              </Text>
+              )}
+            </TouchableOpacity>
+
+            {insights && (
+              <TouchableOpacity
+                style={[styles.viewSourcesButton, { backgroundColor: `${colors.text}10` }]}
+                onPress={() => openHistoryModal(currentSection)}
+              >
+                <Text style={[styles.viewSourcesText, { color: `${colors.text}80` }]}>
+                  History
+                </Text>
+              </TouchableOpacity>
             )}
-          </TouchableOpacity>
+          </View>
         </View>
       </View>
     );
@@ -602,7 +762,7 @@ export default function CompassStoryScreen() {
       
       {/* Progress Bars */}
       <View style={styles.progressContainer}>
-        {Array.from({ length: TOTAL_STORIES }).map((_, index) => (
+        {Array.from({ length: totalStories }).map((_, index) => (
           <ProgressBar
             key={index}
             index={index}
@@ -629,15 +789,15 @@ export default function CompassStoryScreen() {
       <TouchableWithoutFeedback onPress={handleTapNavigation}>
         <View style={styles.contentContainer}>
           <View style={styles.storyContent}>
-            {/* Pages 1-3: Simple text */}
-            {currentStory < 3 && storyContent[currentStory] && (
+            {/* Intro pages: Simple text */}
+            {currentStory < baseStoryContent.length && (
               <Text style={[styles.storyText, { color: colors.text }]}>
-                {storyContent[currentStory]}
+                {baseStoryContent[currentStory]}
               </Text>
             )}
             
-            {/* Pages 4-6: Enhanced layout with compass visual */}
-            {currentStory >= 3 && renderCoachingInsightPage()}
+            {/* Insight pages: Enhanced layout with compass visual */}
+            {currentStory >= baseStoryContent.length && renderCoachingInsightPage()}
           </View>
         </View>
       </TouchableWithoutFeedback>
@@ -651,6 +811,33 @@ export default function CompassStoryScreen() {
           sources={selectedSources.sources}
           overlayOpacity={sourcesModalOpacity}
           isProcessing={insightsLoading || (sessionId !== undefined && !insights)}
+          // Entries and sessions aren't reachable before onboarding is complete
+          onSourcePress={fromOnboarding ? undefined : openSource}
+        />
+      )}
+
+      {/* Insight Edit Modal */}
+      {editingSection && insights && (
+        <InsightEditModal
+          isVisible={!!editingSection}
+          onClose={closeEditModal}
+          onSave={text => editSection(editingSection.section, text)}
+          title={editingSection.title}
+          headline={InsightCategoryRegistry.getSection(insights, editingSection.section)?.headline || ''}
+          description={InsightCategoryRegistry.getSection(insights, editingSection.section)?.description || ''}
+          overlayOpacity={editModalOpacity}
+        />
+      )}
+
+      {/* Insight History Modal */}
+      {historySection && (
+        <InsightTimelineModal
+          isVisible={!!historySection}
+          onClose={closeHistoryModal}
+          section={historySection}
+          versions={insightVersions}
+          isLoading={historyLoading}
+          overlayOpacity={historyModalOpacity}
         />
       )}
     </SafeAreaView>
@@ -761,6 +948,25 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  insightActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  insightBadge: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginRight: 4,
+  },
+  insightActionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   insightFooter: {
     alignItems: 'center',
     gap: 16,
@@ -776,6 +982,10 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textAlign: 'center',
   },
+  footerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   viewSourcesButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -2,32 +2,28 @@ import Editor from '@/components/TipTap';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/hooks/useAuth';
 import { useAnalytics } from '@/hooks/useAnalytics';
-import { getCoachingMessage } from '@/lib/firestore';
+import { FirestoreService, getCoachingMessage } from '@/lib/firestore';
 import { BackendCoachingMessage } from '@/types/coachingMessage';
+import { CoachingSessionType } from '@/types/coaching';
+import { JournalEntryRevision, JournalReviewPeriod, StoredJournalEntry } from '@/types/journal';
+import { insightSource, insightSourceSpan } from '@/types/insights';
+import { SessionProgramRegistry } from '@/lib/coaching/sessionPrograms';
 import { db } from '@/lib/firebase';
+import { JournalEntryStore } from '@/services/journalEntryStore';
+import { JournalSyncService } from '@/services/journalSyncService';
 import { DrawerNavigationProp } from '@react-navigation/drawer';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useCurrentEntry } from '@/navigation/HomeScreen';
 import * as Haptics from 'expo-haptics';
 import * as Crypto from 'expo-crypto';
-import {
-  addDoc,
-  collection,
-  doc,
-  getDocs,
-  limit,
-  orderBy,
-  query,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-  where
-} from 'firebase/firestore';
-import { AlignLeft, ArrowDown, Check, Mic, Square, MessageCircle, Settings2 } from 'lucide-react-native';
+import { doc, getDoc } from 'firebase/firestore';
+import { AlignLeft, ArrowDown, Check, History, Mic, Square, MessageCircle, Settings2 } from 'lucide-react-native';
 import { useAudioTranscriptionAv } from '@/hooks/useAudioTranscriptionAv';
 import { Button } from '@/components/ui/Button';
 import CoachingSessionCard from '@/components/CoachingSessionCard';
 import CoachingMessageCard from '@/components/CoachingMessageCard';
+import EntryMergeModal from '@/components/EntryMergeModal';
+import EntryHistoryModal from '@/components/EntryHistoryModal';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   SafeAreaView,
@@ -37,7 +33,8 @@ import {
   View,
   KeyboardAvoidingView,
   Platform,
-  Keyboard
+  Keyboard,
+  TouchableOpacity
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import Animated, {
@@ -57,17 +54,21 @@ type SaveStatus = 'saved' | 'saving' | 'unsaved';
 
 interface JournalEntry {
   id: string;
-  title: string;
+  title?: string;
   content?: string;
   timestamp: any; // Firestore timestamp
   uid: string;
   linkedCoachingSessionId?: string; // id of the coaching session that this entry is linked to
   linkedCoachingMessageId?: string; // id of the coaching message that this entry is linked to
+  reviewRange?: { period: JournalReviewPeriod; from: any; to: any }; // set on weekly/monthly review entries
 }
 
+// Entry dates come as Firestore timestamps, Dates or ISO strings from the device store
+const toDate = (value: any): Date => value?.toDate ? value.toDate() : new Date(value);
+
 interface CoachingSession {
   id: string;
-  sessionType: 'default-session' | 'initial-life-deep-dive';
+  sessionType: CoachingSessionType;
   messages: Array<{
     id: string;
     role: 'user' | 'assistant';
@@ -101,6 +102,16 @@ export default function HomeContent() {
   const [originalContent, setOriginalContent] = useState('');
   const [isNewEntry, setIsNewEntry] = useState(false);
   const [isKeyboardVisible, setIsKeyboardVisible] = useState(false);
+  const [highlight, setHighlight] = useState<{ quote: string; span?: insightSourceSpan } | null>(null);
+  // Device copy of the open entry, with its sync state
+  const [storedEntry, setStoredEntry] = useState<StoredJournalEntry | null>(null);
+  const [isMergeVisible, setIsMergeVisible] = useState(false);
+
+  // Revision log of the open entry
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
+  const [revisions, setRevisions] = useState<JournalEntryRevision[]>([]);
+  const [isLoadingRevisions, setIsLoadingRevisions] = useState(false);
+  const [revisionsError, setRevisionsError] = useState<string | null>(null);
 
   // Coaching session state
   const [coachingSessionData, setCoachingSessionData] = useState<CoachingSession | null>(null);
@@ -112,6 +123,7 @@ export default function HomeContent() {
 
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedContentRef = useRef<string>('');
+  const shownConflictRef = useRef<string | null>(null);
 
   // Audio transcription hook
   const {
@@ -160,12 +172,46 @@ export default function HomeContent() {
     console.log('New entry created:', newEntry.id);
   }, [firebaseUser]);
 
+  // Open an entry by id and mark an insight source quote in it
+  const openEntryWithSource = useCallback(async (entryId: string, source?: insightSource) => {
+    if (!firebaseUser) return;
+
+    try {
+      let entryData: JournalEntry | null = await JournalEntryStore.getEntry(firebaseUser.uid, entryId);
+
+      // Entries written elsewhere may not have reached the device yet
+      if (!entryData) {
+        const entrySnap = await getDoc(doc(db, 'journal_entries', entryId));
+        if (!entrySnap.exists() || entrySnap.data().uid !== firebaseUser.uid) {
+          console.warn('Insight source entry not found:', entryId);
+          return;
+        }
+        entryData = { id: entrySnap.id, ...(entrySnap.data() as Omit<JournalEntry, 'id'>) };
+      }
+
+      setLatestEntry(entryData);
+      setEntry(entryData.content || '');
+      setOriginalContent(entryData.content || '');
+      lastSavedContentRef.current = entryData.content || '';
+      setSaveStatus('saved');
+      setIsNewEntry(false);
+      setHighlight(source ? {
+        quote: source.quote,
+        ...(source.reference?.span && { span: source.reference.span })
+      } : null);
+    } catch (error) {
+      console.error('Error opening insight source entry:', error);
+    }
+  }, [firebaseUser]);
+
   // Handle selected entry from drawer navigation
   useEffect(() => {
     const selectedEntry = (route.params as any)?.selectedEntry;
     const createNew = (route.params as any)?.createNew;
+    const entryId = (route.params as any)?.entryId;
 
     if (selectedEntry) {
+      setHighlight(null);
       setLatestEntry(selectedEntry);
       setEntry(selectedEntry.content || '');
       setOriginalContent(selectedEntry.content || '');
@@ -177,12 +223,19 @@ export default function HomeContent() {
       navigation.setParams({ selectedEntry: undefined } as any);
     } else if (createNew) {
       // Create a new entry when explicitly requested
+      setHighlight(null);
       createNewEntry();
 
       // Clear the route params to prevent re-loading on re-renders
       navigation.setParams({ createNew: undefined } as any);
+    } else if (entryId) {
+      // Opened from an insight source in the Compass
+      openEntryWithSource(entryId, (route.params as any)?.highlightSource);
+
+      // Clear the route params to prevent re-loading on re-renders
+      navigation.setParams({ entryId: undefined, highlightSource: undefined } as any);
     }
-  }, [route.params, navigation, createNewEntry]);
+  }, [route.params, navigation, createNewEntry, openEntryWithSource]);
 
   // Update current entry ID in context whenever latestEntry changes
   useEffect(() => {
@@ -191,7 +244,7 @@ export default function HomeContent() {
 
   // Calculate display values based on latest entry or fallback to today
   const displayDate = (latestEntry && !isNewEntry)
-    ? (latestEntry.timestamp?.toDate ? latestEntry.timestamp.toDate() : new Date(latestEntry.timestamp))
+    ? toDate(latestEntry.timestamp)
     : today;
 
   const weekday = displayDate.toLocaleDateString('en-US', { weekday: 'short' });
@@ -207,22 +260,16 @@ export default function HomeContent() {
     }
 
     try {
-      const entriesQuery = query(
-        collection(db, 'journal_entries'),
-        where('uid', '==', firebaseUser.uid),
-        orderBy('timestamp', 'desc'),
-        limit(1)
-      );
-
-      const querySnapshot = await getDocs(entriesQuery);
-
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0];
-        const entryData = doc.data() as Omit<JournalEntry, 'id'>;
-        const latestEntryData = {
-          id: doc.id,
-          ...entryData
-        };
+      let entries = await JournalEntryStore.getEntries(firebaseUser.uid);
+
+      // Nothing on the device yet (first start or new device): read the newest page from Firestore
+      if (entries.length === 0) {
+        await JournalSyncService.pull(firebaseUser.uid);
+        entries = await JournalEntryStore.getEntries(firebaseUser.uid);
+      }
+
+      if (entries.length > 0) {
+        const latestEntryData = entries[0];
 
         setLatestEntry(latestEntryData);
         setEntry(latestEntryData.content || '');
@@ -251,50 +298,42 @@ export default function HomeContent() {
     }
   }, [firebaseUser]);
 
-  // Save entry to database
-  const saveEntry = useCallback(async (content: string) => {
+  // Save entry on the device and queue it for syncing to the database
+  const saveEntry = useCallback(async (content: string, options: { newSession?: boolean } = {}) => {
     if (!firebaseUser) return;
 
     try {
       setSaveStatus('saving');
 
-      if (latestEntry && !isNewEntry) {
-        // Update existing entry
-        const entryRef = doc(db, 'journal_entries', latestEntry.id);
-        await updateDoc(entryRef, {
-          content,
-          lastUpdated: serverTimestamp()
-        });
+      const entryId = latestEntry?.id || Crypto.randomUUID();
+      await JournalEntryStore.saveEntry(firebaseUser.uid, {
+        id: entryId,
+        content,
+        timestamp: latestEntry ? toDate(latestEntry.timestamp) : new Date(),
+        ...(latestEntry?.title && { title: latestEntry.title }),
+        ...(latestEntry?.linkedCoachingSessionId && { linkedCoachingSessionId: latestEntry.linkedCoachingSessionId }),
+        ...(latestEntry?.linkedCoachingMessageId && { linkedCoachingMessageId: latestEntry.linkedCoachingMessageId })
+      }, options);
+      JournalSyncService.requestSync(firebaseUser.uid);
 
+      if (latestEntry && !isNewEntry) {
         // Track journal entry update
         trackEntryUpdated({
           entry_id: latestEntry.id,
           content_length: content.length,
         });
       } else {
-        // Create new entry in database using the pre-generated ID
-        const entryId = latestEntry?.id || Crypto.randomUUID();
-        const newEntry = {
-          uid: firebaseUser.uid,
-          content,
-          timestamp: serverTimestamp(),
-          lastUpdated: serverTimestamp()
-        };
-
-        const docRef = doc(db, 'journal_entries', entryId);
-        await setDoc(docRef, newEntry);
-
         // Track journal entry creation
         trackEntryCreated({
           entry_id: entryId,
         });
 
-        // Update local state with new entry info from database (keep the same ID)
+        // Update local state with the stored entry (keep the same ID)
         setLatestEntry({
           id: entryId,
           uid: firebaseUser.uid,
           content,
-          timestamp: new Date(),
+          timestamp: latestEntry?.timestamp || new Date(),
           title: ''
         });
         setIsNewEntry(false);
@@ -311,6 +350,8 @@ export default function HomeContent() {
   // Handle content changes with debounced save
   const handleContentChange = useCallback((newContent: string) => {
     setEntry(newContent);
+    // Typing clears the insight source highlight, so it isn't applied again
+    setHighlight(null);
 
     // Clear existing timeout
     if (saveTimeoutRef.current) {
@@ -332,6 +373,36 @@ export default function HomeContent() {
     }, 2000); // 2 seconds delay
   }, [saveEntry]);
 
+  // Open the revision log of the current entry
+  const openHistory = useCallback(async () => {
+    if (!firebaseUser || !latestEntry) return;
+
+    setIsHistoryVisible(true);
+    setIsLoadingRevisions(true);
+    setRevisionsError(null);
+    try {
+      setRevisions(await FirestoreService.getJournalEntryRevisions(firebaseUser.uid, latestEntry.id));
+    } catch (error) {
+      console.error('Error loading entry history:', error);
+      setRevisions([]);
+      setRevisionsError('History is available once you are back online.');
+    } finally {
+      setIsLoadingRevisions(false);
+    }
+  }, [firebaseUser, latestEntry]);
+
+  // Bring back an earlier version; the text it replaces becomes a revision of its own
+  const restoreRevision = useCallback(async (content: string) => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+
+    setEntry(content);
+    setOriginalContent(content);
+    await saveEntry(content, { newSession: true });
+  }, [saveEntry]);
+
   // Clean up timeout on unmount
   useEffect(() => {
     return () => {
@@ -341,6 +412,63 @@ export default function HomeContent() {
     };
   }, []);
 
+  // Follow the device copy of the open entry
+  useEffect(() => {
+    const entryId = latestEntry?.id;
+    if (!firebaseUser || !entryId) {
+      setStoredEntry(null);
+      return;
+    }
+
+    JournalEntryStore.getEntry(firebaseUser.uid, entryId).then(setStoredEntry);
+    return JournalEntryStore.subscribe(firebaseUser.uid, journal => {
+      setStoredEntry(journal.entries[entryId] || null);
+    });
+  }, [firebaseUser, latestEntry?.id]);
+
+  // Show changes synced from elsewhere while there are no local edits
+  useEffect(() => {
+    if (!storedEntry || storedEntry.id !== latestEntry?.id || storedEntry.pendingSync || saveStatus !== 'saved') return;
+    if (storedEntry.content === lastSavedContentRef.current) return;
+
+    setEntry(storedEntry.content);
+    setOriginalContent(storedEntry.content);
+    lastSavedContentRef.current = storedEntry.content;
+  }, [storedEntry, latestEntry?.id, saveStatus]);
+
+  // Save the version the user picked or merged when the entry was also edited elsewhere
+  const resolveConflict = useCallback(async (content: string) => {
+    if (!firebaseUser || !storedEntry?.conflict) return;
+
+    try {
+      await JournalEntryStore.resolveConflict(firebaseUser.uid, storedEntry.id, content);
+    } catch (error) {
+      console.error('Error saving merged entry:', error);
+      setSaveStatus('unsaved');
+      return;
+    }
+
+    setEntry(content);
+    setOriginalContent(content);
+    lastSavedContentRef.current = content;
+    setSaveStatus('saved');
+    JournalSyncService.requestSync(firebaseUser.uid);
+  }, [firebaseUser, storedEntry]);
+
+  // Show both versions once per detected conflict
+  useEffect(() => {
+    const conflict = storedEntry?.conflict;
+    if (!conflict || shownConflictRef.current === conflict.detectedAt) return;
+
+    shownConflictRef.current = conflict.detectedAt;
+    // Unsaved typing is part of the merge (it starts from what is on screen), so drop its pending save
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    setIsMergeVisible(true);
+  }, [storedEntry?.conflict]);
+
   // Keyboard visibility listeners
   useEffect(() => {
     const keyboardWillShowListener = Keyboard.addListener(
@@ -456,7 +584,7 @@ export default function HomeContent() {
       navigation.navigate('Coaching', {
         sessionId: coachingSessionData.id,
         sessionType: coachingSessionData.sessionType
-      } as any);
+      });
     }
   }, [navigation, coachingSessionData]);
 
@@ -496,7 +624,8 @@ export default function HomeContent() {
         return 'Unsaved';
       case 'saved':
       default:
-        return 'Saved';
+        if (storedEntry?.conflict) return 'Two versions - tap to merge';
+        return storedEntry?.pendingSync ? 'Saved on device' : 'Saved';
     }
   };
 
@@ -635,17 +764,27 @@ export default function HomeContent() {
                   >
                     {weekday} <Text style={{ color: colors.text, opacity: 0.4 }}>{month} {day}</Text>
                   </Text>
-                  <Text style={{ fontSize: 16, marginTop: 10, marginRight: 5, color: colors.text, textAlign: 'right', opacity: 0.3 }}>
-                    {getSaveStatusText()}
-                  </Text>
+                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12, marginTop: 10, marginRight: 5 }}>
+                    <Text
+                      style={{ fontSize: 16, color: colors.text, textAlign: 'right', opacity: storedEntry?.conflict ? 0.7 : 0.3 }}
+                      onPress={storedEntry?.conflict ? () => setIsMergeVisible(true) : undefined}
+                    >
+                      {getSaveStatusText()}
+                    </Text>
+                    {latestEntry && !isNewEntry && (
+                      <TouchableOpacity onPress={openHistory} hitSlop={8}>
+                        <History size={18} color={colors.text} style={{ opacity: 0.3 }} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 </View>
 
                 {/* Coaching Session Card - Show when current entry has linked session */}
                 {(coachingSessionData || loadingCoachingSession) && (
                   <CoachingSessionCard
-                    title={coachingSessionData?.sessionType === 'initial-life-deep-dive' ? 'Life Deep Dive Session' : 'Goal breakout session'}
+                    title={SessionProgramRegistry.resolve(coachingSessionData?.sessionType).title}
                     messageCount={coachingSessionData?.messages?.length || 0}
-                    sessionType={coachingSessionData?.sessionType === 'initial-life-deep-dive' ? 'Initial Life Deep Dive' : 'Coach chat'}
+                    sessionType={SessionProgramRegistry.resolve(coachingSessionData?.sessionType).name}
                     onOpenConversation={handleOpenCoachingSession}
                     loading={loadingCoachingSession}
                   />
@@ -669,6 +808,7 @@ export default function HomeContent() {
                     isLoaded={setEditorLoaded}
                     getAuthToken={getToken}
                     apiBaseUrl={process.env.EXPO_PUBLIC_API_URL}
+                    highlight={highlight}
                   />
                 </View>
               </View>
@@ -811,7 +951,11 @@ export default function HomeContent() {
                     iconOnly={<MessageCircle size={20} color={colors.background} />}
                     style={{ width: 70, height: 40 }}
                     onPress={() => {
-                      navigation.navigate('Coaching' as never);
+                      // Review entries open the matching review session
+                      const reviewPeriod = latestEntry?.reviewRange?.period;
+                      navigation.navigate('Coaching', reviewPeriod
+                        ? { sessionType: reviewPeriod === 'week' ? 'weekly-review' : 'monthly-review' }
+                        : undefined);
                     }}
                   >
                   </Button>
@@ -821,6 +965,27 @@ export default function HomeContent() {
           </Animated.View>
         </Animated.View>
       </PanGestureHandler>
+
+      {/* Merge the versions of an entry edited here and elsewhere */}
+      <EntryMergeModal
+        isVisible={isMergeVisible && !!storedEntry?.conflict}
+        onClose={() => setIsMergeVisible(false)}
+        onResolve={resolveConflict}
+        localContent={entry}
+        remoteContent={storedEntry?.conflict?.remoteContent || ''}
+        remoteUpdatedAt={storedEntry?.conflict?.remoteUpdatedAt || new Date().toISOString()}
+      />
+
+      {/* Earlier versions of the entry */}
+      <EntryHistoryModal
+        isVisible={isHistoryVisible}
+        onClose={() => setIsHistoryVisible(false)}
+        onRestore={restoreRevision}
+        revisions={revisions}
+        currentContent={entry}
+        isLoading={isLoadingRevisions}
+        error={revisionsError}
+      />
     </View>
   );
 }
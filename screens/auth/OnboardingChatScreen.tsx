@@ -15,6 +15,9 @@ import { useAuth } from '@/hooks/useAuth';
 import { useAudioTranscriptionAv } from '@/hooks/useAudioTranscriptionAv';
 import { FirestoreService } from '@/lib/firestore';
 import { UserAccount } from '@/types/journal';
+import { CoachingCardProtocol } from '@/lib/coaching/cardProtocol';
+import { SessionProgramRegistry } from '@/lib/coaching/sessionPrograms';
+import { CoachingCompletionData } from '@/types/coaching';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 
 type OnboardingChatScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'OnboardingChat'>;
@@ -197,77 +200,16 @@ export default function OnboardingChatScreen() {
     words: 0,
     keyInsights: 0
   });
-  const [parsedCoachingData, setParsedCoachingData] = useState<{
-    components: Array<{ type: string; props: Record<string, string> }>;
-    rawData: string;
-  } | null>(null);
-
-  // Function to parse coaching cards from any content
-  const parseCoachingCards = (content: string) => {
-    const components: Array<{ type: string; props: Record<string, string> }> = [];
-    
-    // First check for simple card format without parameters (e.g., [checkin])
-    const simpleComponentRegex = /\[(\w+)\]/g;
-    let simpleMatch;
-    while ((simpleMatch = simpleComponentRegex.exec(content)) !== null) {
-      const componentType = simpleMatch[1];
-      
-      // Add empty props for simple cards
-      const props: Record<string, string> = {};
-      components.push({ type: componentType, props });
-    }
-    
-    // Also parse component markers with parameters like [checkin:frequency="once a day",what="morning routine progress",notes="..."]
-    const componentRegex = /\[(\w+):([^\]]+)\]/g;
-    let match;
-    while ((match = componentRegex.exec(content)) !== null) {
-      const componentType = match[1];
-      const propsString = match[2];
-      
-      // Parse props from key="value" format
-      const props: Record<string, string> = {};
-      const propRegex = /(\w+)="([^"]+)"/g;
-      let propMatch;
-      
-      while ((propMatch = propRegex.exec(propsString)) !== null) {
-        const [, key, value] = propMatch;
-        props[key] = value;
-      }
-      
-      // Replace simple version if we have a parameterized version
-      const existingIndex = components.findIndex(comp => comp.type === componentType);
-      if (existingIndex !== -1) {
-        components[existingIndex] = { type: componentType, props };
-      } else {
-        components.push({ type: componentType, props });
-      }
-    }
-    
-    return components;
-  };
+  const [parsedCoachingData, setParsedCoachingData] = useState<CoachingCompletionData | null>(null);
+
+  // Parse coaching cards from any content
+  const parseCoachingCards = (content: string) => CoachingCardProtocol.parseCards(content);
 
-  // Function to parse coaching completion data between finish tokens
+  // Parse coaching completion data between finish tokens
   const parseCoachingCompletion = (content: string) => {
-    const finishStartIndex = content.indexOf('[finish-start]');
-    const finishEndIndex = content.indexOf('[finish-end]');
-    
-    if (finishStartIndex === -1 || finishEndIndex === -1) {
-      return { components: [], rawData: '' };
-    }
-    
-    // Extract content between finish tokens
-    const finishContent = content.slice(finishStartIndex + '[finish-start]'.length, finishEndIndex).trim();
-    
-    // Use the general parsing function
-    const components = parseCoachingCards(finishContent);
-    
-    console.log('🎯 Parsed coaching completion:', { 
-      componentsCount: components.length, 
-      components,
-      rawFinishContent: finishContent
-    });
-    
-    return { components, rawData: finishContent };
+    const { components, rawData } = CoachingCardProtocol.parseCompletion(content);
+    console.log('🎯 Parsed coaching completion:', { componentsCount: components.length, components, rawFinishContent: rawData });
+    return { components, rawData };
   };
 
   // Function to call coaching chat API for coaching blocks
@@ -384,34 +326,8 @@ export default function OnboardingChatScreen() {
     }
   };
 
-  // Function to clean message content by removing finish tokens and coaching cards
-  const getDisplayContent = (content: string) => {
-    let cleanContent = content;
-    
-    // Remove content between finish tokens, but preserve content after [finish-end]
-    const finishStartIndex = cleanContent.indexOf('[finish-start]');
-    const finishEndIndex = cleanContent.indexOf('[finish-end]');
-    
-    if (finishStartIndex !== -1 && finishEndIndex !== -1) {
-      // Keep content before [finish-start] and after [finish-end]
-      const beforeFinish = cleanContent.slice(0, finishStartIndex).trim();
-      const afterFinish = cleanContent.slice(finishEndIndex + '[finish-end]'.length).trim();
-      cleanContent = beforeFinish + (afterFinish ? '\n\n' + afterFinish : '');
-    } else if (finishStartIndex !== -1) {
-      // If only [finish-start] is found, remove everything after it
-      cleanContent = cleanContent.slice(0, finishStartIndex).trim();
-    }
-    
-    // Remove coaching card syntax like [checkin:...], [focus:...], etc.
-    const coachingCardRegex = /\[(\w+):[^\]]+\]/g;
-    cleanContent = cleanContent.replace(coachingCardRegex, '').trim();
-    
-    // Clean up extra whitespace/newlines that might be left
-    cleanContent = cleanContent.replace(/\n\s*\n\s*\n/g, '\n\n'); // Replace multiple newlines with double newlines
-    cleanContent = cleanContent.trim();
-    
-    return cleanContent;
-  };
+  // Clean message content by removing finish tokens and coaching cards
+  const getDisplayContent = (content: string) => CoachingCardProtocol.getDisplayContent(content);
 
   const scrollViewRef = useRef<ScrollView>(null);
   const textInputRef = useRef<TextInput>(null);
@@ -428,9 +344,7 @@ export default function OnboardingChatScreen() {
       setTimeout(() => {
         const initialMessage: CoachingMessage = {
           id: '1',
-          content: `Hey, ${name}.\n
-Once you're ready, I'd love to hear: If you had to name what's most alive in you right now—what would it be?\n
-Maybe it's a tension you're holding, a quiet longing, or something you don't quite have words for yet. Whatever shows up—start there.`,
+          content: SessionProgramRegistry.getProgram('initial-life-deep-dive').openingMessage(name),
           role: 'assistant',
           timestamp: new Date()
         };
@@ -610,7 +524,7 @@ Maybe it's a tension you're holding, a quiet longing, or something you don't qui
       // Find the final AI message that contains finish tokens
       const lastAIMessage = [...messages].reverse().find(msg => 
         msg.role === 'assistant' && 
-        (msg.content.includes('[finish-start]') || msg.content.includes('[finish-end]'))
+        CoachingCardProtocol.hasFinishToken(msg.content)
       );
       
       if (lastAIMessage) {
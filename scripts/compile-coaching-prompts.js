@@ -0,0 +1,85 @@
+/**
+ * Compile coaching prompt files into typed TypeScript modules
+ *
+ * Every coaching model keeps its prompt sections as markdown in
+ * `lib/coaching/models/<model>/prompts/*.md`, next to a `manifest.json` holding
+ * the model id and prompt version. React Native cannot read files at runtime,
+ * so this script inlines them into a `prompts/index.ts` prompt asset.
+ *
+ * The build fails when a required section is missing, or when the prompt
+ * content changed without bumping the version in manifest.json.
+ *
+ * Usage: node scripts/compile-coaching-prompts.js
+ */
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const MODELS_DIR = path.resolve(__dirname, '../lib/coaching/models');
+const REQUIRED_SECTIONS = ['role', 'task', 'output', 'behavior'];
+
+function compileModelPrompts(modelDir) {
+  const promptsDir = path.join(MODELS_DIR, modelDir, 'prompts');
+  if (!fs.existsSync(promptsDir)) return;
+
+  const manifestPath = path.join(promptsDir, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`${modelDir}: prompts/manifest.json is missing`);
+  }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+
+  const sections = {};
+  for (const section of REQUIRED_SECTIONS) {
+    const sectionPath = path.join(promptsDir, `${section}.md`);
+    const content = fs.existsSync(sectionPath) ? fs.readFileSync(sectionPath, 'utf-8').trim() : '';
+    if (!content) {
+      throw new Error(`${modelDir}: required prompt section ${section}.md is missing or empty`);
+    }
+    sections[section] = content;
+  }
+
+  const hash = crypto.createHash('sha256')
+    .update(REQUIRED_SECTIONS.map(section => sections[section]).join('\n\n'))
+    .digest('hex')
+    .slice(0, 12);
+
+  if (manifest.hash && manifest.hash !== hash && manifest.compiledVersion === manifest.version) {
+    throw new Error(`${modelDir}: prompt content changed - bump "version" in prompts/manifest.json (and ModelInfo.version)`);
+  }
+
+  const lines = [
+    '// Generated by scripts/compile-coaching-prompts.js from the .md files in this folder - do not edit.',
+    "import { PromptAsset } from '@/types/coaching';",
+    '',
+    'const promptAsset: PromptAsset = {',
+    `  modelId: ${JSON.stringify(manifest.modelId)},`,
+    `  version: ${JSON.stringify(manifest.version)},`,
+    `  hash: ${JSON.stringify(hash)},`,
+    '  sections: {',
+    ...REQUIRED_SECTIONS.map(section => `    ${section}: ${JSON.stringify(sections[section])},`),
+    '  }',
+    '};',
+    '',
+    'export default promptAsset;',
+    ''
+  ];
+
+  fs.writeFileSync(path.join(promptsDir, 'index.ts'), lines.join('\n'));
+  fs.writeFileSync(manifestPath, JSON.stringify({
+    modelId: manifest.modelId,
+    version: manifest.version,
+    compiledVersion: manifest.version,
+    hash
+  }, null, 2) + '\n');
+
+  console.log(`📝 Compiled prompts for ${manifest.modelId}@${manifest.version} (${hash})`);
+}
+
+try {
+  fs.readdirSync(MODELS_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .forEach(entry => compileModelPrompts(entry.name));
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
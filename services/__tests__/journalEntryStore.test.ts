@@ -0,0 +1,203 @@
+import { JournalEntryStore } from '@/services/journalEntryStore';
+import { JournalRevision } from '@/lib/journalRevision';
+import { StoredJournalEntry } from '@/types/journal';
+
+// In-memory file system, so the store's files can be inspected
+const mockFiles: Record<string, string> = {};
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: '/documents/',
+  getInfoAsync: async (path: string) => ({
+    exists: path in mockFiles || Object.keys(mockFiles).some(file => path.endsWith('/') && file.startsWith(path))
+  }),
+  readAsStringAsync: async (path: string) => mockFiles[path],
+  writeAsStringAsync: async (path: string, contents: string) => {
+    mockFiles[path] = contents;
+  },
+  moveAsync: async ({ from, to }: { from: string; to: string }) => {
+    mockFiles[to] = mockFiles[from];
+    delete mockFiles[from];
+  },
+  deleteAsync: async (path: string) => {
+    delete mockFiles[path];
+  },
+  makeDirectoryAsync: async () => {},
+  readDirectoryAsync: async (directory: string) => Object.keys(mockFiles)
+    .filter(file => file.startsWith(directory) && !file.slice(directory.length).includes('/'))
+    .map(file => file.slice(directory.length))
+}));
+
+const at = (iso: string) => new Date(iso);
+let uidCounter = 0;
+const nextUid = () => `user-${++uidCounter}`;
+
+const remoteEntry = (id: string, content: string, revision: number, overrides: Partial<StoredJournalEntry> = {}): StoredJournalEntry => ({
+  id,
+  uid: 'remote',
+  content,
+  timestamp: '2026-01-01T08:00:00.000Z',
+  lastUpdated: '2026-01-02T08:00:00.000Z',
+  base: { revision, contentHash: JournalRevision.hash(content) },
+  ...overrides
+});
+
+// Save an entry and mark it synced as revision 1, like a successful push
+const savedAndSynced = async (uid: string, id: string, content: string) => {
+  await JournalEntryStore.saveEntry(uid, { id, content, timestamp: '2026-01-01T08:00:00.000Z' }, {}, at('2026-01-01T08:00:00.000Z'));
+  const entry = await JournalEntryStore.getEntry(uid, id);
+  await JournalEntryStore.markSynced(uid, id, entry!.lastUpdated, {
+    updatedAt: '2026-01-01T08:00:01.000Z',
+    base: JournalRevision.next(null, content)
+  });
+};
+
+describe('JournalEntryStore', () => {
+  describe('queue', () => {
+    it('coalesces repeated saves of an entry into one operation', async () => {
+      const uid = nextUid();
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>1</p>', timestamp: '2026-01-01T08:00:00.000Z' }, {}, at('2026-01-01T08:00:00.000Z'));
+      await JournalEntryStore.markFailed(uid, 'a', at('2026-01-01T08:05:00.000Z'));
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>2</p>', timestamp: '2026-01-01T08:00:00.000Z' }, {}, at('2026-01-01T08:01:00.000Z'));
+
+      expect(await JournalEntryStore.getQueue(uid)).toEqual([{
+        entryId: 'a',
+        kind: 'upsert',
+        attempts: 0,
+        queuedAt: '2026-01-01T08:00:00.000Z',
+        nextAttemptAt: '2026-01-01T08:01:00.000Z'
+      }]);
+    });
+
+    it('replaces a queued save with the deletion of a synced entry', async () => {
+      const uid = nextUid();
+      await savedAndSynced(uid, 'a', '<p>Synced</p>');
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>Edited</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.deleteEntry(uid, 'a');
+
+      expect((await JournalEntryStore.getQueue(uid)).map(operation => operation.kind)).toEqual(['delete']);
+      expect(await JournalEntryStore.getEntries(uid)).toEqual([]);
+    });
+
+    it('drops an entry that never reached the server together with its operation', async () => {
+      const uid = nextUid();
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>Draft</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.deleteEntry(uid, 'a');
+
+      expect(await JournalEntryStore.getQueue(uid)).toEqual([]);
+      expect(await JournalEntryStore.getEntry(uid, 'a')).toBeNull();
+    });
+
+    it('counts failed attempts', async () => {
+      const uid = nextUid();
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>1</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.markFailed(uid, 'a', at('2026-01-01T08:00:02.000Z'));
+      await JournalEntryStore.markFailed(uid, 'a', at('2026-01-01T08:00:06.000Z'));
+
+      const [operation] = await JournalEntryStore.getQueue(uid);
+      expect(operation.attempts).toBe(2);
+      expect(operation.nextAttemptAt).toBe('2026-01-01T08:00:06.000Z');
+    });
+
+    it('keeps a change made while the previous one was being pushed', async () => {
+      const uid = nextUid();
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>1</p>', timestamp: '2026-01-01T08:00:00.000Z' }, {}, at('2026-01-01T08:00:00.000Z'));
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>2</p>', timestamp: '2026-01-01T08:00:00.000Z' }, {}, at('2026-01-01T08:00:05.000Z'));
+      await JournalEntryStore.markSynced(uid, 'a', '2026-01-01T08:00:00.000Z', { updatedAt: '2026-01-01T08:00:06.000Z', base: { revision: 1, contentHash: 'x' } });
+
+      expect(await JournalEntryStore.getQueue(uid)).toHaveLength(1);
+      expect((await JournalEntryStore.getEntry(uid, 'a'))?.pendingSync).toBe(true);
+    });
+  });
+
+  describe('applyRemotePage', () => {
+    it('replaces entries without unsynced changes with the server copy', async () => {
+      const uid = nextUid();
+      await savedAndSynced(uid, 'a', '<p>Old</p>');
+      await JournalEntryStore.applyRemotePage(uid, [remoteEntry('a', '<p>From the web</p>', 2)]);
+
+      const entry = await JournalEntryStore.getEntry(uid, 'a');
+      expect(entry?.content).toBe('<p>From the web</p>');
+      expect(entry?.pendingSync).toBe(false);
+    });
+
+    it('holds back an unsynced change whose server copy moved on', async () => {
+      const uid = nextUid();
+      await savedAndSynced(uid, 'a', '<p>Synced</p>');
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>Phone edit</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.applyRemotePage(uid, [remoteEntry('a', '<p>Web edit</p>', 2)]);
+
+      const entry = await JournalEntryStore.getEntry(uid, 'a');
+      expect(entry?.content).toBe('<p>Phone edit</p>');
+      expect(entry?.conflict).toMatchObject({ remoteContent: '<p>Web edit</p>', remoteRevision: 2 });
+    });
+
+    it('keeps an unsynced change made on the current server copy', async () => {
+      const uid = nextUid();
+      await savedAndSynced(uid, 'a', '<p>Synced</p>');
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>Phone edit</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.applyRemotePage(uid, [remoteEntry('a', '<p>Synced</p>', 1)]);
+
+      const entry = await JournalEntryStore.getEntry(uid, 'a');
+      expect(entry?.content).toBe('<p>Phone edit</p>');
+      expect(entry?.conflict).toBeUndefined();
+    });
+
+    it('ignores a server copy older than the stored one', async () => {
+      const uid = nextUid();
+      await savedAndSynced(uid, 'a', '<p>Just pushed</p>');
+      await JournalEntryStore.applyRemotePage(uid, [remoteEntry('a', '<p>Read before the push</p>', 0)]);
+
+      expect((await JournalEntryStore.getEntry(uid, 'a'))?.content).toBe('<p>Just pushed</p>');
+    });
+
+    it('drops entries deleted on the server unless they have unsynced changes', async () => {
+      const uid = nextUid();
+      await savedAndSynced(uid, 'a', '<p>A</p>');
+      await savedAndSynced(uid, 'b', '<p>B</p>');
+      await JournalEntryStore.saveEntry(uid, { id: 'b', content: '<p>B edited</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.applyRemotePage(uid, [], ['a', 'b']);
+
+      expect(await JournalEntryStore.getEntry(uid, 'a')).toBeNull();
+      expect((await JournalEntryStore.getEntry(uid, 'b'))?.content).toBe('<p>B edited</p>');
+    });
+  });
+
+  describe('files', () => {
+    it('writes only the changed entry and the index', async () => {
+      const uid = nextUid();
+      await JournalEntryStore.saveEntry(uid, { id: 'a', content: '<p>A</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      await JournalEntryStore.saveEntry(uid, { id: 'b', content: '<p>B</p>', timestamp: '2026-01-02T08:00:00.000Z' });
+
+      const entryA = `/documents/journal/${uid}/entries/a.json`;
+      const before = mockFiles[entryA];
+      await JournalEntryStore.saveEntry(uid, { id: 'b', content: '<p>B edited</p>', timestamp: '2026-01-02T08:00:00.000Z' });
+
+      expect(mockFiles[entryA]).toBe(before);
+      expect(JSON.parse(mockFiles[`/documents/journal/${uid}/entries/b.json`]).content).toBe('<p>B edited</p>');
+      expect(Object.keys(JSON.parse(mockFiles[`/documents/journal/${uid}/index.json`]).entries)).toEqual(['a', 'b']);
+    });
+
+    it('moves a journal stored as one file to one file per entry', async () => {
+      const uid = nextUid();
+      mockFiles[`/documents/journal/${uid}.json`] = JSON.stringify({
+        uid,
+        entries: { a: remoteEntry('a', '<p>Legacy</p>', 1, { uid }) },
+        queue: [],
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      });
+
+      expect((await JournalEntryStore.getFirstPage(uid)).map(entry => entry.content)).toEqual(['<p>Legacy</p>']);
+      expect(mockFiles[`/documents/journal/${uid}.json`]).toBeUndefined();
+      expect(JSON.parse(mockFiles[`/documents/journal/${uid}/entries/a.json`]).content).toBe('<p>Legacy</p>');
+    });
+
+    it('keeps an entry file that doesn\'t parse as a corrupt copy', async () => {
+      const uid = nextUid();
+      mockFiles[`/documents/journal/${uid}/index.json`] = JSON.stringify({ uid, queue: [], updatedAt: '2026-01-01T00:00:00.000Z', entries: {} });
+      mockFiles[`/documents/journal/${uid}/entries/a.json`] = '{"content": ';
+
+      expect(await JournalEntryStore.getEntries(uid)).toEqual([]);
+      expect(Object.keys(mockFiles).some(file => file.startsWith(`/documents/journal/${uid}/entries/a.corrupt-`))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { runTransaction } from 'firebase/firestore';
+import { JournalSyncService } from '@/services/journalSyncService';
+import { JournalEntryStore } from '@/services/journalEntryStore';
+
+const mockFiles: Record<string, string> = {};
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: '/documents/',
+  getInfoAsync: async (path: string) => ({
+    exists: path in mockFiles || Object.keys(mockFiles).some(file => path.endsWith('/') && file.startsWith(path))
+  }),
+  readAsStringAsync: async (path: string) => mockFiles[path],
+  writeAsStringAsync: async (path: string, contents: string) => {
+    mockFiles[path] = contents;
+  },
+  moveAsync: async ({ from, to }: { from: string; to: string }) => {
+    mockFiles[to] = mockFiles[from];
+    delete mockFiles[from];
+  },
+  deleteAsync: async (path: string) => {
+    delete mockFiles[path];
+  },
+  makeDirectoryAsync: async () => {},
+  readDirectoryAsync: async (directory: string) => Object.keys(mockFiles)
+    .filter(file => file.startsWith(directory) && !file.slice(directory.length).includes('/'))
+    .map(file => file.slice(directory.length))
+}));
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  deleteDoc: jest.fn(),
+  doc: jest.fn(() => ({})),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  limit: jest.fn(),
+  onSnapshot: jest.fn(),
+  orderBy: jest.fn(),
+  query: jest.fn(),
+  runTransaction: jest.fn(),
+  serverTimestamp: jest.fn(),
+  startAfter: jest.fn(),
+  Timestamp: { fromDate: jest.fn() },
+  where: jest.fn()
+}));
+jest.mock('@/lib/firebase', () => ({ db: {} }));
+jest.mock('@/lib/firestore', () => ({ FirestoreService: {} }));
+
+describe('JournalSyncService', () => {
+  describe('getBackoffDelay', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('doubles from 2 seconds up to 5 minutes', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect([1, 2, 3, 4, 8, 9, 20].map(attempts => JournalSyncService.getBackoffDelay(attempts)))
+        .toEqual([2000, 4000, 8000, 16000, 256000, 300000, 300000]);
+    });
+
+    it('adds up to 20% of jitter either way', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      expect(JournalSyncService.getBackoffDelay(2)).toBe(3200);
+
+      jest.spyOn(Math, 'random').mockReturnValue(0.9999);
+      expect(JournalSyncService.getBackoffDelay(2)).toBeCloseTo(4800, -1);
+    });
+  });
+
+  describe('requestSync', () => {
+    afterEach(() => {
+      JournalSyncService.cancel('user-1');
+      jest.restoreAllMocks();
+    });
+
+    it('pushes a failed change back by the backoff delay and schedules the retry', async () => {
+      jest.mocked(runTransaction).mockRejectedValue(new Error('offline'));
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+
+      await JournalEntryStore.saveEntry('user-1', { id: 'a', content: '<p>A</p>', timestamp: '2026-01-01T08:00:00.000Z' });
+      const before = Date.now();
+      await JournalSyncService.requestSync('user-1');
+
+      const [operation] = await JournalEntryStore.getQueue('user-1');
+      expect(operation.attempts).toBe(1);
+      expect(new Date(operation.nextAttemptAt).getTime() - before).toBeGreaterThanOrEqual(2000);
+      expect(new Date(operation.nextAttemptAt).getTime() - before).toBeLessThan(3000);
+
+      const [, delay] = setTimeoutSpy.mock.calls[setTimeoutSpy.mock.calls.length - 1];
+      expect(delay).toBeGreaterThan(1000);
+      expect(delay).toBeLessThanOrEqual(2000);
+    });
+  });
+});
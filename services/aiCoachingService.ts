@@ -1,108 +1,21 @@
-import { CoachingContext, CoachingInteractionRequest, CoachingInteractionResponse, ModelRoutingDecision, CoachingModel, ModelInfo } from '@/types/coaching';
+import { CoachingContext, CoachingInteractionRequest, CoachingInteractionResponse, CoachingProvider, CoachingSessionTranscript, EmbeddingProvider, RelatedEntryMatch } from '@/types/coaching';
 import { auth } from '@/lib/firebase';
-import { collection, query, where, orderBy, limit, getDocs } from 'firebase/firestore';
+import { collection, query, where, orderBy, limit, getDocs, getCountFromServer } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-
-/**
- * Simple General Coaching Model for React Native
- */
-class GeneralCoachingModel implements CoachingModel {
-  getInfo(): ModelInfo {
-    return {
-      id: 'general-coaching',
-      name: 'General Coaching',
-      description: 'Contextual coaching for reflective journaling',
-      version: '1.0.0'
-    };
-  }
-
-  canHandle(context: CoachingContext): boolean {
-    return true; // This model can handle all contexts
-  }
-
-  generateSystemPrompt(): string {
-    return `You are Sage, a wise and empathetic AI coach specializing in reflective journaling and personal development. 
-
-Your role is to help users explore their thoughts, emotions, and experiences through thoughtful questioning and gentle guidance. You are particularly skilled at:
-
-- Identifying key themes and patterns in journal entries
-- Asking probing questions that encourage deeper reflection
-- Providing actionable insights and suggestions
-- Creating safe spaces for vulnerable self-exploration
-- Helping users connect their experiences to broader life lessons
-
-When responding, you should:
-- Be warm, empathetic, and non-judgmental
-- Ask one powerful question at a time
-- Offer gentle insights when appropriate
-- Encourage self-discovery rather than providing direct answers
-- Keep responses concise but meaningful (2-3 sentences max)
-
-Your output should be in XML format with the following structure:
-<thinking>
-Your internal reasoning about what the user needs and why you're choosing this approach
-</thinking>
-
-<content>
-Your response to the user - either a thoughtful question, insight, or gentle guidance
-</content>
-
-<variant>text</variant>
-
-For interactive prompts, you can use:
-<variant>buttons</variant>
-<options>
-<option>Option 1</option>
-<option>Option 2</option>
-<option>Option 3</option>
-</options>
-
-Or for multi-select:
-<variant>multi-select</variant>
-<options>
-<option>Option 1</option>
-<option>Option 2</option>
-<option>Option 3</option>
-</options>`;
-  }
-
-  generateContextMessage(context: CoachingContext): string {
-    return `Please provide a thoughtful coaching response to this journal entry:
-
-"${context.entryContent}"
-
-Entry ID: ${context.entryId}
-Entry Count: ${context.entryCount}
-${context.userAlignment ? `User's Alignment: ${context.userAlignment}` : ''}
-${context.formattedRecentEntries ? `Recent Entries Context: ${context.formattedRecentEntries}` : ''}`;
-  }
-}
-
-/**
- * Simple Model Registry for React Native
- */
-class ModelRegistry {
-  private static models: Map<string, CoachingModel> = new Map();
-
-  static register(model: CoachingModel): void {
-    const info = model.getInfo();
-    this.models.set(info.id, model);
-    console.log(`📝 Registered coaching model: ${info.name} (${info.id})`);
-  }
-
-  static getModel(modelId: string): CoachingModel | null {
-    return this.models.get(modelId) || null;
-  }
-
-  static routeToModel(context: CoachingContext): ModelRoutingDecision {
-    // Simple routing - always use general coaching model
-    return {
-      modelId: 'general-coaching',
-      reason: 'General coaching model suitable for all contexts',
-      confidence: 1.0
-    };
-  }
-}
+import { FirestoreService } from '@/lib/firestore';
+import { JournalEntry } from '@/types/journal';
+import { ModelRegistry } from '@/lib/coaching/modelRegistry';
+import { registerCoachingModels } from '@/lib/coaching/models';
+import { CoachingResponseParser } from '@/lib/coaching/responseParser';
+import { CoachingContextAssembler } from '@/lib/coaching/contextAssembler';
+import { EntryIndex } from '@/lib/coaching/retrieval/entryIndex';
+import { createDefaultCoachingProvider, createDefaultEmbeddingProvider } from '@/services/coachingProviders';
+import { JournalEntryStore } from '@/services/journalEntryStore';
+
+// Candidate entries handed to the context assembler, which picks the most relevant ones
+const CANDIDATE_ENTRY_LIMIT = 30;
+// Older entries retrieved from the whole history
+const RELATED_ENTRY_LIMIT = 5;
 
 /**
  * AI Coaching Service for React Native
@@ -110,6 +23,8 @@ class ModelRegistry {
 export class AICoachingService {
   private static instance: AICoachingService | null = null;
   private isInitialized = false;
+  private provider: CoachingProvider | null = null;
+  private embeddingProvider: EmbeddingProvider | null = createDefaultEmbeddingProvider();
 
   private constructor() {}
 
@@ -120,11 +35,23 @@ export class AICoachingService {
     return AICoachingService.instance;
   }
 
+  /**
+   * Replace the LLM provider (e.g. the local fake in tests)
+   */
+  setProvider(provider: CoachingProvider): void {
+    this.provider = provider;
+    console.log(`🔌 Coaching provider set: ${provider.id}`);
+  }
+
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    // Register models
-    ModelRegistry.register(new GeneralCoachingModel());
+    // Register the shared coaching models (same registry as the server)
+    registerCoachingModels();
+
+    if (!this.provider) {
+      this.provider = createDefaultCoachingProvider();
+    }
     
     this.isInitialized = true;
     console.log('🤖 AI Coaching Service initialized');
@@ -153,16 +80,23 @@ export class AICoachingService {
       console.log(`🎯 Routing to model: ${routingDecision.modelId} - ${routingDecision.reason}`);
 
       // Generate prompts
-      const systemPrompt = model.generateSystemPrompt();
+      const systemPrompt = model.generateSystemPrompt(context);
       const userMessage = model.generateContextMessage(context);
 
-      // For React Native, we'll use a simple API call instead of streaming
-      // In a real implementation, you'd want to set up your own backend API
-      const mockResponse = await this.simulateAIResponse(context);
+      if (!this.provider) {
+        throw new Error('Coaching provider not configured');
+      }
+
+      const rawResponse = await this.provider.complete({
+        modelId: routingDecision.modelId,
+        systemPrompt,
+        userMessage,
+        context
+      });
 
       return {
         success: true,
-        coachingBlock: mockResponse
+        coachingBlock: CoachingResponseParser.parse(rawResponse)
       };
 
     } catch (error) {
@@ -176,40 +110,68 @@ export class AICoachingService {
 
   private async buildContext(request: CoachingInteractionRequest, userId: string): Promise<CoachingContext> {
     try {
-      // Get user's entry count
-      const entriesQuery = query(
+      const userEntries = query(
         collection(db, 'journal_entries'),
-        where('uid', '==', userId),
+        where('uid', '==', userId)
+      );
+
+      // Get user's total entry count - routing must match the server
+      const countSnapshot = await getCountFromServer(userEntries);
+      const entryCount = countSnapshot.data().count;
+
+      const entriesQuery = query(
+        userEntries,
         orderBy('timestamp', 'desc'),
-        limit(10)
+        limit(CANDIDATE_ENTRY_LIMIT)
       );
 
       const entriesSnapshot = await getDocs(entriesQuery);
-      const entryCount = entriesSnapshot.size;
 
       // Get recent entries for context
-      const recentEntries = entriesSnapshot.docs.map(doc => {
+      const recentEntries: JournalEntry[] = entriesSnapshot.docs.map(doc => {
         const data = doc.data();
         return {
           id: doc.id,
-          content: data.content || '',
-          timestamp: data.timestamp,
           uid: data.uid,
-          ...data
+          content: data.content || '',
+          timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : new Date(),
+          lastUpdated: data.lastUpdated?.toDate ? data.lastUpdated.toDate() : new Date(),
+          title: data.title,
+          linkedCoachingSessionId: data.linkedCoachingSessionId
         };
       });
 
-      const formattedRecentEntries = recentEntries
-        .slice(0, 3)
-        .map(entry => `Entry ${entry.id}: ${entry.content.substring(0, 200)}...`)
-        .join('\n\n');
+      // Coaching preferences feed into model routing and prompt personalization
+      const userAccount = await FirestoreService.getUserAccount(userId).catch(() => null);
+      const insights = await FirestoreService.getUserInsights(userId).catch(() => null);
 
-      return {
+      const linkedSessionId = recentEntries.find(entry => entry.id === request.entryId)?.linkedCoachingSessionId;
+      const linkedSession = linkedSessionId ? await this.fetchCoachingSession(linkedSessionId) : null;
+      const relatedEntries = await this.getRelatedEntries(userId, request, recentEntries);
+
+      const assembled = CoachingContextAssembler.assemble({
         entryId: request.entryId,
         entryContent: request.entryContent,
+        entries: recentEntries,
+        coachingSessions: linkedSession ? [linkedSession] : [],
+        insights,
+        relatedEntries
+      });
+
+      return {
+        entryId: request.entryId,
+        sessionId: request.sessionId,
+        entryContent: assembled.entryContent,
         userId,
         entryCount,
-        formattedRecentEntries,
+        recentEntries,
+        formattedRecentEntries: assembled.formattedRecentEntries,
+        formattedInsights: assembled.formattedInsights,
+        formattedCoachingSessions: assembled.formattedCoachingSessions,
+        formattedRelatedEntries: assembled.formattedRelatedEntries,
+        contextReport: assembled.report,
+        coachingConfig: userAccount?.coachingConfig,
+        onboardingData: userAccount?.onboardingData,
         // userAlignment can be added later when user profiles are implemented
       };
 
@@ -217,6 +179,7 @@ export class AICoachingService {
       console.error('Error building context:', error);
       return {
         entryId: request.entryId,
+        sessionId: request.sessionId,
         entryContent: request.entryContent,
         userId,
         entryCount: 1,
@@ -224,44 +187,69 @@ export class AICoachingService {
     }
   }
 
-  private async simulateAIResponse(context: CoachingContext): Promise<{ content: string; variant: 'text' | 'buttons' | 'multi-select'; options?: string[]; thinking?: string }> {
-    // This is a mock implementation - in production, you'd call your actual AI API
-    // For now, we'll return contextual responses based on the entry content
-    
-    const content = context.entryContent.toLowerCase();
-    
-    if (content.includes('stressed') || content.includes('anxious') || content.includes('overwhelmed')) {
-      return {
-        content: "I notice you're experiencing some stress. What would help you feel more grounded right now?",
-        variant: 'buttons',
-        options: ['Take a few deep breaths', 'Write about what I can control', 'Practice gratitude', 'Talk to someone I trust'],
-        thinking: "The user is expressing stress-related emotions. I want to offer practical, immediate coping strategies they can choose from."
-      };
-    }
+  /**
+   * Retrieve older entries relevant to the current one from the entries stored on the device
+   * Recent entries are excluded since they are already part of the context
+   */
+  private async getRelatedEntries(userId: string, request: CoachingInteractionRequest, recentEntries: JournalEntry[]): Promise<RelatedEntryMatch[]> {
+    try {
+      const storedEntries = await JournalEntryStore.getEntries(userId);
+      if (storedEntries.length <= recentEntries.length) {
+        return [];
+      }
 
-    if (content.includes('grateful') || content.includes('thankful') || content.includes('appreciate')) {
-      return {
-        content: "It's wonderful that you're feeling grateful! What aspect of this gratitude feels most meaningful to you?",
-        variant: 'text',
-        thinking: "The user is expressing gratitude, which is a positive emotion. I want to help them explore and deepen this feeling."
-      };
+      const index = EntryIndex.forUser(userId, this.embeddingProvider);
+      index.upsert(storedEntries.map(entry => ({
+        id: entry.id,
+        uid: entry.uid,
+        content: entry.content,
+        timestamp: new Date(entry.timestamp),
+        lastUpdated: new Date(entry.lastUpdated),
+        title: entry.title
+      })));
+
+      return await index.search(request.entryContent, {
+        limit: RELATED_ENTRY_LIMIT,
+        excludeIds: [request.entryId, ...recentEntries.map(entry => entry.id)]
+      });
+    } catch (error) {
+      console.error('Error retrieving related entries:', error);
+      return [];
     }
+  }
+
+  /**
+   * Fetch a coaching session transcript from the web app API
+   */
+  private async fetchCoachingSession(sessionId: string): Promise<CoachingSessionTranscript | null> {
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) return null;
+
+      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}api/coaching/sessions?sessionId=${encodeURIComponent(sessionId)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) return null;
+
+      const result = await response.json();
+      if (!result.success || !result.session) return null;
 
-    if (content.includes('goal') || content.includes('plan') || content.includes('future')) {
       return {
-        content: "You're thinking about your goals and future. Which areas would you like to explore further?",
-        variant: 'multi-select',
-        options: ['My career aspirations', 'Personal relationships', 'Health and wellness', 'Learning and growth', 'Financial planning'],
-        thinking: "The user is in a planning mindset. Multiple selection will help them identify which areas need attention."
+        id: result.session.id,
+        sessionType: result.session.sessionType,
+        messages: (result.session.messages || []).map((msg: any) => ({
+          role: msg.role,
+          content: msg.content
+        })),
+        updatedAt: new Date(result.session.updatedAt)
       };
+    } catch (error) {
+      console.error('Error fetching coaching session for context:', error);
+      return null;
     }
-
-    // Default response for general entries
-    return {
-      content: "What stands out to you most about what you've just written?",
-      variant: 'text',
-      thinking: "This is a general entry, so I'll ask an open-ended question to encourage deeper reflection on what they've shared."
-    };
   }
 }
 
@@ -0,0 +1,78 @@
+import { CoachingApiProvider } from '@/services/coachingProviders/coachingApiProvider';
+import { LocalCoachingProvider } from '@/services/coachingProviders/localCoachingProvider';
+import { CoachingResponseParser } from '@/lib/coaching/responseParser';
+import { CoachingProviderRequest } from '@/types/coaching';
+
+jest.mock('@/lib/firebase', () => ({ auth: { currentUser: null } }));
+
+const request = (entryContent: string, sessionId?: string): CoachingProviderRequest => ({
+  modelId: 'general-coaching',
+  systemPrompt: 'You are a coach.',
+  userMessage: entryContent,
+  context: { entryId: 'entry-1', sessionId, entryContent, userId: 'user-1', entryCount: 3 }
+});
+
+describe('LocalCoachingProvider', () => {
+  const provider = new LocalCoachingProvider();
+
+  it('answers the same entry the same way', async () => {
+    const first = await provider.complete(request('I feel overwhelmed at work'));
+
+    expect(await provider.complete(request('I feel overwhelmed at work'))).toBe(first);
+  });
+
+  it('answers in the format the response parser reads', async () => {
+    const block = CoachingResponseParser.parse(await provider.complete(request('Making a plan for the future')));
+
+    expect(block.variant).toBe('multi-select');
+    expect(block.options).toContain('Health and wellness');
+    expect(block.thinking).toContain('planning mindset');
+  });
+
+  it('asks an open question when no keyword matches', async () => {
+    const block = CoachingResponseParser.parse(await provider.complete(request('Went for a walk')));
+
+    expect(block.variant).toBe('text');
+    expect(block.content).toBe("What stands out to you most about what you've just written?");
+  });
+});
+
+describe('CoachingApiProvider', () => {
+  const originalFetch = global.fetch;
+  let local: LocalCoachingProvider;
+
+  beforeEach(() => {
+    local = new LocalCoachingProvider();
+    // The backend streams the fake's reply back as a single content event
+    global.fetch = jest.fn(async (_url: unknown, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body));
+      const reply = await local.complete(request(body.message, body.sessionId));
+      return {
+        ok: true,
+        status: 200,
+        body: null,
+        text: async () => `data: ${JSON.stringify({ type: 'content', content: reply })}\n\ndata: {"type":"done"}\n\n`
+      } as unknown as Response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends the coaching session id, not the entry id', async () => {
+    const provider = new CoachingApiProvider({ apiUrl: 'https://example.test/', getToken: async () => 'token' });
+    const reply = await provider.complete(request('I am grateful for my friends', 'session-42'));
+
+    const body = JSON.parse(String((global.fetch as jest.Mock).mock.calls[0][1].body));
+    expect(body.sessionId).toBe('session-42');
+    expect(CoachingResponseParser.parse(reply).content).toContain('grateful');
+  });
+
+  it('refuses a request without a coaching session', async () => {
+    const provider = new CoachingApiProvider({ apiUrl: 'https://example.test/', getToken: async () => 'token' });
+
+    await expect(provider.complete(request('Hello'))).rejects.toThrow('coaching session id');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
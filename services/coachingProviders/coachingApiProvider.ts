@@ -0,0 +1,54 @@
+import { CoachingProvider, CoachingProviderRequest } from '@/types/coaching';
+import { auth } from '@/lib/firebase';
+import { CoachingStreamClient } from '@/lib/coaching/streamingClient';
+
+export interface CoachingApiProviderConfig {
+  apiUrl?: string; // defaults to EXPO_PUBLIC_API_URL
+  getToken?: () => Promise<string | null>;
+}
+
+/**
+ * Coaching API provider
+ * Sends the prompts to our own `api/coaching/chat` backend and collects the streamed reply
+ */
+export class CoachingApiProvider implements CoachingProvider {
+  readonly id = 'coaching-api';
+
+  constructor(private config: CoachingApiProviderConfig = {}) {}
+
+  async complete(request: CoachingProviderRequest): Promise<string> {
+    // The backend keeps history and resume state per session, so entries can't stand in for sessions
+    const sessionId = request.context.sessionId;
+    if (!sessionId) {
+      throw new Error('Coaching API provider needs the coaching session id');
+    }
+
+    const client = new CoachingStreamClient({
+      apiUrl: this.config.apiUrl,
+      getToken: () => this.getToken()
+    });
+
+    const { content: fullContent } = await client.chat({
+      message: request.userMessage,
+      systemPrompt: request.systemPrompt,
+      modelId: request.modelId,
+      sessionId,
+      sessionType: 'entry-coaching',
+      conversationHistory: []
+    });
+
+    if (!fullContent.trim()) {
+      throw new Error('Coaching API returned an empty response');
+    }
+
+    return fullContent;
+  }
+
+  private async getToken(): Promise<string | null> {
+    if (this.config.getToken) {
+      return this.config.getToken();
+    }
+
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  }
+}
@@ -0,0 +1,46 @@
+import { CoachingProvider, EmbeddingProvider } from '@/types/coaching';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { CoachingApiProvider } from './coachingApiProvider';
+import { LocalCoachingProvider } from './localCoachingProvider';
+import { OpenAICompatibleEmbeddingProvider } from './openAICompatibleEmbeddingProvider';
+
+export { OpenAICompatibleProvider } from './openAICompatibleProvider';
+export { CoachingApiProvider } from './coachingApiProvider';
+export { LocalCoachingProvider } from './localCoachingProvider';
+export { OpenAICompatibleEmbeddingProvider } from './openAICompatibleEmbeddingProvider';
+
+/**
+ * Create the coaching provider selected by EXPO_PUBLIC_COACHING_PROVIDER
+ * - `openai`: OpenAI-compatible completions through our backend (model from EXPO_PUBLIC_COACHING_PROVIDER_MODEL)
+ * - `local`: deterministic offline fake
+ * - anything else: our own `api/coaching/chat` backend
+ * Provider API keys stay on the backend; the app only sends the user's Firebase ID token.
+ */
+export function createDefaultCoachingProvider(): CoachingProvider {
+  const providerId = process.env.EXPO_PUBLIC_COACHING_PROVIDER;
+
+  if (providerId === 'local') {
+    return new LocalCoachingProvider();
+  }
+
+  if (providerId === 'openai') {
+    return new OpenAICompatibleProvider({
+      model: process.env.EXPO_PUBLIC_COACHING_PROVIDER_MODEL || 'openai/gpt-4o-mini'
+    });
+  }
+
+  return new CoachingApiProvider();
+}
+
+/**
+ * Create the embedding provider selected by EXPO_PUBLIC_COACHING_EMBEDDING_MODEL
+ * Returns null when none is configured - retrieval then falls back to BM25
+ */
+export function createDefaultEmbeddingProvider(): EmbeddingProvider | null {
+  const model = process.env.EXPO_PUBLIC_COACHING_EMBEDDING_MODEL;
+  if (!model) {
+    return null;
+  }
+
+  return new OpenAICompatibleEmbeddingProvider({ model });
+}
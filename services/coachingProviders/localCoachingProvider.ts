@@ -0,0 +1,75 @@
+import { CoachingProvider, CoachingProviderRequest } from '@/types/coaching';
+
+type LocalReply = {
+  keywords: string[];
+  thinking: string;
+  content: string;
+  variant: 'text' | 'buttons' | 'multi-select';
+  options?: string[];
+};
+
+const LOCAL_REPLIES: LocalReply[] = [
+  {
+    keywords: ['stressed', 'anxious', 'overwhelmed'],
+    thinking: 'The user is expressing stress-related emotions. I want to offer practical, immediate coping strategies they can choose from.',
+    content: "I notice you're experiencing some stress. What would help you feel more grounded right now?",
+    variant: 'buttons',
+    options: ['Take a few deep breaths', 'Write about what I can control', 'Practice gratitude', 'Talk to someone I trust']
+  },
+  {
+    keywords: ['grateful', 'thankful', 'appreciate'],
+    thinking: 'The user is expressing gratitude, which is a positive emotion. I want to help them explore and deepen this feeling.',
+    content: "It's wonderful that you're feeling grateful! What aspect of this gratitude feels most meaningful to you?",
+    variant: 'text'
+  },
+  {
+    keywords: ['goal', 'plan', 'future'],
+    thinking: 'The user is in a planning mindset. Multiple selection will help them identify which areas need attention.',
+    content: "You're thinking about your goals and future. Which areas would you like to explore further?",
+    variant: 'multi-select',
+    options: ['My career aspirations', 'Personal relationships', 'Health and wellness', 'Learning and growth', 'Financial planning']
+  }
+];
+
+const DEFAULT_REPLY: LocalReply = {
+  keywords: [],
+  thinking: "This is a general entry, so I'll ask an open-ended question to encourage deeper reflection on what they've shared.",
+  content: "What stands out to you most about what you've just written?",
+  variant: 'text'
+};
+
+/**
+ * Local coaching provider
+ * Deterministic, offline fake that answers in the same XML format as a real model.
+ * Used for tests, development without API keys, and as the offline fallback.
+ */
+export class LocalCoachingProvider implements CoachingProvider {
+  readonly id = 'local';
+
+  async complete(request: CoachingProviderRequest): Promise<string> {
+    const entry = request.context.entryContent.toLowerCase();
+    const reply = LOCAL_REPLIES.find(candidate =>
+      candidate.keywords.some(keyword => entry.includes(keyword))
+    ) || DEFAULT_REPLY;
+
+    return this.toXml(reply);
+  }
+
+  private toXml(reply: LocalReply): string {
+    const parts = [
+      `<thinking>\n${reply.thinking}\n</thinking>`,
+      `<content>\n${reply.content}\n</content>`,
+      `<variant>${reply.variant}</variant>`
+    ];
+
+    if (reply.options) {
+      parts.push([
+        '<options>',
+        ...reply.options.map(option => `<option>${option}</option>`),
+        '</options>'
+      ].join('\n'));
+    }
+
+    return parts.join('\n\n');
+  }
+}
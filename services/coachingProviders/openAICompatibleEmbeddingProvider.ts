@@ -0,0 +1,66 @@
+import { EmbeddingProvider } from '@/types/coaching';
+import { auth } from '@/lib/firebase';
+
+export interface OpenAICompatibleEmbeddingProviderConfig {
+  apiUrl?: string; // defaults to EXPO_PUBLIC_API_URL
+  model: string; // e.g. text-embedding-3-small
+  getToken?: () => Promise<string | null>;
+}
+
+/**
+ * OpenAI-compatible embedding provider
+ * Sends `/embeddings` requests through our `api/coaching/embeddings` backend, which holds
+ * the upstream API key and checks the user's Firebase ID token
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private config: OpenAICompatibleEmbeddingProviderConfig) {
+    this.id = `openai-compatible:${config.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const token = await this.getToken();
+    if (!token) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await fetch(`${this.config.apiUrl ?? process.env.EXPO_PUBLIC_API_URL}api/coaching/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`Embedding provider error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    const data: Array<{ index: number; embedding: number[] }> = result?.data || [];
+
+    if (data.length !== texts.length) {
+      throw new Error(`Embedding provider returned ${data.length} vectors for ${texts.length} inputs`);
+    }
+
+    return data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  private async getToken(): Promise<string | null> {
+    if (this.config.getToken) {
+      return this.config.getToken();
+    }
+
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  }
+}
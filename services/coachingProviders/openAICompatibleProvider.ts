@@ -0,0 +1,67 @@
+import { CoachingProvider, CoachingProviderRequest } from '@/types/coaching';
+import { auth } from '@/lib/firebase';
+
+export interface OpenAICompatibleProviderConfig {
+  apiUrl?: string; // defaults to EXPO_PUBLIC_API_URL
+  model: string; // e.g. openai/gpt-4o-mini
+  getToken?: () => Promise<string | null>;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * OpenAI-compatible provider
+ * Sends `/chat/completions` requests through our `api/coaching/completions` backend, which
+ * holds the upstream API key (OpenAI, OpenRouter, ...) and checks the user's Firebase ID token
+ */
+export class OpenAICompatibleProvider implements CoachingProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(private config: OpenAICompatibleProviderConfig) {}
+
+  async complete(request: CoachingProviderRequest): Promise<string> {
+    const token = await this.getToken();
+    if (!token) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await fetch(`${this.config.apiUrl ?? process.env.EXPO_PUBLIC_API_URL}api/coaching/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        temperature: this.config.temperature ?? 0.7,
+        ...(this.config.maxTokens && { max_tokens: this.config.maxTokens }),
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userMessage }
+        ]
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`Coaching provider error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    const content = result?.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('Coaching provider returned an empty response');
+    }
+
+    return content;
+  }
+
+  private async getToken(): Promise<string | null> {
+    if (this.config.getToken) {
+      return this.config.getToken();
+    }
+
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  }
+}
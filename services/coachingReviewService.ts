@@ -0,0 +1,176 @@
+import * as Crypto from 'expo-crypto';
+import { collection, doc, getDocs, orderBy, query, serverTimestamp, setDoc, Timestamp, where } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { FirestoreService } from '@/lib/firestore';
+import { CoachingReviewBuilder } from '@/lib/coaching/reviewBuilder';
+import { JournalRevision } from '@/lib/journalRevision';
+import { CoachingReview, CoachingReviewInput, CoachingSessionTranscript } from '@/types/coaching';
+import { JournalEntry, JournalReviewPeriod, JournalReviewRange } from '@/types/journal';
+
+/**
+ * Coaching Review Service
+ * Gathers a user's journal entries, linked coaching sessions and insight changes for
+ * a weekly or monthly review, and saves the result as a journal entry.
+ */
+export class CoachingReviewService {
+  /**
+   * Build the review of the last week or month
+   */
+  static async createReview(userId: string, period: JournalReviewPeriod, now: Date = new Date()): Promise<CoachingReview> {
+    const range = CoachingReviewBuilder.getRange(period, now);
+    const input = await this.gatherInput(userId, range);
+    const review = CoachingReviewBuilder.build(input);
+
+    console.log(`🗓️ Built ${period} review: ${review.entryCount} entries, ${review.sessionCount} sessions, ${review.themes.length} themes`);
+    return review;
+  }
+
+  /**
+   * Save a review as a journal entry linked to its date range
+   */
+  static async saveReviewEntry(userId: string, review: CoachingReview): Promise<JournalEntry> {
+    const entryId = Crypto.randomUUID();
+    const content = CoachingReviewBuilder.toEntryHtml(review);
+    const title = CoachingReviewBuilder.formatTitle(review.range);
+    const revision = JournalRevision.next(null, content);
+
+    await setDoc(doc(db, 'journal_entries', entryId), {
+      uid: userId,
+      content,
+      title,
+      reviewRange: {
+        period: review.range.period,
+        from: Timestamp.fromDate(review.range.from),
+        to: Timestamp.fromDate(review.range.to)
+      },
+      ...revision,
+      timestamp: serverTimestamp(),
+      lastUpdated: serverTimestamp()
+    });
+
+    console.log(`✅ Saved ${review.range.period} review as entry: ${entryId}`);
+    const now = new Date();
+    return { id: entryId, uid: userId, content, title, reviewRange: review.range, timestamp: now, lastUpdated: now, ...revision };
+  }
+
+  /**
+   * Everything the review of a range looks at
+   */
+  static async gatherInput(userId: string, range: JournalReviewRange): Promise<CoachingReviewInput> {
+    const entriesQuery = query(
+      collection(db, 'journal_entries'),
+      where('uid', '==', userId),
+      where('timestamp', '>=', Timestamp.fromDate(range.from)),
+      where('timestamp', '<=', Timestamp.fromDate(range.to)),
+      orderBy('timestamp', 'desc')
+    );
+
+    const [entriesSnapshot, insights] = await Promise.all([
+      getDocs(entriesQuery),
+      FirestoreService.getUserInsightsBetween(userId, range.from, range.to)
+        .catch(() => ({ previous: null, updates: [] }))
+    ]);
+
+    const entries: JournalEntry[] = entriesSnapshot.docs.map(entryDoc => {
+      const data = entryDoc.data();
+      return {
+        id: entryDoc.id,
+        uid: data.uid,
+        content: data.content || '',
+        timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : new Date(),
+        lastUpdated: data.lastUpdated?.toDate ? data.lastUpdated.toDate() : new Date(),
+        title: data.title,
+        linkedCoachingSessionId: data.linkedCoachingSessionId,
+        ...(data.reviewRange && {
+          reviewRange: {
+            period: data.reviewRange.period,
+            from: data.reviewRange.from.toDate(),
+            to: data.reviewRange.to.toDate()
+          }
+        })
+      };
+    });
+
+    // Sessions held in the range, plus older sessions the range's entries link to
+    const sessionsInRange = await this.fetchCoachingSessionsBetween(range);
+    const linkedSessionIds = Array.from(new Set(
+      entries.map(entry => entry.linkedCoachingSessionId).filter((id): id is string => !!id)
+    )).filter(sessionId => !sessionsInRange.some(session => session.id === sessionId));
+    const linkedSessions = (await Promise.all(linkedSessionIds.map(sessionId => this.fetchCoachingSession(sessionId))))
+      .filter((session): session is CoachingSessionTranscript => session !== null);
+    const sessions = [...sessionsInRange, ...linkedSessions];
+
+    return {
+      range,
+      entries,
+      sessions,
+      insights: insights.updates,
+      previousInsights: insights.previous
+    };
+  }
+
+  /**
+   * Fetch a coaching session transcript from the web app API
+   */
+  private static async fetchCoachingSession(sessionId: string): Promise<CoachingSessionTranscript | null> {
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) return null;
+
+      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}api/coaching/sessions?sessionId=${encodeURIComponent(sessionId)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) return null;
+
+      const result = await response.json();
+      if (!result.success || !result.session) return null;
+
+      return this.toTranscript(result.session);
+    } catch (error) {
+      console.error('Error fetching coaching session for review:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the coaching sessions updated within a range from the web app API
+   */
+  private static async fetchCoachingSessionsBetween(range: JournalReviewRange): Promise<CoachingSessionTranscript[]> {
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) return [];
+
+      const params = `from=${encodeURIComponent(range.from.toISOString())}&to=${encodeURIComponent(range.to.toISOString())}`;
+      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}api/coaching/sessions?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) return [];
+
+      const result = await response.json();
+      if (!result.success || !Array.isArray(result.sessions)) return [];
+
+      return result.sessions.map((session: any) => this.toTranscript(session));
+    } catch (error) {
+      console.error('Error fetching coaching sessions for review:', error);
+      return [];
+    }
+  }
+
+  private static toTranscript(session: any): CoachingSessionTranscript {
+    return {
+      id: session.id,
+      sessionType: session.sessionType,
+      messages: (session.messages || []).map((msg: any) => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      updatedAt: new Date(session.updatedAt)
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import * as FileSystem from 'expo-file-system';
+import { CoachingBranchGroup, CoachingSessionTimer, QueuedCoachingMessage, StoredCoachingMessage, StoredCoachingSession } from '@/types/coaching';
+
+const SESSIONS_DIRECTORY = `${FileSystem.documentDirectory}coaching-sessions/`;
+
+/**
+ * Coaching Session Store
+ * Keeps coaching chat sessions on the device, one JSON file per sessionId, together
+ * with the outbox of user messages that were typed while offline.
+ * A failed write rejects, so callers know a message or queued message isn't stored.
+ */
+export class CoachingSessionStore {
+  // Writes per session are chained so a slow write never overwrites a newer one
+  private static writeQueues: Map<string, Promise<void>> = new Map();
+  private static directoryReady: Promise<void> | null = null;
+
+  /**
+   * Load a stored session, or null if the device has none
+   */
+  static async load(sessionId: string): Promise<StoredCoachingSession | null> {
+    await this.pendingWrites(sessionId);
+
+    try {
+      const session = await this.read(sessionId);
+      if (!session) return null;
+
+      return {
+        sessionId,
+        messages: session.messages || [],
+        branches: session.branches || {},
+        outbox: session.outbox || [],
+        ...(session.timer && { timer: session.timer }),
+        updatedAt: session.updatedAt
+      };
+    } catch (error) {
+      console.error('Error loading stored coaching session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the stored messages and branch tree of a session, keeping its outbox
+   */
+  static saveMessages(sessionId: string, messages: StoredCoachingMessage[], branches?: Record<string, CoachingBranchGroup>): Promise<void> {
+    return this.update(sessionId, session => ({ ...session, messages, ...(branches && { branches }) }));
+  }
+
+  /**
+   * Store the time box of a session
+   */
+  static saveTimer(sessionId: string, timer: CoachingSessionTimer): Promise<void> {
+    return this.update(sessionId, session => ({ ...session, timer }));
+  }
+
+  /**
+   * Queue a user message for sending once the device is back online
+   */
+  static enqueue(sessionId: string, message: QueuedCoachingMessage): Promise<void> {
+    return this.update(sessionId, session => ({
+      ...session,
+      outbox: [...session.outbox.filter(queued => queued.messageId !== message.messageId), message]
+    }));
+  }
+
+  /**
+   * Remove a message from the outbox after it was sent
+   */
+  static dequeue(sessionId: string, messageId: string): Promise<void> {
+    return this.update(sessionId, session => ({
+      ...session,
+      outbox: session.outbox.filter(queued => queued.messageId !== messageId)
+    }));
+  }
+
+  /**
+   * Queued messages of a session, oldest first
+   */
+  static async getOutbox(sessionId: string): Promise<QueuedCoachingMessage[]> {
+    const session = await this.load(sessionId);
+    return (session?.outbox || []).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  /**
+   * Delete a stored session
+   */
+  static remove(sessionId: string): Promise<void> {
+    return this.enqueueWrite(sessionId, () =>
+      FileSystem.deleteAsync(this.sessionPath(sessionId), { idempotent: true })
+    );
+  }
+
+  private static update(sessionId: string, change: (session: StoredCoachingSession) => StoredCoachingSession): Promise<void> {
+    return this.enqueueWrite(sessionId, async () => {
+      const current: StoredCoachingSession = await this.read(sessionId)
+        || { sessionId, messages: [], branches: {}, outbox: [], updatedAt: new Date().toISOString() };
+
+      const updated = change({
+        ...current,
+        messages: current.messages || [],
+        branches: current.branches || {},
+        outbox: current.outbox || []
+      });
+      await this.writeAtomically(this.sessionPath(sessionId), JSON.stringify({ ...updated, updatedAt: new Date().toISOString() }));
+    });
+  }
+
+  /**
+   * Read the session file - rejects if it can't be read, so nothing is written over it
+   * A file that doesn't parse is moved aside to a .corrupt copy and the session starts over empty.
+   */
+  private static async read(sessionId: string): Promise<StoredCoachingSession | null> {
+    const path = this.sessionPath(sessionId);
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) return null;
+
+    const contents = await FileSystem.readAsStringAsync(path);
+    try {
+      return JSON.parse(contents) as StoredCoachingSession;
+    } catch (error) {
+      const corruptPath = `${SESSIONS_DIRECTORY}${encodeURIComponent(sessionId)}.corrupt-${Date.now()}`;
+      await FileSystem.moveAsync({ from: path, to: corruptPath });
+      console.error(`Stored coaching session doesn't parse - kept it as ${corruptPath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a file through a temporary one, so an interrupted write never leaves half a session behind
+   */
+  private static async writeAtomically(path: string, contents: string): Promise<void> {
+    const tempPath = `${path}.tmp`;
+    await FileSystem.writeAsStringAsync(tempPath, contents);
+    await FileSystem.moveAsync({ from: tempPath, to: path });
+  }
+
+  // A failed write rejects its own promise; the writes queued after it still run
+  private static enqueueWrite(sessionId: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(sessionId) || Promise.resolve();
+    const next = previous
+      .then(() => this.ensureDirectory())
+      .then(write);
+
+    this.writeQueues.set(sessionId, next.catch(error => console.error('Error writing stored coaching session:', error)));
+    return next;
+  }
+
+  private static pendingWrites(sessionId: string): Promise<void> {
+    return this.writeQueues.get(sessionId) || Promise.resolve();
+  }
+
+  private static ensureDirectory(): Promise<void> {
+    if (!this.directoryReady) {
+      this.directoryReady = FileSystem.makeDirectoryAsync(SESSIONS_DIRECTORY, { intermediates: true })
+        .catch(error => {
+          this.directoryReady = null;
+          throw error;
+        });
+    }
+    return this.directoryReady;
+  }
+
+  private static sessionPath(sessionId: string): string {
+    return `${SESSIONS_DIRECTORY}${encodeURIComponent(sessionId)}.json`;
+  }
+}
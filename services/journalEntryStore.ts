@@ -0,0 +1,519 @@
+import * as FileSystem from 'expo-file-system';
+import { JournalRevision } from '@/lib/journalRevision';
+import { JournalRevisionLog } from '@/lib/journalRevisionLog';
+import { JournalEntryConflict, JournalRevisionBase, JournalSyncOperation, StoredJournal, StoredJournalEntry } from '@/types/journal';
+
+const JOURNAL_DIRECTORY = `${FileSystem.documentDirectory}journal/`;
+// Entries per page of the journal drawer, also the number read before the whole journal is loaded
+export const JOURNAL_PAGE_SIZE = 30;
+
+// Fields of an entry the editor saves
+export type JournalEntryDraft = Pick<StoredJournalEntry, 'id' | 'content'>
+  & Partial<Pick<StoredJournalEntry, 'title' | 'linkedCoachingMessageId' | 'linkedCoachingSessionId' | 'reviewRange'>>
+  & { timestamp: Date | string };
+
+type JournalListener = (journal: StoredJournal) => void;
+
+// Small file next to the entry files: the sync queue, and the date of every entry so the
+// newest page can be read without reading every entry
+type StoredJournalIndex = Pick<StoredJournal, 'uid' | 'queue' | 'updatedAt'> & {
+  entries: Record<string, { timestamp: string; deleted?: boolean }>;
+};
+
+/**
+ * Journal Entry Store
+ * Keeps a user's journal entries on the device, one JSON file per entry, together with
+ * an index holding the queue of changes that still have to be written to journal_entries.
+ * A save only rewrites the entry it changed and the index.
+ * HomeContent and JournalDrawer read and write here; JournalSyncService syncs with Firestore.
+ */
+export class JournalEntryStore {
+  // Writes per user are chained so a slow write never overwrites a newer one
+  private static writeQueues: Map<string, Promise<void>> = new Map();
+  private static journals: Map<string, StoredJournal> = new Map();
+  private static listeners: Map<string, Set<JournalListener>> = new Map();
+  private static directoriesReady: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Load the stored journal of a user, empty if the device has none
+   */
+  static async load(uid: string): Promise<StoredJournal> {
+    await this.pendingWrites(uid);
+
+    const cached = this.journals.get(uid);
+    if (cached) return cached;
+
+    const journal = await this.read(uid);
+    this.journals.set(uid, journal);
+    return journal;
+  }
+
+  /**
+   * Entries that weren't deleted, newest first
+   */
+  static async getEntries(uid: string): Promise<StoredJournalEntry[]> {
+    return this.newest(await this.load(uid));
+  }
+
+  /**
+   * Newest entries, read through the index until the full journal is loaded
+   * so the journal drawer can open without reading every stored entry.
+   */
+  static async getFirstPage(uid: string): Promise<StoredJournalEntry[]> {
+    const loaded = this.journals.get(uid);
+    if (loaded) return this.newest(loaded, JOURNAL_PAGE_SIZE);
+
+    try {
+      const index = await this.readIndex(uid);
+      // Journals stored before the index existed are converted by loading them once
+      if (!index) return this.newest(await this.load(uid), JOURNAL_PAGE_SIZE);
+
+      const ids = Object.entries(index.entries)
+        .filter(([, entry]) => !entry.deleted)
+        .sort(([, a], [, b]) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, JOURNAL_PAGE_SIZE)
+        .map(([id]) => id);
+      const entries = await Promise.all(ids.map(id => this.readEntry(uid, id)));
+      return entries.filter((entry): entry is StoredJournalEntry => !!entry && !entry.deleted);
+    } catch (error) {
+      console.error('Error loading the newest journal entries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A stored entry, or null if the device doesn't have it
+   */
+  static async getEntry(uid: string, entryId: string): Promise<StoredJournalEntry | null> {
+    const journal = await this.load(uid);
+    const entry = journal.entries[entryId];
+    return entry && !entry.deleted ? entry : null;
+  }
+
+  /**
+   * Save an entry on the device and queue it for syncing
+   * With newSession (e.g. when restoring a revision) the content being replaced is recorded in the revision log.
+   * Rejects if the journal couldn't be written, so the editor can keep showing the entry as unsaved.
+   */
+  static saveEntry(uid: string, draft: JournalEntryDraft, options: { newSession?: boolean } = {}, now: Date = new Date()): Promise<void> {
+    return this.update(uid, journal => {
+      const current = journal.entries[draft.id];
+      const entry: StoredJournalEntry = {
+        ...current,
+        ...draft,
+        uid,
+        timestamp: typeof draft.timestamp === 'string' ? draft.timestamp : draft.timestamp.toISOString(),
+        lastUpdated: now.toISOString(),
+        editSession: JournalRevisionLog.nextSession(current?.editSession, current?.content || '', draft.content, now, options.newSession),
+        pendingSync: true,
+        deleted: false
+      };
+
+      return {
+        ...journal,
+        entries: { ...journal.entries, [draft.id]: entry },
+        queue: this.withOperation(journal.queue, draft.id, 'upsert', now)
+      };
+    });
+  }
+
+  /**
+   * Delete an entry on the device and queue the deletion
+   * Entries that never reached the server are dropped right away.
+   */
+  static deleteEntry(uid: string, entryId: string, now: Date = new Date()): Promise<void> {
+    return this.update(uid, journal => {
+      const current = journal.entries[entryId];
+      if (!current) return journal;
+
+      if (!current.syncedUpdatedAt) {
+        const { [entryId]: _removed, ...entries } = journal.entries;
+        return { ...journal, entries, queue: journal.queue.filter(operation => operation.entryId !== entryId) };
+      }
+
+      return {
+        ...journal,
+        entries: { ...journal.entries, [entryId]: { ...current, deleted: true, pendingSync: true, lastUpdated: now.toISOString() } },
+        queue: this.withOperation(journal.queue, entryId, 'delete', now)
+      };
+    });
+  }
+
+  /**
+   * Queued changes, oldest first
+   */
+  static async getQueue(uid: string): Promise<JournalSyncOperation[]> {
+    const journal = await this.load(uid);
+    return [...journal.queue].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  /**
+   * Record that a queued change reached the server as the given revision
+   * If the entry changed again while it was being written, its newer change stays queued
+   * and only the snapshot of the pushed editing session is marked as recorded.
+   */
+  static markSynced(
+    uid: string,
+    entryId: string,
+    pushedUpdatedAt: string,
+    synced: { updatedAt: string; base?: JournalRevisionBase; sessionStartedAt?: string }
+  ): Promise<void> {
+    return this.update(uid, journal => {
+      const current = journal.entries[entryId];
+      if (!current) return journal;
+
+      const editSession = current.editSession && current.editSession.startedAt === synced.sessionStartedAt
+        ? { startedAt: current.editSession.startedAt, lastEditAt: current.editSession.lastEditAt, snapshotPending: false }
+        : current.editSession;
+
+      if (current.lastUpdated !== pushedUpdatedAt) {
+        return { ...journal, entries: { ...journal.entries, [entryId]: { ...current, editSession } } };
+      }
+
+      if (current.deleted) {
+        const { [entryId]: _removed, ...entries } = journal.entries;
+        return { ...journal, entries, queue: journal.queue.filter(operation => operation.entryId !== entryId) };
+      }
+
+      return {
+        ...journal,
+        entries: { ...journal.entries, [entryId]: { ...current, syncedUpdatedAt: synced.updatedAt, base: synced.base, editSession, pendingSync: false } },
+        queue: journal.queue.filter(operation => operation.entryId !== entryId)
+      };
+    });
+  }
+
+  /**
+   * Push a failed change back until its next attempt
+   */
+  static markFailed(uid: string, entryId: string, nextAttemptAt: Date): Promise<void> {
+    return this.update(uid, journal => ({
+      ...journal,
+      queue: journal.queue.map(operation => operation.entryId === entryId
+        ? { ...operation, attempts: operation.attempts + 1, nextAttemptAt: nextAttemptAt.toISOString() }
+        : operation)
+    }));
+  }
+
+  /**
+   * Drop a queued change that no longer applies
+   */
+  static removeOperation(uid: string, entryId: string): Promise<void> {
+    return this.update(uid, journal => ({
+      ...journal,
+      queue: journal.queue.filter(operation => operation.entryId !== entryId)
+    }));
+  }
+
+  /**
+   * Hold back an entry whose server version changed since the device last synced it
+   */
+  static markConflict(uid: string, entryId: string, conflict: JournalEntryConflict): Promise<void> {
+    return this.update(uid, journal => {
+      const current = journal.entries[entryId];
+      if (!current) return journal;
+      return { ...journal, entries: { ...journal.entries, [entryId]: { ...current, conflict } } };
+    });
+  }
+
+  /**
+   * Settle a conflict with the content the user picked or merged
+   * It's saved on top of the server version, so it's only queued if it differs from it.
+   */
+  static resolveConflict(uid: string, entryId: string, content: string, now: Date = new Date()): Promise<void> {
+    return this.update(uid, journal => {
+      const current = journal.entries[entryId];
+      if (!current?.conflict) return journal;
+
+      const { conflict, ...entry } = current;
+      const base: JournalRevisionBase = { revision: conflict.remoteRevision, contentHash: JournalRevision.hash(conflict.remoteContent) };
+
+      if (content !== conflict.remoteContent) {
+        return {
+          ...journal,
+          entries: { ...journal.entries, [entryId]: { ...entry, content, base, lastUpdated: now.toISOString(), pendingSync: true } },
+          queue: this.withOperation(journal.queue, entryId, 'upsert', now)
+        };
+      }
+
+      return {
+        ...journal,
+        entries: {
+          ...journal.entries,
+          [entryId]: {
+            ...entry,
+            content,
+            base,
+            lastUpdated: conflict.remoteUpdatedAt,
+            syncedUpdatedAt: conflict.remoteUpdatedAt,
+            pendingSync: false
+          }
+        },
+        queue: journal.queue.filter(operation => operation.entryId !== entryId)
+      };
+    });
+  }
+
+  /**
+   * Merge one page of entries read from journal_entries, keeping every other stored entry
+   * deletedIds are entries the page saw deleted on the server; they are dropped unless the device hasn't synced them yet.
+   */
+  static applyRemotePage(uid: string, remoteEntries: StoredJournalEntry[], deletedIds: string[] = [], now: Date = new Date()): Promise<void> {
+    return this.update(uid, journal => {
+      const entries = { ...journal.entries };
+
+      remoteEntries.forEach(remote => {
+        entries[remote.id] = this.mergeRemote(journal.entries[remote.id], remote, now);
+      });
+
+      const deleted = new Set(deletedIds.filter(id => {
+        const local = entries[id];
+        return local && !(local.pendingSync && !local.deleted);
+      }));
+      deleted.forEach(id => delete entries[id]);
+
+      return {
+        ...journal,
+        entries,
+        queue: journal.queue.filter(operation => !deleted.has(operation.entryId))
+      };
+    });
+  }
+
+  /**
+   * Get notified after every change to a user's journal
+   */
+  static subscribe(uid: string, listener: JournalListener): () => void {
+    const listeners = this.listeners.get(uid) || new Set<JournalListener>();
+    listeners.add(listener);
+    this.listeners.set(uid, listeners);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private static mergeRemote(local: StoredJournalEntry | undefined, remote: StoredJournalEntry, now: Date): StoredJournalEntry {
+    // A copy read before the device's last push is older than what the device holds
+    const remoteRevision = remote.base?.revision;
+    const localRevision = local?.base?.revision;
+    if (local && remoteRevision !== undefined && localRevision !== undefined && remoteRevision < localRevision) return local;
+
+    if (!local || !local.pendingSync) {
+      return { ...remote, syncedUpdatedAt: remote.lastUpdated, pendingSync: false };
+    }
+
+    if (!local.deleted && !local.conflict && local.syncedUpdatedAt && remote.content !== local.content
+      && JournalRevision.isStale(local.base || {}, { revision: remote.base?.revision, content: remote.content })) {
+      return {
+        ...local,
+        conflict: {
+          remoteContent: remote.content,
+          remoteRevision: remote.base?.revision,
+          remoteUpdatedAt: remote.lastUpdated,
+          detectedAt: now.toISOString()
+        }
+      };
+    }
+
+    return local;
+  }
+
+  private static withOperation(
+    queue: JournalSyncOperation[],
+    entryId: string,
+    kind: JournalSyncOperation['kind'],
+    now: Date
+  ): JournalSyncOperation[] {
+    const existing = queue.find(operation => operation.entryId === entryId);
+    return [
+      ...queue.filter(operation => operation.entryId !== entryId),
+      {
+        entryId,
+        kind,
+        attempts: 0,
+        queuedAt: existing?.queuedAt || now.toISOString(),
+        nextAttemptAt: now.toISOString()
+      }
+    ];
+  }
+
+  private static update(uid: string, change: (journal: StoredJournal) => StoredJournal): Promise<void> {
+    return this.enqueueWrite(uid, async () => {
+      const current = this.journals.get(uid) || await this.read(uid);
+      const updated = { ...change(current), updatedAt: new Date().toISOString() };
+
+      // Only the entries the change touched are written; the cached journal moves on once the files hold it
+      for (const [id, entry] of Object.entries(updated.entries)) {
+        if (entry !== current.entries[id]) {
+          await this.writeAtomically(this.entryPath(uid, id), JSON.stringify(entry));
+        }
+      }
+      for (const id of Object.keys(current.entries)) {
+        if (!updated.entries[id]) {
+          await FileSystem.deleteAsync(this.entryPath(uid, id), { idempotent: true });
+        }
+      }
+      await this.writeAtomically(this.indexPath(uid), JSON.stringify(this.toIndex(updated)));
+      this.journals.set(uid, updated);
+      this.listeners.get(uid)?.forEach(listener => listener(updated));
+    });
+  }
+
+  /**
+   * Write a file through a temporary one, so an interrupted write never leaves half a journal behind
+   */
+  private static async writeAtomically(path: string, contents: string): Promise<void> {
+    const tempPath = `${path}.tmp`;
+    await FileSystem.writeAsStringAsync(tempPath, contents);
+    await FileSystem.moveAsync({ from: tempPath, to: path });
+  }
+
+  private static newest(journal: StoredJournal, count?: number): StoredJournalEntry[] {
+    return Object.values(journal.entries)
+      .filter(entry => !entry.deleted)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, count);
+  }
+
+  /**
+   * Read every stored entry and the queue - rejects if a file can't be read, so nothing is written over it
+   * The entry files are listed rather than taken from the index, so an entry written just before
+   * an interrupted index write isn't lost; such an entry is queued again if it has unsynced changes.
+   */
+  private static async read(uid: string): Promise<StoredJournal> {
+    const empty: StoredJournal = { uid, entries: {}, queue: [], updatedAt: new Date().toISOString() };
+
+    const index = await this.readIndex(uid);
+    if (!index) {
+      const legacy = await this.readLegacy(uid);
+      if (legacy) return legacy;
+    }
+
+    const entriesDirectory = this.entriesDirectory(uid);
+    const info = await FileSystem.getInfoAsync(entriesDirectory);
+    const ids = info.exists
+      ? (await FileSystem.readDirectoryAsync(entriesDirectory))
+        .filter(name => name.endsWith('.json'))
+        .map(name => decodeURIComponent(name.slice(0, -'.json'.length)))
+      : [];
+
+    const entries: Record<string, StoredJournalEntry> = {};
+    (await Promise.all(ids.map(id => this.readEntry(uid, id)))).forEach(entry => {
+      if (entry) entries[entry.id] = entry;
+    });
+
+    const queue = Object.values(entries)
+      .filter(entry => entry.pendingSync && !index?.queue.some(operation => operation.entryId === entry.id))
+      .reduce(
+        (operations, entry) => this.withOperation(operations, entry.id, entry.deleted ? 'delete' : 'upsert', new Date()),
+        index?.queue || []
+      );
+
+    return { ...empty, ...(index && { updatedAt: index.updatedAt }), entries, queue };
+  }
+
+  /**
+   * The index, or null if there is none (yet) or it doesn't parse - the entry files are enough to rebuild it
+   */
+  private static async readIndex(uid: string): Promise<StoredJournalIndex | null> {
+    const index = await this.readJson<StoredJournalIndex>(this.indexPath(uid));
+    return index ? { ...index, entries: index.entries || {}, queue: index.queue || [] } : null;
+  }
+
+  private static readEntry(uid: string, entryId: string): Promise<StoredJournalEntry | null> {
+    return this.readJson<StoredJournalEntry>(this.entryPath(uid, entryId));
+  }
+
+  /**
+   * A journal stored as one file before entries got their own files, written out in the new layout
+   */
+  private static async readLegacy(uid: string): Promise<StoredJournal | null> {
+    const legacyPath = `${JOURNAL_DIRECTORY}${encodeURIComponent(uid)}.json`;
+    const legacy = await this.readJson<StoredJournal>(legacyPath);
+    if (!legacy) return null;
+
+    const journal: StoredJournal = { ...legacy, uid, entries: legacy.entries || {}, queue: legacy.queue || [] };
+    await this.ensureDirectory(uid);
+    for (const [id, entry] of Object.entries(journal.entries)) {
+      await this.writeAtomically(this.entryPath(uid, id), JSON.stringify(entry));
+    }
+    await this.writeAtomically(this.indexPath(uid), JSON.stringify(this.toIndex(journal)));
+    await FileSystem.deleteAsync(legacyPath, { idempotent: true });
+    await FileSystem.deleteAsync(`${JOURNAL_DIRECTORY}${encodeURIComponent(uid)}.first-page.json`, { idempotent: true });
+
+    console.log(`💾 Moved ${Object.keys(journal.entries).length} stored journal entries to one file each`);
+    return journal;
+  }
+
+  /**
+   * Parsed JSON file, or null if it doesn't exist
+   * A file that doesn't parse is moved aside to a .corrupt copy instead of being written over later.
+   */
+  private static async readJson<T>(path: string): Promise<T | null> {
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) return null;
+
+    const contents = await FileSystem.readAsStringAsync(path);
+    try {
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      const corruptPath = `${path.slice(0, -'.json'.length)}.corrupt-${Date.now()}`;
+      await FileSystem.moveAsync({ from: path, to: corruptPath });
+      console.error(`Stored journal file doesn't parse - kept it as ${corruptPath}:`, error);
+      return null;
+    }
+  }
+
+  private static toIndex(journal: StoredJournal): StoredJournalIndex {
+    const entries: StoredJournalIndex['entries'] = {};
+    Object.values(journal.entries).forEach(entry => {
+      entries[entry.id] = { timestamp: entry.timestamp, ...(entry.deleted && { deleted: true }) };
+    });
+    return { uid: journal.uid, queue: journal.queue, updatedAt: journal.updatedAt, entries };
+  }
+
+  // A failed write rejects its own promise but doesn't stop the writes queued after it
+  private static enqueueWrite(uid: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(uid) || Promise.resolve();
+    const next = previous
+      .then(() => this.ensureDirectory(uid))
+      .then(write);
+
+    this.writeQueues.set(uid, next.catch(error => console.error('Error writing stored journal:', error)));
+    return next;
+  }
+
+  private static pendingWrites(uid: string): Promise<void> {
+    return this.writeQueues.get(uid) || Promise.resolve();
+  }
+
+  private static ensureDirectory(uid: string): Promise<void> {
+    let ready = this.directoriesReady.get(uid);
+    if (!ready) {
+      ready = FileSystem.makeDirectoryAsync(this.entriesDirectory(uid), { intermediates: true })
+        .catch(error => {
+          this.directoriesReady.delete(uid);
+          throw error;
+        });
+      this.directoriesReady.set(uid, ready);
+    }
+    return ready;
+  }
+
+  private static userDirectory(uid: string): string {
+    return `${JOURNAL_DIRECTORY}${encodeURIComponent(uid)}/`;
+  }
+
+  private static entriesDirectory(uid: string): string {
+    return `${this.userDirectory(uid)}entries/`;
+  }
+
+  private static indexPath(uid: string): string {
+    return `${this.userDirectory(uid)}index.json`;
+  }
+
+  private static entryPath(uid: string, entryId: string): string {
+    return `${this.entriesDirectory(uid)}${encodeURIComponent(entryId)}.json`;
+  }
+}
@@ -0,0 +1,53 @@
+import { JournalSearchIndex } from '@/lib/journalSearchIndex';
+import { JournalEntryStore } from '@/services/journalEntryStore';
+import { JournalSearchRange, JournalSearchResult, StoredJournal } from '@/types/journal';
+
+/**
+ * Journal Search Service
+ * Keeps a search index per user over the entries stored on the device. The index is built
+ * on first use and then updated from JournalEntryStore changes, re-indexing only the entries
+ * that were saved, synced or deleted since.
+ */
+export class JournalSearchService {
+  private static indexes: Map<string, Promise<JournalSearchIndex>> = new Map();
+
+  /**
+   * Search a user's entries
+   */
+  static async search(uid: string, input: string, range: JournalSearchRange = 'all'): Promise<JournalSearchResult[]> {
+    const index = await this.getIndex(uid);
+    return index.search(JournalSearchIndex.parseQuery(input, range));
+  }
+
+  /**
+   * The user's index, built from the device store on first use
+   */
+  static getIndex(uid: string): Promise<JournalSearchIndex> {
+    let index = this.indexes.get(uid);
+    if (!index) {
+      index = JournalEntryStore.load(uid).then(journal => {
+        const built = new JournalSearchIndex();
+        this.applyChanges(built, journal);
+        JournalEntryStore.subscribe(uid, changed => this.applyChanges(built, changed));
+
+        console.log(`🔎 Built journal search index (${built.size} entries)`);
+        return built;
+      });
+      this.indexes.set(uid, index);
+    }
+    return index;
+  }
+
+  private static applyChanges(index: JournalSearchIndex, journal: StoredJournal): void {
+    const entries = Object.values(journal.entries).filter(entry => !entry.deleted);
+    const current = new Set(entries.map(entry => entry.id));
+
+    index.ids()
+      .filter(entryId => !current.has(entryId))
+      .forEach(entryId => index.remove(entryId));
+
+    entries
+      .filter(entry => !index.has(entry.id, new Date(entry.lastUpdated).toISOString()))
+      .forEach(entry => index.upsert(entry));
+  }
+}
@@ -0,0 +1,313 @@
+import { collection, deleteDoc, doc, DocumentData, DocumentSnapshot, getDoc, getDocs, limit, onSnapshot, orderBy, query, runTransaction, serverTimestamp, startAfter, Timestamp, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { FirestoreService } from '@/lib/firestore';
+import { JournalRevision } from '@/lib/journalRevision';
+import { JournalRevisionLog } from '@/lib/journalRevisionLog';
+import { JOURNAL_PAGE_SIZE, JournalEntryStore } from '@/services/journalEntryStore';
+import { JournalRevisionBase, JournalSyncOperation, StoredJournalEntry } from '@/types/journal';
+
+// Retry delays for failed writes: 2s, 4s, 8s, ... up to 5 minutes
+const SYNC_BASE_DELAY_MS = 2000;
+const SYNC_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// One page of journal_entries read into the device store, newest first
+// The cursor is the page's last document, so the next page starts right after it even if entries share a timestamp
+export type JournalPage = {
+  size: number;
+  cursor: DocumentSnapshot | null;
+  hasMore: boolean;
+};
+
+// Outcome of writing an entry: the server version it conflicts with, or the revision it was saved as
+type PushResult = { conflict: StoredJournalEntry } | { base: Required<JournalRevisionBase> };
+
+/**
+ * Journal Sync Service
+ * Writes the changes queued in JournalEntryStore to journal_entries, retrying failed writes
+ * with exponential backoff, and pulls entries written elsewhere (e.g. the web app) back to the device.
+ */
+export class JournalSyncService {
+  // Pulls and pushes per user run one at a time so a pull never reads around a push
+  private static runs: Map<string, Promise<void>> = new Map();
+  private static timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * Push queued changes now, and schedule the next attempt of the ones that failed
+   * With ignoreBackoff (e.g. when the device comes back online) failed changes are retried right away.
+   */
+  static requestSync(uid: string, options: { ignoreBackoff?: boolean } = {}): Promise<void> {
+    this.cancel(uid);
+    return this.run(uid, () => this.push(uid, options.ignoreBackoff ?? false))
+      .catch(error => console.error('Error syncing journal entries:', error));
+  }
+
+  /**
+   * Read the newest page of a user's entries into the device store
+   * Older entries are read page by page as the journal drawer scrolls to them (pullPage).
+   */
+  static pull(uid: string): Promise<void> {
+    return this.pullPage(uid)
+      .then(() => undefined)
+      .catch(error => console.error('Error syncing journal entries:', error));
+  }
+
+  /**
+   * Read one page of a user's entries into the device store, newest first
+   * Pass the cursor of the previous page (or cursorAt a stored entry) to read the entries written before it.
+   * Runs after any push in progress, so the page can't undo a change that was just synced.
+   */
+  static pullPage(uid: string, cursor: DocumentSnapshot | null = null, pageSize: number = JOURNAL_PAGE_SIZE): Promise<JournalPage> {
+    return this.run(uid, () => this.readPage(uid, cursor, pageSize));
+  }
+
+  private static async readPage(uid: string, cursor: DocumentSnapshot | null, pageSize: number): Promise<JournalPage> {
+    const pageQuery = query(
+      collection(db, 'journal_entries'),
+      where('uid', '==', uid),
+      orderBy('timestamp', 'desc'),
+      ...(cursor ? [startAfter(cursor)] : []),
+      limit(pageSize)
+    );
+
+    const snapshot = await getDocs(pageQuery);
+    const entries = snapshot.docs.map(entryDoc => this.fromDocument(entryDoc.id, entryDoc.data()));
+
+    // Synced entries the page should hold but doesn't were deleted elsewhere (e.g. the web app)
+    // The window leaves out the timestamps at its edges, which entries of the neighbouring pages can share
+    const before = cursor?.get('timestamp') ? this.toIsoString(cursor.get('timestamp')) : undefined;
+    const after = entries.length === pageSize ? entries[entries.length - 1].timestamp : undefined;
+    const pulledIds = new Set(entries.map(entry => entry.id));
+    const journal = await JournalEntryStore.load(uid);
+    const deletedIds = Object.values(journal.entries)
+      .filter(local => !pulledIds.has(local.id) && !local.pendingSync
+        && (!before || local.timestamp < before) && (!after || local.timestamp > after))
+      .map(local => local.id);
+
+    await JournalEntryStore.applyRemotePage(uid, entries, deletedIds);
+    console.log(`📥 Pulled a page of ${snapshot.size} journal entries${deletedIds.length > 0 ? `, ${deletedIds.length} deleted elsewhere` : ''}`);
+
+    return {
+      size: entries.length,
+      cursor: snapshot.docs[snapshot.docs.length - 1] ?? cursor,
+      hasMore: entries.length === pageSize
+    };
+  }
+
+  /**
+   * Cursor at an entry, to read the entries written before it; null if it isn't on the server (yet)
+   */
+  static async cursorAt(entryId: string): Promise<DocumentSnapshot | null> {
+    const entrySnap = await getDoc(doc(db, 'journal_entries', entryId));
+    return entrySnap.exists() ? entrySnap : null;
+  }
+
+  /**
+   * Keep the newest page of a user's entries in the device store up to date in real time
+   * Returns the function that stops listening.
+   */
+  static watchNewestPage(uid: string, pageSize: number = JOURNAL_PAGE_SIZE): () => void {
+    const pageQuery = query(
+      collection(db, 'journal_entries'),
+      where('uid', '==', uid),
+      orderBy('timestamp', 'desc'),
+      limit(pageSize)
+    );
+
+    return onSnapshot(pageQuery, snapshot => {
+      const entries = snapshot.docs.map(entryDoc => this.fromDocument(entryDoc.id, entryDoc.data()));
+      const oldest = entries[entries.length - 1]?.timestamp;
+
+      // A document can also leave the page because newer entries pushed it out; since timestamps never
+      // change, only one newer than the page's oldest entry (or one leaving a page that isn't full) was deleted
+      const deletedIds = snapshot.docChanges()
+        .filter(change => change.type === 'removed')
+        .map(change => this.fromDocument(change.doc.id, change.doc.data()))
+        .filter(entry => entries.length < pageSize || !oldest || entry.timestamp > oldest)
+        .map(entry => entry.id);
+
+      this.run(uid, () => JournalEntryStore.applyRemotePage(uid, entries, deletedIds))
+        .catch(error => console.error('Error storing journal entries page:', error));
+    }, error => {
+      console.error('Error in journal entries subscription:', error);
+    });
+  }
+
+  /**
+   * Stop the scheduled retry of a user's queue (e.g. while offline)
+   */
+  static cancel(uid: string): void {
+    const timer = this.timers.get(uid);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(uid);
+    }
+  }
+
+  /**
+   * Delay before the next attempt of a change that failed this many times, with some jitter
+   */
+  static getBackoffDelay(attempts: number): number {
+    const delay = Math.min(SYNC_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), SYNC_MAX_DELAY_MS);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * Journal entry document as stored on the device
+   */
+  static fromDocument(id: string, data: DocumentData): StoredJournalEntry {
+    return {
+      id,
+      uid: data.uid,
+      content: data.content || '',
+      timestamp: this.toIsoString(data.timestamp),
+      lastUpdated: this.toIsoString(data.lastUpdated || data.timestamp),
+      // The server copy is its own base; the hash is recomputed since not every writer stores one
+      base: { revision: data.revision, contentHash: JournalRevision.hash(data.content || '') },
+      ...(data.title && { title: data.title }),
+      ...(data.linkedCoachingMessageId && { linkedCoachingMessageId: data.linkedCoachingMessageId }),
+      ...(data.linkedCoachingSessionId && { linkedCoachingSessionId: data.linkedCoachingSessionId }),
+      ...(data.reviewRange && {
+        reviewRange: {
+          period: data.reviewRange.period,
+          from: this.toIsoString(data.reviewRange.from),
+          to: this.toIsoString(data.reviewRange.to)
+        }
+      })
+    };
+  }
+
+  private static async push(uid: string, ignoreBackoff: boolean): Promise<void> {
+    const now = Date.now();
+    const queue = await JournalEntryStore.getQueue(uid);
+    const due = queue.filter(operation => ignoreBackoff || new Date(operation.nextAttemptAt).getTime() <= now);
+    let retryAt = 0;
+
+    for (const operation of due) {
+      try {
+        await this.pushOperation(uid, operation);
+      } catch (error) {
+        const delay = this.getBackoffDelay(operation.attempts + 1);
+        console.warn(`⚠️ Journal sync failed for ${operation.entryId}, retrying in ${Math.round(delay / 1000)}s:`, error);
+        retryAt = Date.now() + delay;
+        await JournalEntryStore.markFailed(uid, operation.entryId, new Date(retryAt));
+        // The rest would most likely fail the same way, so they wait for the same retry
+        break;
+      }
+    }
+
+    await this.scheduleNext(uid, retryAt);
+  }
+
+  private static async pushOperation(uid: string, operation: JournalSyncOperation): Promise<void> {
+    const journal = await JournalEntryStore.load(uid);
+    const entry = journal.entries[operation.entryId];
+    if (!entry) {
+      await JournalEntryStore.removeOperation(uid, operation.entryId);
+      return;
+    }
+    // Conflicting entries wait until the user picks a version
+    if (entry.conflict) return;
+
+    const entryRef = doc(db, 'journal_entries', entry.id);
+
+    if (operation.kind === 'delete') {
+      await deleteDoc(entryRef);
+      await FirestoreService.deleteJournalEntryRevisions(uid, entry.id);
+      await JournalEntryStore.markSynced(uid, entry.id, entry.lastUpdated, { updatedAt: entry.lastUpdated });
+      console.log(`🗑️ Synced deletion of journal entry ${entry.id}`);
+      return;
+    }
+
+    // Read and write in one transaction so no other write can land between the revision check and the save
+    const result = await runTransaction<PushResult>(db, async transaction => {
+      const remote = await transaction.get(entryRef);
+      const remoteData = remote.exists() ? remote.data() : null;
+
+      if (remoteData && entry.syncedUpdatedAt && remoteData.content !== entry.content
+        && JournalRevision.isStale(entry.base || {}, { revision: remoteData.revision, content: remoteData.content || '' })) {
+        return { conflict: this.fromDocument(remote.id, remoteData) };
+      }
+
+      // Record the content this editing session started from before overwriting it
+      // Sessions stored before the device kept their starting content fall back to the server copy
+      const session = entry.editSession;
+      const startContent = session?.startContent ?? remoteData?.content ?? '';
+      if (remoteData && session?.snapshotPending && startContent !== entry.content) {
+        const revision = remoteData.revision ?? 0;
+        transaction.set(doc(db, 'journal_entry_revisions', JournalRevisionLog.revisionId(entry.id, revision)), {
+          entryId: entry.id,
+          uid,
+          content: startContent,
+          revision,
+          savedAt: session.startContent !== undefined
+            ? Timestamp.fromDate(new Date(session.startedAt))
+            : remoteData.lastUpdated || remoteData.timestamp || serverTimestamp(),
+          recordedAt: serverTimestamp()
+        });
+      }
+
+      const next = JournalRevision.next(remoteData, entry.content);
+      transaction.set(entryRef, {
+        uid,
+        content: entry.content,
+        ...next,
+        lastUpdated: serverTimestamp(),
+        // Fields set once, when the entry is created
+        ...(!remoteData && {
+          timestamp: Timestamp.fromDate(new Date(entry.timestamp)),
+          ...(entry.title && { title: entry.title }),
+          ...(entry.linkedCoachingMessageId && { linkedCoachingMessageId: entry.linkedCoachingMessageId }),
+          ...(entry.linkedCoachingSessionId && { linkedCoachingSessionId: entry.linkedCoachingSessionId })
+        })
+      }, { merge: true });
+
+      return { base: next };
+    });
+
+    if ('conflict' in result) {
+      console.warn(`⚠️ Journal entry ${entry.id} was changed elsewhere since revision ${entry.base?.revision ?? 0}`);
+      await JournalEntryStore.markConflict(uid, entry.id, {
+        remoteContent: result.conflict.content,
+        remoteRevision: result.conflict.base?.revision,
+        remoteUpdatedAt: result.conflict.lastUpdated,
+        detectedAt: new Date().toISOString()
+      });
+      return;
+    }
+
+    await JournalEntryStore.markSynced(uid, entry.id, entry.lastUpdated, {
+      updatedAt: new Date().toISOString(),
+      base: result.base,
+      sessionStartedAt: entry.editSession?.startedAt
+    });
+    console.log(`✅ Synced journal entry ${entry.id} (revision ${result.base.revision})`);
+  }
+
+  private static async scheduleNext(uid: string, notBefore: number): Promise<void> {
+    const journal = await JournalEntryStore.load(uid);
+    const waiting = journal.queue.filter(operation => !journal.entries[operation.entryId]?.conflict);
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.max(notBefore, Math.min(...waiting.map(operation => new Date(operation.nextAttemptAt).getTime())));
+    this.cancel(uid);
+    this.timers.set(uid, setTimeout(() => {
+      this.timers.delete(uid);
+      this.requestSync(uid);
+    }, Math.max(nextAttemptAt - Date.now(), 0)));
+  }
+
+  // A failed task rejects its own promise; the next one still runs
+  private static run<T>(uid: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.runs.get(uid) || Promise.resolve();
+    const result = previous.then(task);
+
+    this.runs.set(uid, result.then(() => undefined, () => undefined));
+    return result;
+  }
+
+  private static toIsoString(value: any): string {
+    if (!value) return new Date().toISOString();
+    const date = value.toDate ? value.toDate() : new Date(value);
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+  }
+}
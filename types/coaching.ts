@@ -1,4 +1,5 @@
-import { JournalEntry } from './journal';
+import { JournalEntry, JournalReviewRange, UserAccount } from './journal';
+import { userInsight } from './insights';
 
 /**
  * Coaching interaction request and response types
@@ -6,16 +7,21 @@ import { JournalEntry } from './journal';
 export type CoachingInteractionRequest = {
   entryId: string;
   entryContent: string;
+  sessionId: string; // coaching session the interaction belongs to
+};
+
+export type CoachingBlockVariant = 'text' | 'buttons' | 'multi-select';
+
+export type CoachingBlock = {
+  content: string;
+  variant: CoachingBlockVariant;
+  options?: string[];
+  thinking?: string;
 };
 
 export type CoachingInteractionResponse = {
   success: boolean;
-  coachingBlock?: {
-    content: string;
-    variant: 'text' | 'buttons' | 'multi-select';
-    options?: string[];
-    thinking?: string;
-  };
+  coachingBlock?: CoachingBlock;
   error?: string;
 };
 
@@ -24,12 +30,70 @@ export type CoachingInteractionResponse = {
  */
 export type CoachingContext = {
   entryId: string;
+  sessionId?: string; // coaching session the interaction belongs to
   entryContent: string;
   userId: string;
   entryCount: number;
   userAlignment?: string;
   recentEntries?: JournalEntry[];
   formattedRecentEntries?: string;
+  coachingConfig?: UserAccount['coachingConfig'];
+  onboardingData?: UserAccount['onboardingData'];
+  formattedInsights?: string;
+  formattedCoachingSessions?: string;
+  formattedRelatedEntries?: string;
+  contextReport?: ContextAssemblyReport;
+};
+
+/**
+ * Coaching session transcript used as context for a new interaction
+ */
+export type CoachingSessionTranscript = {
+  id: string;
+  sessionType: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+  }>;
+  updatedAt: Date;
+};
+
+/**
+ * Token-budgeted context assembly
+ */
+export type ContextItemKind = 'current-entry' | 'coaching-session' | 'insights' | 'related-entry' | 'entry';
+
+export type ContextItemReport = {
+  kind: ContextItemKind;
+  id: string;
+  status: 'full' | 'truncated' | 'dropped';
+  originalTokens: number;
+  usedTokens: number;
+};
+
+export type ContextAssemblyInput = {
+  entryId: string;
+  entryContent: string;
+  entries: JournalEntry[]; // candidate past entries, any order
+  coachingSessions?: CoachingSessionTranscript[]; // sessions linked to the current entry
+  insights?: userInsight | null;
+  relatedEntries?: RelatedEntryMatch[]; // older entries retrieved by relevance, best first
+};
+
+export type ContextAssemblyReport = {
+  tokenBudget: number;
+  usedTokens: number;
+  items: ContextItemReport[]; // everything that made it in
+  dropped: ContextItemReport[];
+};
+
+export type AssembledContext = {
+  entryContent: string;
+  formattedRecentEntries: string;
+  formattedInsights?: string;
+  formattedCoachingSessions?: string;
+  formattedRelatedEntries?: string;
+  report: ContextAssemblyReport;
 };
 
 /**
@@ -42,17 +106,106 @@ export type ModelInfo = {
   version: string;
 };
 
+/**
+ * Compiled prompt asset of a coaching model
+ * Generated from `models/<model>/prompts/*.md` by scripts/compile-coaching-prompts.js
+ */
+export type PromptSectionName = 'role' | 'task' | 'output' | 'behavior';
+
+export type PromptAsset = {
+  modelId: string;
+  version: string; // must match ModelInfo.version
+  hash: string; // content hash of all sections
+  sections: Partial<Record<PromptSectionName, string>>;
+};
+
 /**
  * Base interface for all coaching models
  */
 export interface CoachingModel {
   getInfo(): ModelInfo;
   canHandle(context: CoachingContext): boolean;
-  generateSystemPrompt(): string;
+  getRoutingProfile(): RoutingProfile;
+  getPromptAsset?(): PromptAsset;
+  generateSystemPrompt(context?: CoachingContext): string;
   generateContextMessage(context: CoachingContext): string;
   processResponse?(response: string): unknown;
 }
 
+/**
+ * Request sent to a coaching provider (the LLM backend behind a model)
+ */
+export type CoachingProviderRequest = {
+  modelId: string;
+  systemPrompt: string;
+  userMessage: string;
+  context: CoachingContext;
+};
+
+/**
+ * Base interface for all coaching providers
+ * A provider sends the prompts to an LLM and returns its raw (XML) reply
+ */
+export interface CoachingProvider {
+  readonly id: string;
+  complete(request: CoachingProviderRequest): Promise<string>;
+}
+
+/**
+ * Signals derived from a coaching context that routing rules are evaluated against
+ */
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export type RoutingSignals = {
+  entryCount: number;
+  daysSinceLastEntry: number | null; // null when there is no previous entry
+  topics: string[];
+  timeOfDay: TimeOfDay;
+  coachingConfig?: UserAccount['coachingConfig'];
+};
+
+/**
+ * Declarative routing rule - adds its weight to the model's score when it matches
+ */
+export type RoutingRule = {
+  id: string;
+  description: string;
+  weight: number; // may be negative
+  matches: (signals: RoutingSignals) => boolean;
+};
+
+export type RoutingProfile = {
+  baseScore: number; // 0-1 score before any rule is applied
+  rules: RoutingRule[];
+};
+
+/**
+ * Scored routing candidate
+ */
+export type ModelRoutingCandidate = {
+  modelId: string;
+  eligible: boolean; // result of canHandle()
+  confidence: number; // 0-1 score
+  reasons: string[]; // descriptions of the matched rules
+};
+
+/**
+ * Base interface for embedding providers used to retrieve related entries
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Past journal entry retrieved as relevant to the current one
+ */
+export type RelatedEntryMatch = {
+  entry: JournalEntry;
+  score: number; // 0-1, relative to the best match
+  method: 'embedding' | 'bm25';
+};
+
 /**
  * Model routing decision
  */
@@ -60,6 +213,16 @@ export type ModelRoutingDecision = {
   modelId: string;
   reason: string;
   confidence: number; // 0-1 score
+  candidates?: ModelRoutingCandidate[]; // all eligible models, best first
+};
+
+/**
+ * Full routing evaluation for debugging why a model was (not) chosen
+ */
+export type ModelRoutingReport = {
+  signals: RoutingSignals;
+  candidates: ModelRoutingCandidate[]; // every registered model, best first
+  decision: ModelRoutingDecision | null;
 };
 
 /**
@@ -85,4 +248,208 @@ export interface StreamingEvent {
   thinking?: string;
   metadata?: Record<string, unknown>;
   model?: string;
-} 
\ No newline at end of file
+  error?: string;
+}
+
+/**
+ * Coaching card token protocol
+ * Grammar and parser live in lib/coaching/cardProtocol.ts
+ */
+export type CoachingCardType = 'focus' | 'blockers' | 'actions' | 'checkin' | 'meditation';
+
+// Raw marker as written by the model, e.g. [focus:focus="...",context="..."]
+// Props are unescaped, except `\|` which stays escaped so list values can still be split
+export type CoachingCardMarker = {
+  type: string;
+  props: Record<string, string>;
+};
+
+export type FocusCardData = { type: 'focus'; focus: string; context?: string };
+export type BlockersCardData = { type: 'blockers'; items: string[]; title?: string };
+export type ActionsCardData = { type: 'actions'; items: string[]; title?: string };
+export type CheckinCardData = { type: 'checkin'; frequency?: string; what?: string; notes?: string };
+export type MeditationCardData = { type: 'meditation'; title: string; duration: number; description?: string };
+
+export type CoachingCard =
+  | FocusCardData
+  | BlockersCardData
+  | ActionsCardData
+  | CheckinCardData
+  | MeditationCardData;
+
+export type CardParseErrorCode =
+  | 'unterminated-marker'
+  | 'invalid-type'
+  | 'invalid-prop'
+  | 'unterminated-value'
+  | 'invalid-escape'
+  | 'duplicate-prop'
+  | 'unknown-card'
+  | 'missing-prop'
+  | 'invalid-value'
+  | 'unterminated-finish-block';
+
+export type CardParseError = {
+  code: CardParseErrorCode;
+  message: string;
+  offset: number; // position of the offending marker in the parsed text
+  marker?: string;
+};
+
+// Cards of a completed session, found between [finish-start] and [finish-end]
+export type CoachingCompletionData = {
+  components: CoachingCardMarker[];
+  rawData: string;
+};
+
+/**
+ * Coaching chat session persisted on the device (services/coachingSessionStore.ts)
+ */
+export type StoredCoachingMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string; // ISO date
+  isError?: boolean;
+  isQueued?: boolean;
+  originalUserMessage?: string;
+  thinking?: string;
+  model?: string;
+  metadata?: Record<string, unknown>;
+};
+
+// User message typed while offline, replayed in order once connectivity returns
+export type QueuedCoachingMessage = {
+  messageId: string;
+  content: string;
+  sessionType?: CoachingSessionType;
+  sessionDuration?: number;
+  queuedAt: string; // ISO date
+};
+
+// Alternate continuations of a conversation after one message, created by editing the next user message
+// Keyed by the id of the message they follow (COACHING_ROOT_BRANCH for the start of the session)
+export type CoachingBranchGroup<TMessage = StoredCoachingMessage> = {
+  activeIndex: number;
+  variants: TMessage[][];
+};
+
+export type StoredCoachingSession = {
+  sessionId: string;
+  messages: StoredCoachingMessage[]; // active branch
+  branches: Record<string, CoachingBranchGroup>;
+  outbox: QueuedCoachingMessage[];
+  timer?: CoachingSessionTimer;
+  updatedAt: string; // ISO date
+};
+
+// Time box of a session, started with the first user message
+// Wall-clock based, so it keeps running while the app is in the background or closed
+export type CoachingSessionTimer = {
+  startedAt: string; // ISO date
+  durationMinutes: number;
+  completedAt?: string; // ISO date, set once the session was completed (finished or timed out)
+};
+
+// Time box state sent with a chat request; the server adds it to the system prompt (SessionTimeBox.toPrompt)
+export type CoachingSessionTime = {
+  remainingMinutes?: number;
+  wrapUp?: boolean;
+};
+
+/**
+ * Locally estimated coaching session progress (lib/coaching/progressEstimator.ts)
+ */
+export type CoachingProgressTopic = 'focus' | 'blockers' | 'actions';
+
+export type CoachingProgressSignals = {
+  userTurns: number;
+  coveredTopics: CoachingProgressTopic[];
+  cardTypes: string[]; // card markers the coach already emitted
+  averageAnswerWords: number;
+  hasFinishToken: boolean;
+};
+
+export type CoachingProgressEstimate = {
+  progress: number; // 0-100
+  signals: CoachingProgressSignals;
+  breakdown: Record<'turns' | 'topics' | 'cards' | 'depth', number>;
+};
+
+/**
+ * Coaching session programs (lib/coaching/sessionPrograms.ts)
+ * A program is what a `sessionType` stands for: its length, the cards expected
+ * at `[finish-start]`, the conversation starters and the model it routes to.
+ */
+export type CoachingSessionType =
+  | 'default-session'
+  | 'morning-checkin'
+  | 'weekly-review'
+  | 'monthly-review'
+  | 'decision-making'
+  | 'initial-life-deep-dive';
+
+export type CoachingSessionProgram = {
+  id: CoachingSessionType;
+  name: string; // short label, e.g. on session cards
+  title: string; // heading of a finished session
+  description: string;
+  durationMinutes: number; // default sessionDuration
+  goalCards: CoachingCardType[]; // cards expected between [finish-start] and [finish-end]
+  starters: string[];
+  openingMessage: (firstName?: string) => string;
+  modelId: string; // CoachingModel the session is routed to
+};
+
+/**
+ * Weekly/monthly review of journal history (lib/coaching/reviewBuilder.ts)
+ */
+export type CoachingReviewInput = {
+  range: JournalReviewRange;
+  entries: JournalEntry[]; // entries written in the range
+  sessions: CoachingSessionTranscript[]; // coaching sessions linked to those entries
+  insights: userInsight[]; // insight documents updated in the range, oldest first
+  previousInsights?: userInsight | null; // latest insight document before the range
+};
+
+export type CoachingReviewTheme = {
+  topic: string;
+  entryCount: number;
+};
+
+export type CoachingMoodPoint = {
+  date: Date;
+  score: number; // -1 (negative) to 1 (positive)
+};
+
+export type CoachingReviewQuote = {
+  text: string;
+  date: Date;
+  entryId?: string;
+  sessionId?: string;
+};
+
+export type CoachingReviewBlocker = {
+  text: string;
+  occurrences: number;
+};
+
+export type CoachingFocusChange = {
+  headline: string;
+  previousHeadline?: string;
+  changedAt: Date;
+};
+
+export type CoachingReview = {
+  range: JournalReviewRange;
+  entryCount: number;
+  sessionCount: number;
+  themes: CoachingReviewTheme[];
+  moodTrend: {
+    points: CoachingMoodPoint[];
+    direction: 'improving' | 'declining' | 'steady' | 'unknown';
+  };
+  wins: CoachingReviewQuote[];
+  recurringBlockers: CoachingReviewBlocker[];
+  focusChanges: CoachingFocusChange[];
+};
@@ -2,30 +2,109 @@
 
 // for now, we generate a random id but will have 1 user = 1 userInsight (might add multiple in the future) 
 export type userInsight = {
-    mainFocus: {
-        headline: string,
-        description: string,
-        sources: insightSource[],
-        updatedAt: number, // unix timestamp
-    },
-    keyBlockers: {
-        headline: string,
-        description: string,
-        sources: insightSource[],
-        updatedAt: number,
-    },
-    plan: {
-        headline: string,
-        description: string,
-        sources: insightSource[],
-        updatedAt: number,
-    },
+    mainFocus: insightSection,
+    keyBlockers: insightSection,
+    plan: insightSection,
+    categories?: Partial<Record<insightSectionKey, insightSection>>, // every other category, keyed by insightCategory.key
+    userEdits?: Partial<Record<insightSectionKey, insightSectionEdit>>, // user's changes, kept across extractions
     userId: string,
     createdAt: number,
     updatedAt: number,
 }
 
+export type insightSection = {
+    headline: string,
+    description: string,
+    sources: insightSource[],
+    updatedAt: number, // unix timestamp
+}
+
 export type insightSource = {
     quote: string,
     extractedAt: number,
-}
\ No newline at end of file
+    reference?: insightSourceReference, // where the quote was said - missing on older sources
+}
+
+export type insightSourceReference = {
+    kind: 'journalEntry',
+    entryId: string,
+    span?: insightSourceSpan, // in the entry's plain text
+} | {
+    kind: 'coachingSession',
+    sessionId: string,
+    messageId?: string,
+    span?: insightSourceSpan, // in the message content
+}
+
+// character offsets, end exclusive
+export type insightSourceSpan = {
+    start: number,
+    end: number,
+}
+
+// key of an insight category - 'mainFocus', 'keyBlockers' and 'plan' are stored at the top level of the document
+export type insightSectionKey =
+    | 'mainFocus'
+    | 'keyBlockers'
+    | 'plan'
+    | 'values'
+    | 'energyDrains'
+    | 'relationships'
+    | 'habits'
+    | 'wins';
+
+export type insightCategory = {
+    key: insightSectionKey,
+    title: string, // story page title, e.g. "Your Main Focus"
+    label: string, // short name, e.g. "Main focus"
+    description: string, // what the extractor should look for
+    color: string,
+}
+
+// collection name on firestore: "userInsightVersions"
+// one document per saved state of a user's insights, id = `${userId}_${updatedAt}`
+export type insightVersion = {
+    id: string,
+    userId: string,
+    snapshot: Partial<Record<insightSectionKey, insightSection>>,
+    updatedAt: number, // updatedAt of the insight document at that point
+    recordedAt: number,
+    sessionId?: string, // coaching session whose insight extraction produced this version
+}
+
+export type insightSectionDiff = {
+    section: insightSectionKey,
+    headlineChanged: boolean,
+    descriptionChanged: boolean,
+    before?: { headline: string, description: string },
+    after: { headline: string, description: string },
+    addedSources: insightSource[],
+    removedSources: insightSource[],
+}
+
+export type insightVersionDiff = {
+    fromVersionId: string | null, // null when diffing against nothing (first version)
+    toVersionId: string,
+    changedSections: insightSectionDiff[],
+}
+
+// what the user did to one section in the Compass
+export type insightSectionEdit = {
+    pinned: boolean, // extraction must keep the section as it is
+    editedByUser: boolean, // headline/description were written by the user
+    rejectedHeadlines: string[], // suggestions the user turned down
+    updatedAt: number,
+}
+
+export type insightSectionConstraint = {
+    section: insightSectionKey,
+    headline: string,
+    description: string,
+}
+
+// sent to the insight extractor along with the session
+export type insightExtractionConstraints = {
+    pinned: insightSectionConstraint[], // keep unchanged
+    edited: insightSectionConstraint[], // the user's wording - refine, don't replace
+    rejected: Array<{ section: insightSectionKey, headlines: string[] }>, // never suggest again
+}
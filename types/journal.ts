@@ -6,6 +6,119 @@ export interface JournalEntry {
   lastUpdated: Date;
   title?: string;
   linkedCoachingMessageId?: string; // id of the coaching message that this entry is linked to
+  linkedCoachingSessionId?: string; // id of the coaching session that this entry is linked to
+  reviewRange?: JournalReviewRange; // set on entries holding a weekly/monthly review
+  revision?: number; // bumped on every write, see JournalRevision
+  contentHash?: string; // hash of content as of this revision
+}
+
+export type JournalReviewPeriod = 'week' | 'month';
+
+// Date range a review entry looks back on
+export interface JournalReviewRange {
+  period: JournalReviewPeriod;
+  from: Date;
+  to: Date;
+}
+
+// Journal entry as kept on the device by JournalEntryStore, dates as ISO strings
+export interface StoredJournalEntry {
+  id: string;
+  uid: string;
+  content: string;
+  title?: string;
+  timestamp: string; // ISO date
+  lastUpdated: string; // ISO date of the last change, on the device or the server
+  linkedCoachingMessageId?: string;
+  linkedCoachingSessionId?: string;
+  reviewRange?: { period: JournalReviewPeriod; from: string; to: string };
+  syncedUpdatedAt?: string; // server lastUpdated this copy is based on, missing until the entry was first synced
+  base?: JournalRevisionBase; // server revision the unsynced changes were made on
+  editSession?: JournalEditSession;
+  pendingSync?: boolean; // changed on the device since the last sync
+  deleted?: boolean; // deleted on the device, dropped once the deletion is synced
+  conflict?: JournalEntryConflict;
+}
+
+// Server version of an entry that was edited elsewhere (e.g. the web app) while the device had unsynced changes
+export interface JournalEntryConflict {
+  remoteContent: string;
+  remoteRevision?: number;
+  remoteUpdatedAt: string; // ISO date
+  detectedAt: string; // ISO date
+}
+
+// Revision of an entry on the server that a device's copy is based on
+export interface JournalRevisionBase {
+  revision?: number; // missing for entries written before revisions were tracked
+  contentHash?: string;
+}
+
+// Run of saves of an entry that share one snapshot in the revision log, see JournalRevisionLog
+export interface JournalEditSession {
+  startedAt: string; // ISO date
+  lastEditAt: string; // ISO date
+  snapshotPending: boolean; // the content the session started from still has to be recorded
+  startContent?: string; // the content the session started from, kept until it's recorded
+}
+
+// Snapshot in journal_entry_revisions: an entry's content as it was before an editing session
+export interface JournalEntryRevision {
+  id: string; // entryId_revision
+  entryId: string;
+  uid: string;
+  content: string;
+  revision: number;
+  savedAt: Date; // when this content was saved
+  recordedAt: Date;
+}
+
+// Block (paragraph, heading, list...) of an entry in a comparison of two versions
+export interface JournalBlockChange {
+  kind: 'same' | 'removed' | 'added'; // removed: only in the first version, added: only in the second
+  html: string;
+}
+
+// Date range of a journal search, counted back from today
+export type JournalSearchRange = 'all' | 'week' | 'month' | 'year';
+
+// Parsed search input: every term and phrase must match, the last word as you type matches as a prefix
+export interface JournalSearchQuery {
+  terms: string[];
+  phrases: string[][]; // words of each quoted phrase, in order
+  prefix: string | null;
+  from?: Date;
+  to?: Date;
+}
+
+// Character range in a search snippet to highlight
+export interface JournalSearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface JournalSearchResult {
+  entryId: string;
+  score: number;
+  timestamp: number;
+  snippet: string; // plain text around the first match
+  highlights: JournalSearchHighlight[]; // offsets in snippet
+}
+
+// Change waiting to be written to journal_entries
+export interface JournalSyncOperation {
+  entryId: string;
+  kind: 'upsert' | 'delete';
+  attempts: number;
+  queuedAt: string; // ISO date
+  nextAttemptAt: string; // ISO date, pushed back exponentially after each failed attempt
+}
+
+export interface StoredJournal {
+  uid: string;
+  entries: Record<string, StoredJournalEntry>;
+  queue: JournalSyncOperation[];
+  updatedAt: string; // ISO date
 }
 
 export interface UserAccount {